@@ -8,16 +8,21 @@
 
 import { ActorProtocol } from './ActorProtocol.js'
 import { Address } from './Address.js'
-import { DeadLetters } from './DeadLetters.js'
+import { Behavior } from './Behavior.js'
+import { DeadLetter, DeadLetters } from './DeadLetters.js'
 import { Definition } from './Definition.js'
 import { Environment } from './Environment.js'
 import { ExecutionContext } from './ExecutionContext.js'
-import { LifeCycle } from './LifeCycle.js'
+import { INTERNAL_ENVIRONMENT_ACCESS, InternalActorAccess } from './InternalAccess.js'
+import { LifeCycle, tellTerminated } from './LifeCycle.js'
+import { LocalMessage } from './LocalMessage.js'
 import { Logger } from './Logger.js'
 import { Protocol } from './Protocol.js'
 import { Scheduler } from './Scheduler.js'
 import { stage, Stage } from './Stage.js'
 import { StageInternal } from './StageInternal.js'
+import { Stash } from './Stash.js'
+import { answerStashOverflowed } from './Undelivered.js'
 
 /**
  * Abstract base class for all actors in the system.
@@ -54,11 +59,15 @@ import { StageInternal } from './StageInternal.js'
  * - Provides access to runtime services (logger, scheduler, stage)
  * - Manages actor identity (address, definition, type)
  * - Supports actor hierarchy (parent, children)
+ * - Death watch of other actors (watch, unwatch, onTerminated)
+ * - Behavior switching (become, unbecome)
  * - State snapshot mechanism for persistence/testing
  *
  * Actors are created via stage.actorFor() and should not be instantiated directly.
  */
 export abstract class Actor extends LifeCycle implements ActorProtocol {
+  private _behaviors: Behavior[] = []
+
   /**
    * Returns a formatted ID string for an actor.
    * Utility method for logging and debugging.
@@ -88,6 +97,14 @@ export abstract class Actor extends LifeCycle implements ActorProtocol {
     return this.environment().address()
   }
 
+  /**
+   * Returns the behavior handling this actor's messages, if any.
+   * @returns The active behavior, or undefined if the actor handles its messages
+   */
+  behavior(): Behavior | undefined {
+    return this._behaviors[this._behaviors.length - 1]
+  }
+
   /**
    * Returns the dead letters facility for undeliverable messages.
    * @returns DeadLetters instance from the stage
@@ -115,6 +132,95 @@ export abstract class Actor extends LifeCycle implements ActorProtocol {
     return this.environment().executionContext()
   }
 
+  /**
+   * Returns the abort signal sent with the message being processed, if any.
+   * Long-running handlers can check or listen to it to stop work the
+   * sender no longer needs; see withSignal().
+   * @returns AbortSignal of the current message, or undefined
+   */
+  protected abortSignal(): AbortSignal | undefined {
+    return this.environment().getCurrentMessageAbortSignal()
+  }
+
+  /**
+   * Returns the maximum number of messages this actor may stash.
+   * Override to change the capacity; it is read once, when the
+   * actor first stashes a message.
+   * @returns Stash capacity (default: Stash.DefaultCapacity)
+   */
+  stashCapacity(): number {
+    return Stash.DefaultCapacity
+  }
+
+  /**
+   * Sets aside the message being processed, to be delivered again after
+   * unstashAll(). The sender is answered only when the message is
+   * processed without being stashed again. Typically used by an actor
+   * not yet ready for some messages:
+   *
+   * ```typescript
+   * async query(id: string): Promise<Row | undefined> {
+   *   if (!this.ready) {
+   *     this.stash()  // the sender is answered on redelivery
+   *     return undefined
+   *   }
+   *   return this.rows.get(id)
+   * }
+   *
+   * async open(): Promise<void> {
+   *   this.ready = true
+   *   this.unstashAll()
+   * }
+   * ```
+   *
+   * If the stash is full, the message is instead routed to dead letters
+   * and its sender rejected with a StashOverflowError. Stashed messages are
+   * retained across restarts and routed to dead letters when the actor
+   * stops.
+   *
+   * @throws Error if no message is being processed
+   */
+  protected stash(): void {
+    const message = this.environment().getCurrentMessage()
+    if (!(message instanceof LocalMessage)) {
+      throw new Error('stash() requires a message being processed')
+    }
+
+    if (message.isStashed()) {
+      return
+    }
+
+    if (this.environment().stash().add(message)) {
+      message.stash()
+    } else {
+      const deadLetter = new DeadLetter(this, message.representation())
+      this.deadLetters().failedDelivery(deadLetter)
+      answerStashOverflowed(message, this.environment().stash().capacity())
+      this.logger().error(`Stash full (${this.environment().stash().capacity()}): ${message.representation()}`)
+    }
+  }
+
+  /**
+   * Returns all stashed messages to the mailbox ahead of the messages
+   * queued there, in the order they were stashed. They are delivered
+   * after the message being processed.
+   */
+  protected unstashAll(): void {
+    const messages = this.environment().takeStashed()
+    if (messages.length === 0) {
+      return
+    }
+
+    const mailbox = this.environment().mailbox()
+    if (mailbox.prepend) {
+      mailbox.prepend(messages)
+    } else {
+      for (const message of messages) {
+        mailbox.send(message)
+      }
+    }
+  }
+
   /**
    * Returns this actor's lifecycle manager.
    * @returns LifeCycle instance (this actor)
@@ -291,6 +397,97 @@ export abstract class Actor extends LifeCycle implements ActorProtocol {
     )
   }
 
+  /**
+   * Watches another actor for termination.
+   *
+   * When the watched actor stops, whether normally or by supervision,
+   * this actor receives onTerminated(address, reason) through its mailbox.
+   * If the other actor is already stopped, the notification is sent
+   * immediately. Watching the same actor more than once results in a
+   * single notification. Watching ends when either actor stops.
+   *
+   * @param other The actor to watch
+   */
+  protected watch(other: ActorProtocol): void {
+    if (this.equals(other)) {
+      return
+    }
+
+    const stageInternal = this.stage() as StageInternal
+    const selfProxy = stageInternal.directory().get(this.address())
+    if (!selfProxy) {
+      return  // this actor is stopped and cannot be notified
+    }
+
+    const otherEnv: Environment = (other as any as InternalActorAccess)[INTERNAL_ENVIRONMENT_ACCESS]()
+
+    if (other.isStopped()) {
+      tellTerminated(selfProxy, other.address(), otherEnv.stopReason(), this.logger())
+      return
+    }
+
+    otherEnv.addWatcher(selfProxy)
+    this.environment().addWatching(other)
+  }
+
+  /**
+   * Stops watching another actor for termination.
+   *
+   * A notification that was already sent before unwatching remains
+   * in this actor's mailbox and is still delivered.
+   *
+   * @param other The actor to stop watching
+   */
+  protected unwatch(other: ActorProtocol): void {
+    const otherEnv: Environment = (other as any as InternalActorAccess)[INTERNAL_ENVIRONMENT_ACCESS]()
+
+    otherEnv.removeWatcher(this.address())
+    this.environment().removeWatching(other.address())
+  }
+
+  /**
+   * Makes the behavior handle this actor's messages from the next message
+   * on, in place of the actor's own methods. Suited to actors whose
+   * messages mean different things in different states:
+   *
+   * ```typescript
+   * class DoorActor extends Actor implements Door {
+   *   private readonly closed: Behavior<Door> = {
+   *     open: async () => this.become(this.opened),
+   *     lock: async () => this.become(this.locked)
+   *   }
+   *
+   *   private readonly opened: Behavior<Door> = {
+   *     close: async () => this.become(this.closed)
+   *   }
+   *   ...
+   * }
+   * ```
+   *
+   * A message that the behavior does not implement is routed to dead
+   * letters and its sender rejected with an UnhandledMessageError. The
+   * methods of Actor itself, such as stop(), are always handled by the
+   * actor. Behaviors are not retained across restarts.
+   *
+   * @param behavior The behavior to handle messages
+   * @param discardOld Whether the behavior replaces the active one (default)
+   *   or is stacked on it, to be reverted to by unbecome()
+   */
+  protected become<T>(behavior: Behavior<T>, discardOld: boolean = true): void {
+    if (discardOld) {
+      this._behaviors.pop()
+    }
+    this._behaviors.push(behavior)
+  }
+
+  /**
+   * Reverts to the behavior that was active before the last become(),
+   * or to the actor's own methods if there was none.
+   */
+  protected unbecome(): void {
+    this._behaviors.pop()
+  }
+
   /**
    * Returns a proxy to this actor for self-messaging.
    *
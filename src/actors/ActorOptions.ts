@@ -0,0 +1,68 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { ActorProtocol } from './ActorProtocol.js'
+import { Address } from './Address.js'
+import { INTERNAL_ENVIRONMENT_ACCESS, InternalActorAccess } from './InternalAccess.js'
+import { Mailbox } from './Mailbox.js'
+
+/**
+ * Options for creating an actor with Stage.actorFor(), each given by
+ * name rather than by position.
+ *
+ * ```typescript
+ * stage().registerMailboxFactory('bounded-1000-drop-oldest', () =>
+ *   new BoundedMailbox(1000, OverflowPolicy.DropOldest))
+ *
+ * const account = stage().actorFor<Account>(AccountProtocol, {
+ *   mailbox: 'bounded-1000-drop-oldest',
+ *   supervisor: 'bank-supervisor',
+ *   parameters: ['ACC-1', 100]
+ * })
+ * ```
+ *
+ * Parameters are checked against the types of the protocol's
+ * constructor parameters, P, when the type arguments of actorFor()
+ * are inferred rather than given:
+ *
+ * ```typescript
+ * const AccountProtocol: Protocol<[string, number]> = ...
+ * const account: Account = stage().actorFor(AccountProtocol, { parameters: ['ACC-1', 100] })
+ * ```
+ *
+ * @template P The types of the actor's constructor parameters (default: any)
+ */
+export interface ActorOptions<P extends any[] = any[]> {
+  /** Name of a mailbox factory registered with the stage, or a mailbox (default: 'default') */
+  mailbox?: string | Mailbox
+  /** Name of the actor's supervisor (default: 'default') */
+  supervisor?: string
+  /** Parent actor (default: the stage's public root) */
+  parent?: ActorProtocol
+  /** Name of the actor, its type, by which it is found as a supervisor (default: the protocol's type) */
+  name?: string
+  /** Address of the actor (default: a new unique address) */
+  address?: Address
+  /** Constructor parameters for the actor, available from its Definition */
+  parameters?: P
+}
+
+/**
+ * Answers whether the argument given to actorFor() after the protocol is
+ * an ActorOptions object rather than a parent actor, which is always an
+ * actor proxy.
+ *
+ * @param value The argument
+ * @returns true if ActorOptions, otherwise false
+ * @internal
+ */
+export function isActorOptions(value: unknown): value is ActorOptions {
+  return typeof value === 'object'
+    && value !== null
+    && typeof (value as InternalActorAccess)[INTERNAL_ENVIRONMENT_ACCESS] !== 'function'
+}
@@ -7,9 +7,10 @@
 // See: https://opensource.org/license/rpl-1-5
 
 import { Actor } from "./Actor.js"
-import { createDeferred } from "./DeferredPromise.js"
+import { createDeferred, DeferredPromise, OneWayDeferred } from "./DeferredPromise.js"
+import { Environment } from "./Environment.js"
 import { EmptyExecutionContext } from "./ExecutionContext.js"
-import { LocalMessage } from "./LocalMessage.js"
+import { LocalMessage, LocalMessageOptions } from "./LocalMessage.js"
 import { Mailbox } from "./Mailbox.js"
 import { INTERNAL_ENVIRONMENT_ACCESS } from "./InternalAccess.js"
 
@@ -76,11 +77,15 @@ const SYNCHRONOUS_ACTOR_METHODS = new Set([
  * ```
  */
 export function createActorProxy<T extends object>(actor: Actor, mailbox: Mailbox): T {
+  // The environment outlives any single actor instance: on restart the
+  // stage swaps a new instance into it, so always resolve the current one
+  const environment = actor.lifeCycle().environment()
+
   return new Proxy({} as T, {
     get(_target, prop: string | symbol) {
       // Handle internal symbol-based access for library code
       if (prop === INTERNAL_ENVIRONMENT_ACCESS) {
-        return () => actor.lifeCycle().environment()
+        return () => environment
       }
 
       // Ignore symbols, special properties, and Promise-related methods
@@ -97,9 +102,10 @@ export function createActorProxy<T extends object>(actor: Actor, mailbox: Mailbo
 
       // Handle synchronous ActorProtocol methods directly
       if (typeof prop === 'string' && SYNCHRONOUS_ACTOR_METHODS.has(prop)) {
-        const method = (actor as any)[prop]
+        const current = environment.actor()
+        const method = (current as any)[prop]
         if (typeof method === 'function') {
-          return method.bind(actor)
+          return method.bind(current)
         }
         return method
       }
@@ -109,28 +115,109 @@ export function createActorProxy<T extends object>(actor: Actor, mailbox: Mailbo
         // Create deferred promise for caller
         const deferred = createDeferred<any>()
 
-        // Get ExecutionContext from actor's environment
-        // Copy it if it has context, otherwise use EmptyExecutionContext
-        const currentContext = actor.lifeCycle().environment().executionContext()
-        const contextCopy = currentContext.hasContext()
-          ? currentContext.copy()
-          : EmptyExecutionContext
-
-        // Create message with function that will invoke actual actor method
-        const message = new LocalMessage(
-          actor,
-          (actorInstance: any) => actorInstance[prop](...args),
-          deferred,
-          prop + "(" + args.toString() + ")",
-          contextCopy
-        )
-
         // Send to mailbox (async delivery)
-        mailbox.send(message)
+        sendMessage(actor, environment, mailbox, prop, args, deferred)
 
         // Return promise immediately to caller
         return deferred.promise
       }
     }
   }) as T
-}
\ No newline at end of file
+}
+
+/**
+ * Creates a one-way proxy of an actor, on which every method call sends
+ * a message without a deferred promise and returns nothing.
+ *
+ * Failures of one-way messages are routed only to supervision.
+ *
+ * @param actor The actor instance that will process messages
+ * @param mailbox The mailbox where messages will be enqueued
+ * @returns A one-way proxy of the actor
+ * @internal
+ */
+export function createOneWayProxy<T extends object>(actor: Actor, mailbox: Mailbox): T {
+  const environment = actor.lifeCycle().environment()
+
+  return new Proxy({} as T, {
+    get(_target, prop: string | symbol) {
+      // Ignore symbols, special properties, and Promise-related methods
+      if (typeof prop === 'symbol' || prop.startsWith('_')) {
+        return undefined
+      }
+
+      if (prop === 'then' || prop === 'catch' || prop === 'finally') {
+        return undefined
+      }
+
+      return function(...args: any[]): void {
+        sendMessage(actor, environment, mailbox, prop, args, OneWayDeferred)
+      }
+    }
+  }) as T
+}
+
+/**
+ * Answers whether the named ActorProtocol method is exposed synchronously
+ * by actor proxies rather than sent as a message.
+ *
+ * @param prop The method name
+ * @returns true if the method is synchronous
+ * @internal
+ */
+export function isSynchronousActorMethod(prop: string): boolean {
+  return SYNCHRONOUS_ACTOR_METHODS.has(prop)
+}
+
+/**
+ * Sends a message invoking the named method on the actor.
+ *
+ * @param actor The actor that will process the message
+ * @param environment The environment of the actor
+ * @param mailbox The mailbox where the message is enqueued
+ * @param prop The name of the method to invoke
+ * @param args The arguments of the method
+ * @param deferred The deferred promise for the return value
+ * @param options Options given by the sender
+ * @returns The sent message
+ * @internal
+ */
+export function sendMessage(
+  actor: Actor,
+  environment: Environment,
+  mailbox: Mailbox,
+  prop: string,
+  args: any[],
+  deferred: DeferredPromise<any>,
+  options?: LocalMessageOptions
+): LocalMessage {
+  // Get ExecutionContext from actor's environment
+  // Copy it if it has context, otherwise use EmptyExecutionContext
+  const currentContext = environment.executionContext()
+  const contextCopy = currentContext.hasContext()
+    ? currentContext.copy()
+    : EmptyExecutionContext
+
+  // Create message with function that will invoke actual actor method
+  const message = new LocalMessage(
+    actor,
+    (actorInstance: any) => actorInstance[prop](...args),
+    deferred,
+    prop + "(" + args.toString() + ")",
+    contextCopy,
+    options,
+    args
+  )
+
+  // Messages expecting an answer are rejected if awaiting them deadlocks
+  if (deferred !== OneWayDeferred && environment.stage().detectsDeadlocks()) {
+    const sender = Environment.senderEnvironment()
+    if (sender) {
+      environment.stage().waitForGraph().waitFor(sender, environment, message)
+    }
+  }
+
+  mailbox.send(message)
+
+  return message
+}
@@ -7,8 +7,12 @@
 // See: https://opensource.org/license/rpl-1-5
 
 import { DeadLetter } from "./DeadLetters.js"
+import { applyTimeToLive, discardIfExpired } from "./LocalMessage.js"
 import { Mailbox } from "./Mailbox.js"
+import { MailboxMetrics } from "./MailboxMetrics.js"
 import { Message, EmptyMessage } from "./Message.js"
+import { answerStopped } from "./Undelivered.js"
+import { throughputOf, yieldToEventLoop } from "./Throughput.js"
 
 /**
  * Unbounded FIFO mailbox implementation using JavaScript arrays.
@@ -27,16 +31,31 @@ export class ArrayMailbox implements Mailbox {
   private dispatching: boolean
   private suspended: boolean
   private queue: Message[]
+  private readonly ttl?: number
+  private readonly throughput?: number
+  private readonly _metrics = new MailboxMetrics()
 
   /**
    * Creates a new unbounded array mailbox.
    * Initializes with empty queue in open, non-suspended state.
+   *
+   * @param ttl Default time (ms) within which messages must be received (default: none)
+   * @param throughput Messages delivered in a row before yielding to the event loop (default: the stage's)
+   * @throws Error if ttl or throughput is not positive
    */
-  constructor() {
+  constructor(ttl?: number, throughput?: number) {
+    if (ttl !== undefined && ttl <= 0) {
+      throw new Error('Mailbox time to live must be positive')
+    }
+    if (throughput !== undefined && !(throughput > 0)) {
+      throw new Error('Mailbox throughput must be positive')
+    }
     this.closed = false
     this.dispatching = false
     this.suspended = false
     this.queue = []
+    this.ttl = ttl
+    this.throughput = throughput
   }
 
   /**
@@ -91,17 +110,25 @@ export class ArrayMailbox implements Mailbox {
    * The active loop re-checks isReceivable() after each message,
    * so it will pick up messages queued during delivery and also
    * resume processing after supervisor-triggered un-suspension.
+   * After delivering its throughput of messages in a row, the loop
+   * yields to the event loop before continuing.
    */
   async dispatch(): Promise<void> {
     if (this.dispatching) return
     this.dispatching = true
     try {
+      let delivered = 0
       while (this.isReceivable()) {
         const message = this.receive()
         if (!message.isDeliverable()) {
           break
         }
         await message.deliver()
+        // Let timers, I/O, and other actors have their turn
+        if (++delivered >= throughputOf(message, this.throughput)) {
+          delivered = 0
+          await yieldToEventLoop()
+        }
       }
     } finally {
       this.dispatching = false
@@ -123,12 +150,20 @@ export class ArrayMailbox implements Mailbox {
 
   /**
    * Dequeues and returns the next message from the mailbox.
+   * Withdrawn messages are skipped, and expired messages discarded.
    * Returns EmptyMessage if the queue is empty.
    *
    * @returns The next message or EmptyMessage if queue is empty
    */
   receive(): Message {
-    const maybeMessage = this.queue.shift()
+    let maybeMessage = this.queue.shift()
+
+    // Skip messages withdrawn by their senders while queued, and discard expired ones
+    while (maybeMessage && (!maybeMessage.isDeliverable() || discardIfExpired(maybeMessage))) {
+      maybeMessage = this.queue.shift()
+    }
+
+    this._metrics.recordDepth(this.queue.length)
 
     return maybeMessage ?  maybeMessage : EmptyMessage
   }
@@ -137,7 +172,7 @@ export class ArrayMailbox implements Mailbox {
    * Enqueues a message for delivery to the actor.
    *
    * Behavior:
-   * - If closed: Routes message to dead letters and resolves with 'actor stopped'
+   * - If closed: Routes message to dead letters and rejects with ActorStoppedError
    * - If suspended: Queues message but does not trigger dispatch
    * - Otherwise: Queues message and triggers dispatch
    *
@@ -145,7 +180,9 @@ export class ArrayMailbox implements Mailbox {
    */
   send(message: Message): void {
     if (!this.isClosed()) {
+      applyTimeToLive(message, this.ttl)
       this.queue.push(message)
+      this._metrics.recordQueued(message, this.queue.length)
       // Only dispatch if not suspended
       if (!this.isSuspended()) {
         this.dispatch()
@@ -153,7 +190,42 @@ export class ArrayMailbox implements Mailbox {
     } else {
       const deadLetter = new DeadLetter(message.to(), message.representation())
       message.to().stage().deadLetters().failedDelivery(deadLetter)
-      message.deferred().resolve('actor stopped')
+      answerStopped(message)
+    }
+  }
+
+  /**
+   * Enqueues messages ahead of all queued messages, in the given order.
+   *
+   * Behavior:
+   * - If closed: Routes each message to dead letters and rejects with ActorStoppedError
+   * - If suspended: Queues messages but does not trigger dispatch
+   * - Otherwise: Queues messages and triggers dispatch
+   *
+   * @param messages The messages to enqueue first
+   */
+  prepend(messages: Message[]): void {
+    if (!this.isClosed()) {
+      this.queue.unshift(...messages)
+      this._metrics.recordDepth(this.queue.length)
+      // Only dispatch if not suspended
+      if (!this.isSuspended()) {
+        this.dispatch()
+      }
+    } else {
+      for (const message of messages) {
+        const deadLetter = new DeadLetter(message.to(), message.representation())
+        message.to().stage().deadLetters().failedDelivery(deadLetter)
+        answerStopped(message)
+      }
     }
   }
+
+  /**
+   * Returns the metrics of this mailbox, disabled until enabled.
+   * @returns Mailbox metrics
+   */
+  metrics(): MailboxMetrics {
+    return this._metrics
+  }
 }
@@ -0,0 +1,363 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { isSynchronousActorMethod, sendMessage } from './ActorProxy.js'
+import { createDeferred, DeferredPromise } from './DeferredPromise.js'
+import { Environment } from './Environment.js'
+import { INTERNAL_ENVIRONMENT_ACCESS, InternalActorAccess } from './InternalAccess.js'
+
+/**
+ * Options applied to every message sent through an ask proxy.
+ */
+export interface AskOptions {
+  /** Time (ms) after which an unanswered message is rejected */
+  timeout?: number
+  /** Whether a message still queued when it times out is withdrawn */
+  discardOnTimeout?: boolean
+  /** Signal with which the sender withdraws its messages */
+  signal?: AbortSignal
+  /** Priority of the messages, used by a PriorityMailbox */
+  priority?: number
+  /** Time (ms) after sending within which the messages must be received */
+  ttl?: number
+}
+
+/**
+ * Error rejecting a message that was not answered within its timeout.
+ */
+export class AskTimeoutError extends Error {
+  private _representation: string
+  private _timeout: number
+
+  /**
+   * Creates a timeout error.
+   * @param representation The representation of the message (e.g., 'fetch(1)')
+   * @param timeout The timeout (ms) that elapsed
+   */
+  constructor(representation: string, timeout: number) {
+    super(`Ask timed out after ${timeout}ms: ${representation}`)
+    this.name = 'AskTimeoutError'
+    this._representation = representation
+    this._timeout = timeout
+  }
+
+  /**
+   * Returns the representation of the message that timed out.
+   * @returns Message representation
+   */
+  representation(): string {
+    return this._representation
+  }
+
+  /**
+   * Returns the timeout that elapsed.
+   * @returns Timeout in milliseconds
+   */
+  timeout(): number {
+    return this._timeout
+  }
+}
+
+/**
+ * Error rejecting a message whose sender aborted it.
+ * The reason of the abort signal is available as `cause`.
+ */
+export class AbortError extends Error {
+  private _representation: string
+
+  /**
+   * Creates an abort error.
+   * @param representation The representation of the message (e.g., 'fetch(1)')
+   * @param reason The reason of the abort signal
+   */
+  constructor(representation: string, reason?: any) {
+    super(`Message aborted: ${representation}`, { cause: reason })
+    this.name = 'AbortError'
+    this._representation = representation
+  }
+
+  /**
+   * Returns the representation of the message that was aborted.
+   * @returns Message representation
+   */
+  representation(): string {
+    return this._representation
+  }
+}
+
+/**
+ * Error rejecting a message that was not received by its actor before
+ * its deadline. The message is also routed to dead letters.
+ */
+export class MessageExpiredError extends Error {
+  private _representation: string
+  private _deadline: number
+
+  /**
+   * Creates an expiry error.
+   * @param representation The representation of the message (e.g., 'fetch(1)')
+   * @param deadline The time (ms since the epoch) by which it had to be received
+   */
+  constructor(representation: string, deadline: number) {
+    super(`Message expired before delivery: ${representation}`)
+    this.name = 'MessageExpiredError'
+    this._representation = representation
+    this._deadline = deadline
+  }
+
+  /**
+   * Returns the representation of the message that expired.
+   * @returns Message representation
+   */
+  representation(): string {
+    return this._representation
+  }
+
+  /**
+   * Returns the deadline that passed.
+   * @returns Deadline in milliseconds since the epoch
+   */
+  deadline(): number {
+    return this._deadline
+  }
+}
+
+/**
+ * Symbol for reading the options of an ask proxy, so that views
+ * derived from an ask proxy combine their options with its own.
+ */
+const ASK_OPTIONS = Symbol('@@DomoActors/askOptions')
+
+/**
+ * Answers a view of the actor whose messages are rejected with an
+ * AskTimeoutError unless answered within the timeout.
+ *
+ * Use it for a single call, or keep it as the default for all calls:
+ *
+ * ```typescript
+ * const balance = await withTimeout(account, 500).balance()
+ *
+ * const patientAccount = withTimeout(account, 2000)
+ * await patientAccount.deposit(100)
+ * ```
+ *
+ * The timeout does not stop the actor from processing the message. With
+ * discardOnTimeout, a message still queued when it times out is withdrawn
+ * so that it is not delivered late; a message already being processed
+ * is not affected.
+ *
+ * @param actor The actor proxy, or a view derived from it
+ * @param timeout Time (ms) within which each message must be answered
+ * @param discardOnTimeout Whether to withdraw messages still queued on timeout
+ * @returns The view of the actor with the timeout
+ * @throws Error if actor is not an actor proxy or timeout is not positive
+ */
+export function withTimeout<T extends object>(actor: T, timeout: number, discardOnTimeout: boolean = false): T {
+  if (!(timeout > 0)) {
+    throw new Error(`Ask timeout must be positive: ${timeout}`)
+  }
+
+  return askProxy(actor, { timeout, discardOnTimeout })
+}
+
+/**
+ * Answers a view of the actor whose messages can be withdrawn with the
+ * abort signal, without adding the signal to the protocol's methods:
+ *
+ * ```typescript
+ * const controller = new AbortController()
+ * const report = withSignal(reports, controller.signal).generate(month)
+ * ...
+ * controller.abort()  // report rejects with AbortError
+ * ```
+ *
+ * When the signal aborts, each unanswered message is rejected with an
+ * AbortError, and a message still queued is skipped by the mailbox. A
+ * message already being processed is not interrupted, but its handler
+ * can observe the signal through Actor.abortSignal() and stop early;
+ * its result is discarded. Messages sent after the signal aborted are
+ * rejected without being sent.
+ *
+ * The signal replaces any signal of the actor if it is itself such a
+ * view; other options, such as a timeout, are retained.
+ *
+ * @param actor The actor proxy, or a view derived from it
+ * @param signal The signal that aborts the messages
+ * @returns The view of the actor with the signal
+ * @throws Error if actor is not an actor proxy
+ */
+export function withSignal<T extends object>(actor: T, signal: AbortSignal): T {
+  return askProxy(actor, { signal })
+}
+
+/**
+ * Answers a view of the actor whose messages have the priority, which
+ * orders them in a PriorityMailbox ahead of messages of lower priority.
+ * Other mailboxes ignore the priority.
+ *
+ * ```typescript
+ * await withPriority(orders, 10).cancel(orderId)
+ * ```
+ *
+ * @param actor The actor proxy, or a view derived from it
+ * @param priority The priority of the messages; higher is delivered first
+ * @returns The view of the actor with the priority
+ * @throws Error if actor is not an actor proxy
+ */
+export function withPriority<T extends object>(actor: T, priority: number): T {
+  return askProxy(actor, { priority })
+}
+
+/**
+ * Answers a view of the actor whose messages expire if not received by
+ * the actor within the time to live. An expired message is discarded
+ * when the mailbox reaches it: it is not delivered, it is routed to dead
+ * letters, and it is rejected with a MessageExpiredError.
+ *
+ * ```typescript
+ * // Not worth computing once the user has moved on
+ * const quote = await withTtl(pricing, 2000).quote(basket)
+ * ```
+ *
+ * Unlike withTimeout(), which answers the sender on time, the time to
+ * live keeps a backlogged actor from processing stale messages. A
+ * message already being processed is not affected.
+ *
+ * @param actor The actor proxy, or a view derived from it
+ * @param ttl Time (ms) after sending within which each message must be received
+ * @returns The view of the actor with the time to live
+ * @throws Error if actor is not an actor proxy or ttl is not positive
+ */
+export function withTtl<T extends object>(actor: T, ttl: number): T {
+  if (!(ttl > 0)) {
+    throw new Error(`Message time to live must be positive: ${ttl}`)
+  }
+
+  return askProxy(actor, { ttl })
+}
+
+/**
+ * Creates a view of the actor that sends its messages with the options,
+ * combined with the options of the actor if it is itself such a view.
+ *
+ * @param actor The actor proxy, or a view derived from it
+ * @param options The options of the view
+ * @returns The view of the actor
+ */
+function askProxy<T extends object>(actor: T, options: AskOptions): T {
+  const access = (actor as any as InternalActorAccess)[INTERNAL_ENVIRONMENT_ACCESS]
+  if (typeof access !== 'function') {
+    throw new Error('Ask options require an actor proxy')
+  }
+
+  const environment: Environment = access()
+  const combined: AskOptions = { ...((actor as any)[ASK_OPTIONS] || {}), ...options }
+
+  return new Proxy({} as T, {
+    get(_target, prop: string | symbol) {
+      if (prop === INTERNAL_ENVIRONMENT_ACCESS) {
+        return access
+      }
+
+      if (prop === ASK_OPTIONS) {
+        return combined
+      }
+
+      // Ignore symbols, special properties, and Promise-related methods
+      if (typeof prop === 'symbol' || prop.startsWith('_')) {
+        return undefined
+      }
+
+      if (prop === 'then' || prop === 'catch' || prop === 'finally') {
+        return undefined
+      }
+
+      if (isSynchronousActorMethod(prop)) {
+        return (actor as any)[prop]
+      }
+
+      return function(...args: any[]) {
+        return ask(environment, prop, args, combined)
+      }
+    }
+  })
+}
+
+/**
+ * Sends a message with the options and answers its result.
+ *
+ * @param environment The environment of the actor
+ * @param prop The name of the method to invoke
+ * @param args The arguments of the method
+ * @param options The options of the message
+ * @returns Promise of the message result
+ */
+function ask(environment: Environment, prop: string, args: any[], askOptions: AskOptions): Promise<any> {
+  const deferred = createDeferred<any>()
+  const options = askOptions.ttl === undefined ? askOptions : { ...askOptions, deadline: Date.now() + askOptions.ttl }
+  const signal = options.signal
+
+  if (options.timeout === undefined && !signal) {
+    sendMessage(environment.actor(), environment, environment.mailbox(), prop, args, deferred, options)
+    return deferred.promise
+  }
+
+  if (signal?.aborted) {
+    deferred.reject(new AbortError(prop + "(" + args.toString() + ")", signal.reason))
+    return deferred.promise
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let settled = false
+
+  const settle = () => {
+    settled = true
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', abort)
+  }
+
+  // The mailbox skips the queued message once its signal is aborted
+  const abort = () => {
+    settle()
+    deferred.reject(new AbortError(message.representation(), signal!.reason))
+  }
+
+  // Settling the message in time cancels its timeout and abort listener
+  const guarded: DeferredPromise<any> = {
+    promise: deferred.promise,
+    resolve: (value: any) => {
+      settle()
+      deferred.resolve(value)
+    },
+    reject: (reason?: any) => {
+      settle()
+      deferred.reject(reason)
+    }
+  }
+
+  const message = sendMessage(environment.actor(), environment, environment.mailbox(), prop, args, guarded, options)
+
+  // A stopped actor's mailbox settles the message while it is sent
+  if (settled) {
+    return deferred.promise
+  }
+
+  if (options.timeout !== undefined) {
+    timer = setTimeout(() => {
+      settle()
+      if (options.discardOnTimeout) {
+        message.withdraw()
+      }
+      deferred.reject(new AskTimeoutError(message.representation(), options.timeout!))
+    }, options.timeout)
+  }
+
+  signal?.addEventListener('abort', abort, { once: true })
+
+  return deferred.promise
+}
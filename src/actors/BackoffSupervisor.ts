@@ -0,0 +1,326 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { Address } from './Address.js'
+import { DefaultSupervisor } from './DefaultSupervisor.js'
+import { Cancellable, Scheduled } from './Scheduler.js'
+import { StageInternal } from './StageInternal.js'
+import { SupervisionEvent, SupervisionEventType } from './SupervisionEvents.js'
+import {
+  Supervised,
+  SupervisionDirective,
+  SupervisionScope,
+  SupervisionStrategy
+} from './Supervisor.js'
+
+/**
+ * Supervision strategy with exponential backoff between restarts.
+ *
+ * Each consecutive restart of the same actor waits twice as long as
+ * the previous one, starting at minBackoff() and limited to maxBackoff():
+ *
+ *   delay = min(maxBackoff, minBackoff * 2^attempt) * (1 + random * randomFactor)
+ *
+ * The random jitter spreads restarts of many failing actors over time,
+ * and the result never exceeds maxBackoff(). Once an actor has run
+ * for resetAfter() milliseconds since its last restart without failing,
+ * its next restart starts over at minBackoff().
+ *
+ * Defaults:
+ * - Min backoff: 100ms
+ * - Max backoff: 30 seconds
+ * - Random factor: 0.2 (up to 20% added)
+ * - Reset after: 60 seconds
+ * - Intensity: ForeverIntensity (backoff, not intensity, limits restarts)
+ * - Period: ForeverPeriod
+ * - Scope: One
+ *
+ * Subclass and override intensity()/period()/scope() to combine backoff
+ * with restart limits.
+ */
+export class BackoffSupervisionStrategy extends SupervisionStrategy {
+  /** Default minimum backoff: 100 milliseconds */
+  static DefaultMinBackoff = 100
+  /** Default maximum backoff: 30 seconds */
+  static DefaultMaxBackoff = 30000
+  /** Default random factor: up to 20% jitter */
+  static DefaultRandomFactor = 0.2
+  /** Default stable period before the backoff resets: 60 seconds */
+  static DefaultResetAfter = 60000
+
+  private _minBackoff: number
+  private _maxBackoff: number
+  private _randomFactor: number
+  private _resetAfter: number
+
+  /**
+   * Creates a backoff strategy.
+   *
+   * @param minBackoff Delay (ms) before the first restart
+   * @param maxBackoff Upper limit (ms) of any delay
+   * @param randomFactor Fraction of the delay randomly added as jitter (0 = none)
+   * @param resetAfter Time (ms) without failure after a restart that resets the backoff
+   * @throws Error if any value is negative or minBackoff exceeds maxBackoff
+   */
+  constructor(
+    minBackoff: number = BackoffSupervisionStrategy.DefaultMinBackoff,
+    maxBackoff: number = BackoffSupervisionStrategy.DefaultMaxBackoff,
+    randomFactor: number = BackoffSupervisionStrategy.DefaultRandomFactor,
+    resetAfter: number = BackoffSupervisionStrategy.DefaultResetAfter
+  ) {
+    super()
+
+    if (minBackoff < 0 || maxBackoff < 0 || randomFactor < 0 || resetAfter < 0) {
+      throw new Error('Backoff values must not be negative')
+    }
+    if (minBackoff > maxBackoff) {
+      throw new Error(`minBackoff (${minBackoff}) must not exceed maxBackoff (${maxBackoff})`)
+    }
+
+    this._minBackoff = minBackoff
+    this._maxBackoff = maxBackoff
+    this._randomFactor = randomFactor
+    this._resetAfter = resetAfter
+  }
+
+  /**
+   * Returns unlimited intensity; the backoff itself throttles restarts.
+   * @returns SupervisionStrategy.ForeverIntensity
+   */
+  intensity(): number {
+    return SupervisionStrategy.ForeverIntensity
+  }
+
+  /**
+   * Returns the forever period.
+   * @returns SupervisionStrategy.ForeverPeriod
+   */
+  period(): number {
+    return SupervisionStrategy.ForeverPeriod
+  }
+
+  /**
+   * Returns the scope (One - only the failed actor).
+   * @returns SupervisionScope.One
+   */
+  scope(): SupervisionScope {
+    return SupervisionScope.One
+  }
+
+  /**
+   * Returns the delay (ms) before the first restart.
+   * @returns Minimum backoff
+   */
+  minBackoff(): number {
+    return this._minBackoff
+  }
+
+  /**
+   * Returns the upper limit (ms) of any restart delay.
+   * @returns Maximum backoff
+   */
+  maxBackoff(): number {
+    return this._maxBackoff
+  }
+
+  /**
+   * Returns the fraction of the delay randomly added as jitter.
+   * @returns Random factor
+   */
+  randomFactor(): number {
+    return this._randomFactor
+  }
+
+  /**
+   * Returns the time (ms) without failure after which the backoff resets.
+   * @returns Reset period
+   */
+  resetAfter(): number {
+    return this._resetAfter
+  }
+
+  /**
+   * Returns the delay (ms) before the restart following `attempt`
+   * previous consecutive restarts.
+   *
+   * @param attempt Number of consecutive restarts so far (0 for the first)
+   * @param random Random value in [0, 1) used for jitter (default: Math.random())
+   * @returns Delay in milliseconds
+   */
+  backoffFor(attempt: number, random: number = Math.random()): number {
+    const exponential = this.minBackoff() * Math.pow(2, attempt)
+    const delay = Math.min(this.maxBackoff(), exponential)
+    const jittered = delay * (1 + random * this.randomFactor())
+
+    return Math.min(this.maxBackoff(), jittered)
+  }
+}
+
+/**
+ * Backoff state of one supervised actor.
+ */
+interface BackoffState {
+  attempts: number
+  lastRestartAt: number
+  pending?: Cancellable
+}
+
+/**
+ * Supervisor that restarts failed actors after an exponential backoff.
+ *
+ * On a Restart directive the failed actor's mailbox stays suspended,
+ * and the restart is scheduled on the stage Scheduler after the delay
+ * answered by BackoffSupervisionStrategy.backoffFor(). Messages sent
+ * meanwhile are queued and delivered after the restart. Repeated
+ * failures lengthen the delay up to maxBackoff(); an actor that runs
+ * for resetAfter() without failing starts over at minBackoff().
+ *
+ * All other directives are applied immediately, as by DefaultSupervisor.
+ * By default every failure is answered with Restart; override
+ * decideDirective() to choose otherwise, and supervisionStrategy()
+ * to configure the backoff:
+ *
+ * ```typescript
+ * class ConnectionSupervisor extends BackoffSupervisor {
+ *   supervisionStrategy(): Promise<SupervisionStrategy> {
+ *     return Promise.resolve(new BackoffSupervisionStrategy(500, 10000, 0.2, 30000))
+ *   }
+ * }
+ * ```
+ *
+ * If the strategy is not a BackoffSupervisionStrategy, restarts are
+ * not delayed. The supervisor watches each actor it restarts, and
+ * forgets the actor's backoff once it stops.
+ */
+export class BackoffSupervisor extends DefaultSupervisor {
+  private _backoffs: Map<string, BackoffState> = new Map()
+
+  constructor() {
+    super()
+  }
+
+  /**
+   * Returns the backoff supervision strategy.
+   * Override to provide custom backoff values.
+   *
+   * @returns Promise resolving to BackoffSupervisionStrategy with defaults
+   */
+  supervisionStrategy(): Promise<SupervisionStrategy> {
+    return Promise.resolve(new BackoffSupervisionStrategy())
+  }
+
+  /**
+   * Cancels restarts still waiting for their backoff to elapse.
+   */
+  beforeStop(): void | Promise<void> {
+    for (const state of this._backoffs.values()) {
+      state.pending?.cancel()
+    }
+    this._backoffs.clear()
+
+    return super.beforeStop()
+  }
+
+  /**
+   * Forgets the backoff of a restarted actor once it stops.
+   *
+   * @param address The address of the terminated actor
+   * @param reason The error that caused the termination, if any
+   */
+  onTerminated(address: Address, reason?: Error): void | Promise<void> {
+    const key = address.valueAsString()
+    this._backoffs.get(key)?.pending?.cancel()
+    this._backoffs.delete(key)
+
+    return super.onTerminated(address, reason)
+  }
+
+  /**
+   * Decides the directive for a failure: always Restart.
+   * Override to choose other directives for some failures.
+   *
+   * @param _error The error that occurred
+   * @param _supervised The supervised actor
+   * @param _strategy The supervision strategy
+   * @returns SupervisionDirective.Restart
+   */
+  protected decideDirective(
+    _error: Error,
+    _supervised: Supervised,
+    _strategy: SupervisionStrategy
+  ): SupervisionDirective {
+    return SupervisionDirective.Restart
+  }
+
+  /**
+   * Applies the directive, delaying Restart by the backoff of the strategy.
+   *
+   * @param directive The directive to apply
+   * @param supervised The supervised actor
+   * @param strategy The supervision strategy
+   */
+  protected applyDirective(
+    directive: SupervisionDirective,
+    supervised: Supervised,
+    strategy: SupervisionStrategy
+  ): void {
+    const key = supervised.address().valueAsString()
+
+    if (directive !== SupervisionDirective.Restart || !(strategy instanceof BackoffSupervisionStrategy)) {
+      if (directive === SupervisionDirective.Stop) {
+        this._backoffs.delete(key)
+      }
+      super.applyDirective(directive, supervised, strategy)
+      return
+    }
+
+    this.stage().supervisionEvents().publish(
+      SupervisionEvent.of(SupervisionEventType.Directed, supervised, directive)
+    )
+
+    if (!this._backoffs.has(key)) {
+      const proxy = (this.stage() as StageInternal).directory().get(supervised.address())
+      if (proxy) {
+        this.watch(proxy)
+      }
+    }
+
+    const now = Date.now()
+    const state = this._backoffs.get(key) || { attempts: 0, lastRestartAt: now }
+
+    // A stable run since the last restart resets the backoff
+    if (state.attempts > 0 && now - state.lastRestartAt >= strategy.resetAfter()) {
+      state.attempts = 0
+    }
+
+    const delay = strategy.backoffFor(state.attempts)
+
+    state.attempts++
+    state.lastRestartAt = now + delay
+    this._backoffs.set(key, state)
+
+    this.logger().log(
+      `Backoff restart of ${key} in ${Math.round(delay)}ms (attempt ${state.attempts})`
+    )
+
+    // The mailbox remains suspended until restartWithin() resumes it
+    const restart: Scheduled<Supervised> = {
+      intervalSignal: (_scheduled, target) => {
+        state.pending = undefined
+        if (target.actor().isStopped()) {
+          this._backoffs.delete(key)
+          return
+        }
+        target.restartWithin(strategy.period(), strategy.intensity(), strategy.scope())
+      }
+    }
+
+    state.pending?.cancel()
+    state.pending = this.scheduler().scheduleOnce(restart, supervised, delay, 0)
+  }
+}
@@ -0,0 +1,47 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { Environment } from './Environment.js'
+import { INTERNAL_ENVIRONMENT_ACCESS, InternalActorAccess } from './InternalAccess.js'
+
+/**
+ * Answers a promise that resolves once the actor's mailbox accepts a
+ * message without overflow, so that a producer can pace its sending to
+ * the actor's processing rather than have messages dropped or held.
+ *
+ * Mailboxes without a capacity are always writable.
+ *
+ * ```typescript
+ * for (const record of records) {
+ *   if (!await whenWritable(consumer, 5000)) {
+ *     throw new Error('consumer stalled')
+ *   }
+ *   tell(consumer).consume(record)
+ * }
+ * ```
+ *
+ * @param actor The actor proxy
+ * @param maxWait Maximum time (ms) to wait (default: no limit)
+ * @returns Promise resolving to true when writable, or to false if
+ * maxWait elapses first or the actor's mailbox is closed
+ * @throws Error if actor is not an actor proxy
+ */
+export function whenWritable<T extends object>(actor: T, maxWait?: number): Promise<boolean> {
+  const access = (actor as any as InternalActorAccess)[INTERNAL_ENVIRONMENT_ACCESS]
+  if (typeof access !== 'function') {
+    throw new Error('whenWritable() requires an actor proxy')
+  }
+
+  const mailbox = (access() as Environment).mailbox()
+
+  if (mailbox.whenWritable) {
+    return mailbox.whenWritable(maxWait)
+  }
+
+  return Promise.resolve(!mailbox.isClosed())
+}
@@ -0,0 +1,424 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { DeadLetter } from "./DeadLetters.js"
+import { applyTimeToLive, discardIfExpired, LocalMessage } from "./LocalMessage.js"
+import { Mailbox } from "./Mailbox.js"
+import { MailboxMetrics } from "./MailboxMetrics.js"
+import { Message, EmptyMessage } from "./Message.js"
+import { answerStopped } from "./Undelivered.js"
+import { throughputOf, yieldToEventLoop } from "./Throughput.js"
+
+/**
+ * Unbounded FIFO mailbox that coalesces calls of batchable methods.
+ *
+ * Provides:
+ * - Unlimited message queue capacity
+ * - First-in-first-out message delivery
+ * - Consecutive queued calls of a batchable method delivered to its batch
+ *   handler in a single invocation, up to a maximum batch size
+ * - An optional window in which to wait for more calls to join a batch
+ * - Suspension/resumption support
+ *
+ * The batch handler receives an array of the calls' argument tuples.
+ * Each caller's promise settles from the handler's result: with the
+ * element at the caller's index if the result is an array, otherwise
+ * with the result itself. If the handler fails, every caller's promise
+ * is rejected and the actor is supervised once for the batch.
+ *
+ * Only consecutive calls are coalesced, so a batch is never delivered
+ * ahead of a message sent between its calls. Calls sent with options,
+ * such as withSignal(), withPriority() or withTtl(), are delivered
+ * alone, as are calls of other methods.
+ *
+ * If the mailbox is closed while a batch is filling, its calls are
+ * routed to dead letters and rejected with an ActorStoppedError.
+ *
+ * ```typescript
+ * // appendTransaction(tx) calls are delivered as appendTransactions([[tx1], [tx2], ...])
+ * const mailbox = new BatchingMailbox({ appendTransaction: 'appendTransactions' }, 50, 10)
+ * ```
+ */
+export class BatchingMailbox implements Mailbox {
+  /** Maximum number of calls per batch when none is given */
+  static readonly DefaultMaxBatchSize = 100
+
+  private closed: boolean
+  private dispatching: boolean
+  private suspended: boolean
+  private queue: Message[]
+  private readonly handlers: Map<string, string>
+  private readonly maxBatchSize: number
+  private readonly maxDelay: number
+  private readonly ttl?: number
+  private readonly throughput?: number
+  private readonly _metrics = new MailboxMetrics()
+  private batchFilling?: () => void
+
+  /**
+   * Creates a new batching mailbox.
+   * Initializes with empty queue in open, non-suspended state.
+   *
+   * @param batchable Batch handler method names by batchable method name
+   * @param maxBatchSize Maximum number of calls per batch (default: 100)
+   * @param maxDelay Time (ms) to wait for more calls to fill a batch (default: 0, no waiting)
+   * @param ttl Default time (ms) within which messages must be received (default: none)
+   * @param throughput Messages delivered in a row before yielding to the event loop (default: the stage's)
+   * @throws Error if maxBatchSize, ttl or throughput is not positive, or maxDelay is negative
+   */
+  constructor(
+    batchable: Record<string, string>,
+    maxBatchSize: number = BatchingMailbox.DefaultMaxBatchSize,
+    maxDelay: number = 0,
+    ttl?: number,
+    throughput?: number
+  ) {
+    if (!(maxBatchSize >= 1)) {
+      throw new Error('Mailbox max batch size must be positive')
+    }
+    if (!(maxDelay >= 0)) {
+      throw new Error('Mailbox max delay must not be negative')
+    }
+    if (ttl !== undefined && ttl <= 0) {
+      throw new Error('Mailbox time to live must be positive')
+    }
+    if (throughput !== undefined && !(throughput > 0)) {
+      throw new Error('Mailbox throughput must be positive')
+    }
+    this.closed = false
+    this.dispatching = false
+    this.suspended = false
+    this.queue = []
+    this.handlers = new Map(Object.entries(batchable))
+    this.maxBatchSize = maxBatchSize
+    this.maxDelay = maxDelay
+    this.ttl = ttl
+    this.throughput = throughput
+  }
+
+  /**
+   * Closes the mailbox, preventing further message delivery.
+   * Messages sent after close are routed to dead letters.
+   * A batch waiting to fill is delivered without further waiting.
+   */
+  close(): void {
+    this.closed = true
+    this.batchFilling?.()
+  }
+
+  /**
+   * Returns whether the mailbox is closed.
+   * @returns true if closed, false otherwise
+   */
+  isClosed(): boolean {
+    return this.closed
+  }
+
+  /**
+   * Suspends message processing.
+   * Messages can still be queued but won't be delivered until resumed.
+   */
+  suspend(): void {
+    this.suspended = true
+  }
+
+  /**
+   * Resumes message processing after suspension.
+   * Triggers dispatch if messages are queued.
+   */
+  resume(): void {
+    this.suspended = false
+    // Trigger dispatch if there are queued messages
+    if (this.isReceivable()) {
+      this.dispatch()
+    }
+  }
+
+  /**
+   * Returns whether the mailbox is currently suspended.
+   * @returns true if suspended, false otherwise
+   */
+  isSuspended(): boolean {
+    return this.suspended
+  }
+
+  /**
+   * Self-draining async message delivery.
+   * Processes messages one at a time from the queue, except that a call
+   * of a batchable method is delivered together with the calls of the
+   * same method queued right behind it, after waiting up to the max
+   * delay for the batch to fill. Only one dispatch loop runs at a time.
+   * After delivering its throughput of messages in a row, the loop
+   * yields to the event loop before continuing.
+   */
+  async dispatch(): Promise<void> {
+    if (this.dispatching) return
+    this.dispatching = true
+    try {
+      let delivered = 0
+      while (this.isReceivable()) {
+        const message = this.receive()
+        if (!message.isDeliverable()) {
+          break
+        }
+        const handler = this.batchHandlerOf(message)
+        if (handler === undefined) {
+          await message.deliver()
+          ++delivered
+        } else {
+          delivered += await this.deliverBatchOf(message as LocalMessage, handler)
+        }
+        // Let timers, I/O, and other actors have their turn
+        if (delivered >= throughputOf(message, this.throughput)) {
+          delivered = 0
+          await yieldToEventLoop()
+        }
+      }
+    } finally {
+      this.dispatching = false
+    }
+  }
+
+  /**
+   * Checks if the mailbox can deliver messages.
+   * Returns true only if all conditions are met:
+   * - Mailbox is not closed
+   * - Mailbox is not suspended
+   * - Queue has at least one message
+   *
+   * @returns true if messages can be delivered, false otherwise
+   */
+  isReceivable(): boolean {
+    return !this.isClosed() && !this.isSuspended() && this.queue.length > 0
+  }
+
+  /**
+   * Dequeues and returns the next message from the mailbox.
+   * Withdrawn messages are skipped, and expired messages discarded.
+   * Returns EmptyMessage if the queue is empty.
+   *
+   * @returns The next message or EmptyMessage if queue is empty
+   */
+  receive(): Message {
+    let maybeMessage = this.queue.shift()
+
+    // Skip messages withdrawn by their senders while queued, and discard expired ones
+    while (maybeMessage && (!maybeMessage.isDeliverable() || discardIfExpired(maybeMessage))) {
+      maybeMessage = this.queue.shift()
+    }
+
+    this._metrics.recordDepth(this.queue.length)
+
+    return maybeMessage ?  maybeMessage : EmptyMessage
+  }
+
+  /**
+   * Enqueues a message for delivery to the actor.
+   *
+   * Behavior:
+   * - If closed: Routes message to dead letters and rejects with ActorStoppedError
+   * - If suspended: Queues message but does not trigger dispatch
+   * - Otherwise: Queues message and triggers dispatch
+   *
+   * @param message The message to send
+   */
+  send(message: Message): void {
+    if (!this.isClosed()) {
+      applyTimeToLive(message, this.ttl)
+      this.queue.push(message)
+      this._metrics.recordQueued(message, this.queue.length)
+      this.batchFilling?.()
+      // Only dispatch if not suspended
+      if (!this.isSuspended()) {
+        this.dispatch()
+      }
+    } else {
+      const deadLetter = new DeadLetter(message.to(), message.representation())
+      message.to().stage().deadLetters().failedDelivery(deadLetter)
+      answerStopped(message)
+    }
+  }
+
+  /**
+   * Enqueues messages ahead of all queued messages, in the given order.
+   *
+   * Behavior:
+   * - If closed: Routes each message to dead letters and rejects with ActorStoppedError
+   * - If suspended: Queues messages but does not trigger dispatch
+   * - Otherwise: Queues messages and triggers dispatch
+   *
+   * @param messages The messages to enqueue first
+   */
+  prepend(messages: Message[]): void {
+    if (!this.isClosed()) {
+      this.queue.unshift(...messages)
+      this._metrics.recordDepth(this.queue.length)
+      // Only dispatch if not suspended
+      if (!this.isSuspended()) {
+        this.dispatch()
+      }
+    } else {
+      for (const message of messages) {
+        const deadLetter = new DeadLetter(message.to(), message.representation())
+        message.to().stage().deadLetters().failedDelivery(deadLetter)
+        answerStopped(message)
+      }
+    }
+  }
+
+  /**
+   * Returns the metrics of this mailbox, disabled until enabled.
+   * @returns Mailbox metrics
+   */
+  metrics(): MailboxMetrics {
+    return this._metrics
+  }
+
+  /**
+   * Answers the name of the method handling batches of the message's
+   * method, if it is batchable. Override to decide batching otherwise.
+   * @param message The message received
+   * @returns The batch handler name, or undefined to deliver the message alone
+   */
+  protected batchHandlerOf(message: Message): string | undefined {
+    return this.isBatchable(message) ? this.handlers.get(message.selector()) : undefined
+  }
+
+  /**
+   * Delivers the first call together with the calls of the same method
+   * queued right behind it, once the batch is full, the run of calls
+   * has ended, or the max delay has elapsed. If the mailbox was
+   * suspended meanwhile, the first call is queued again; if it was
+   * closed, the calls are answered as stopped.
+   * @param first The first call of the batch, already received
+   * @param handler The name of the batch handler
+   * @returns The number of calls delivered
+   */
+  private async deliverBatchOf(first: LocalMessage, handler: string): Promise<number> {
+    if (this.maxDelay > 0 && !this.isBatchFilled(first)) {
+      await this.batchFilledOf(first)
+
+      if (this.isSuspended() && !this.isClosed()) {
+        this.queue.unshift(first)
+        this._metrics.recordDepth(this.queue.length)
+        return 0
+      }
+    }
+
+    // The first call may have been withdrawn or expired while the batch was filling
+    const batch = [first, ...this.receiveRunOf(first.selector())]
+      .filter(message => message.isDeliverable() && !discardIfExpired(message))
+    this._metrics.recordDepth(this.queue.length)
+
+    if (this.isClosed()) {
+      for (const message of batch) {
+        const deadLetter = new DeadLetter(message.to(), message.representation())
+        message.to().stage().deadLetters().failedDelivery(deadLetter)
+        answerStopped(message)
+      }
+      return batch.length
+    }
+
+    if (batch.length === 0) {
+      return 0
+    }
+
+    batch.forEach(message => this._metrics.recordStarted(message))
+
+    await LocalMessage.batchOf(batch, handler).deliver()
+
+    return batch.length
+  }
+
+  /**
+   * Answers a promise that resolves once the batch of the first call is
+   * filled, or after the max delay.
+   * @param first The first call of the batch
+   * @returns Promise resolving when the batch may be delivered
+   */
+  private batchFilledOf(first: LocalMessage): Promise<void> {
+    return new Promise(resolve => {
+      const filled = () => {
+        clearTimeout(timer)
+        this.batchFilling = undefined
+        resolve()
+      }
+      const timer = setTimeout(filled, this.maxDelay)
+
+      this.batchFilling = () => {
+        if (this.isBatchFilled(first)) {
+          filled()
+        }
+      }
+    })
+  }
+
+  /**
+   * Returns whether no more calls may join the batch of the first call:
+   * it has the max batch size, a different message is queued behind its
+   * calls, or the mailbox is closed.
+   * @param first The first call of the batch
+   * @returns true if filled, otherwise false
+   */
+  private isBatchFilled(first: LocalMessage): boolean {
+    if (this.isClosed()) {
+      return true
+    }
+
+    let size = 1
+    for (const message of this.queue) {
+      if (!message.isDeliverable() || (message instanceof LocalMessage && message.isExpired())) {
+        continue
+      }
+      if (!this.isBatchable(message) || message.selector() !== first.selector()) {
+        return true
+      }
+      if (++size >= this.maxBatchSize) {
+        return true
+      }
+    }
+
+    return size >= this.maxBatchSize
+  }
+
+  /**
+   * Dequeues the calls of the method at the head of the queue, up to
+   * one less than the max batch size. Withdrawn messages are skipped,
+   * and expired messages discarded.
+   * @param selector The batchable method name
+   * @returns The calls dequeued, in order
+   */
+  private receiveRunOf(selector: string): LocalMessage[] {
+    const run: LocalMessage[] = []
+
+    while (run.length < this.maxBatchSize - 1 && this.queue.length > 0) {
+      const next = this.queue[0]!
+      if (!next.isDeliverable() || discardIfExpired(next)) {
+        this.queue.shift()
+        continue
+      }
+      if (!this.isBatchable(next) || next.selector() !== selector) {
+        break
+      }
+      run.push(next)
+      this.queue.shift()
+    }
+
+    return run
+  }
+
+  /**
+   * Returns whether the message may be delivered in a batch: it is a
+   * call sent without options, which the batch would not carry.
+   * @param message The message
+   * @returns true if batchable, otherwise false
+   */
+  private isBatchable(message: Message): message is LocalMessage {
+    return message instanceof LocalMessage && !message.hasOptions()
+  }
+}
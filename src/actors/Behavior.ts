@@ -0,0 +1,47 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { ActorProtocol } from './ActorProtocol.js'
+
+/**
+ * Behavior of an actor: an object implementing some or all of the
+ * message methods of protocol T, which handles the actor's messages
+ * while active. See Actor.become().
+ *
+ * The ActorProtocol methods are not included; they are always
+ * handled by the actor itself.
+ */
+export type Behavior<T = any> = {
+  [K in keyof T as K extends keyof ActorProtocol ? never : K]?: T[K]
+}
+
+/**
+ * Error rejecting a message that the active behavior of its actor
+ * does not implement. The message is also routed to dead letters.
+ */
+export class UnhandledMessageError extends Error {
+  private _representation: string
+
+  /**
+   * Creates an unhandled message error.
+   * @param representation The representation of the message (e.g., 'fetch(1)')
+   */
+  constructor(representation: string) {
+    super(`Message not handled by current behavior: ${representation}`)
+    this.name = 'UnhandledMessageError'
+    this._representation = representation
+  }
+
+  /**
+   * Returns the representation of the message that was not handled.
+   * @returns Message representation
+   */
+  representation(): string {
+    return this._representation
+  }
+}
@@ -7,9 +7,21 @@
 // See: https://opensource.org/license/rpl-1-5
 
 import { DeadLetter } from "./DeadLetters.js"
+import { applyTimeToLive, discardIfExpired } from "./LocalMessage.js"
 import { Mailbox } from "./Mailbox.js"
+import { MailboxMetrics } from "./MailboxMetrics.js"
 import { Message, EmptyMessage } from "./Message.js"
 import { OverflowPolicy } from "./OverflowPolicy.js"
+import { answerOverflowed, answerStopped } from "./Undelivered.js"
+import { throughputOf, yieldToEventLoop } from "./Throughput.js"
+
+/**
+ * A message held by backpressure, with its max wait timer, if any.
+ */
+interface BlockedSend {
+  message: Message
+  timer?: ReturnType<typeof setTimeout>
+}
 
 /**
  * A bounded mailbox with configurable capacity and overflow handling.
@@ -19,6 +31,9 @@ import { OverflowPolicy } from "./OverflowPolicy.js"
  * - DropOldest: Remove the oldest message to make room for the new one
  * - DropNewest: Reject the incoming message
  * - Reject: Send the incoming message to dead letters
+ * - Backpressure: Hold the incoming message until the queue has room
+ *
+ * Producers can pace themselves by awaiting whenWritable() before sending.
  */
 export class BoundedMailbox implements Mailbox {
   private closed: boolean
@@ -26,6 +41,12 @@ export class BoundedMailbox implements Mailbox {
   private queue: Message[]
   private readonly capacity: number
   private readonly overflowPolicy: OverflowPolicy
+  private readonly ttl?: number
+  private readonly maxWait?: number
+  private readonly throughput?: number
+  private readonly _metrics = new MailboxMetrics()
+  private blocked: BlockedSend[]
+  private writers: Array<(writable: boolean) => void>
   private _droppedMessageCount: number = 0
 
   /**
@@ -33,7 +54,11 @@ export class BoundedMailbox implements Mailbox {
    *
    * @param capacity Maximum number of messages that can be queued
    * @param overflowPolicy How to handle messages when at capacity
-   * @throws Error if capacity is not positive
+   * @param ttl Default time (ms) within which messages must be received (default: none)
+   * @param maxWait With Backpressure, the time (ms) a message may wait for room
+   * before it is rejected as with Reject (default: no limit)
+   * @param throughput Messages delivered in a row before yielding to the event loop (default: the stage's)
+   * @throws Error if capacity, ttl, maxWait or throughput is not positive
    * @example
    * ```typescript
    * // Drop oldest messages when full
@@ -41,25 +66,57 @@ export class BoundedMailbox implements Mailbox {
    *
    * // Reject new messages when full (send to dead letters)
    * const mailbox = new BoundedMailbox(50, OverflowPolicy.Reject)
+   *
+   * // Discard messages not received within 5 seconds
+   * const mailbox = new BoundedMailbox(1000, OverflowPolicy.DropOldest, 5000)
+   *
+   * // Hold messages for up to 1 second while full
+   * const mailbox = new BoundedMailbox(100, OverflowPolicy.Backpressure, undefined, 1000)
    * ```
    */
-  constructor(capacity: number, overflowPolicy: OverflowPolicy) {
+  constructor(capacity: number, overflowPolicy: OverflowPolicy, ttl?: number, maxWait?: number, throughput?: number) {
     if (capacity <= 0) {
       throw new Error('Mailbox capacity must be positive')
     }
+    if (ttl !== undefined && ttl <= 0) {
+      throw new Error('Mailbox time to live must be positive')
+    }
+    if (maxWait !== undefined && maxWait <= 0) {
+      throw new Error('Mailbox max wait must be positive')
+    }
+    if (throughput !== undefined && !(throughput > 0)) {
+      throw new Error('Mailbox throughput must be positive')
+    }
     this.capacity = capacity
     this.overflowPolicy = overflowPolicy
+    this.ttl = ttl
+    this.maxWait = maxWait
+    this.throughput = throughput
     this.closed = false
     this.suspended = false
     this.queue = []
+    this.blocked = []
+    this.writers = []
   }
 
   /**
    * Closes the mailbox, preventing further message delivery.
-   * Any messages sent after close will be routed to dead letters.
+   * Any messages sent after close will be routed to dead letters,
+   * as are messages still held by backpressure.
    */
   close(): void {
     this.closed = true
+
+    for (const { message, timer } of this.blocked.splice(0)) {
+      clearTimeout(timer)
+      const deadLetter = new DeadLetter(message.to(), message.representation())
+      message.to().stage().deadLetters().failedDelivery(deadLetter)
+      answerStopped(message)
+    }
+
+    for (const writer of this.writers.splice(0)) {
+      writer(false)
+    }
   }
 
   /**
@@ -106,15 +163,22 @@ export class BoundedMailbox implements Mailbox {
    * Each send() call triggers its own dispatch; concurrent dispatch
    * calls each dequeue and process separate messages. JavaScript's
    * single-threaded execution ensures shift() is atomic — no two
-   * dispatch loops will process the same message.
+   * dispatch loops will process the same message. After delivering its
+   * throughput of messages in a row, a loop yields to the event loop.
    */
   async dispatch(): Promise<void> {
+    let delivered = 0
     while (this.isReceivable()) {
       const message = this.receive()
       if (!message.isDeliverable()) {
         break
       }
       await message.deliver()
+      // Let timers, I/O, and other actors have their turn
+      if (++delivered >= throughputOf(message, this.throughput)) {
+        delivered = 0
+        await yieldToEventLoop()
+      }
     }
   }
 
@@ -133,12 +197,23 @@ export class BoundedMailbox implements Mailbox {
 
   /**
    * Dequeues and returns the next message from the mailbox.
+   * Withdrawn messages are skipped, and expired messages discarded.
    * Returns EmptyMessage if the queue is empty.
    *
    * @returns The next message or EmptyMessage if queue is empty
    */
   receive(): Message {
-    const maybeMessage = this.queue.shift()
+    let maybeMessage = this.queue.shift()
+
+    // Skip messages withdrawn by their senders while queued, and discard expired ones
+    while (maybeMessage && (!maybeMessage.isDeliverable() || discardIfExpired(maybeMessage))) {
+      maybeMessage = this.queue.shift()
+    }
+
+    // Make room for messages held by backpressure
+    this.admitBlocked()
+
+    this._metrics.recordDepth(this.queue.length)
 
     return maybeMessage ? maybeMessage : EmptyMessage
   }
@@ -147,8 +222,9 @@ export class BoundedMailbox implements Mailbox {
    * Sends a message to the mailbox, applying overflow policy if at capacity.
    *
    * Behavior:
-   * - If closed: Routes message to dead letters and resolves with 'actor stopped'
-   * - If at capacity: Applies configured overflow policy (DropOldest/DropNewest/Reject)
+   * - If closed: Routes message to dead letters and rejects with ActorStoppedError
+   * - If at capacity: Applies configured overflow policy (DropOldest/DropNewest/Reject/Backpressure)
+   * - If messages are held by backpressure: Holds message behind them
    * - If suspended: Queues message but does not trigger dispatch
    * - Otherwise: Queues message and triggers dispatch
    *
@@ -158,15 +234,18 @@ export class BoundedMailbox implements Mailbox {
     if (this.isClosed()) {
       const deadLetter = new DeadLetter(message.to(), message.representation())
       message.to().stage().deadLetters().failedDelivery(deadLetter)
-      message.deferred().resolve('actor stopped')
+      answerStopped(message)
       return
     }
 
-    // Check if at capacity
-    if (this.queue.length >= this.capacity) {
+    applyTimeToLive(message, this.ttl)
+
+    // Check if at capacity, or behind messages held for room
+    if (this.queue.length >= this.capacity || this.blocked.length > 0) {
       this.handleOverflow(message)
     } else {
       this.queue.push(message)
+      this._metrics.recordQueued(message, this.queue.length)
       // Only dispatch if not suspended
       if (!this.isSuspended()) {
         this.dispatch()
@@ -174,6 +253,43 @@ export class BoundedMailbox implements Mailbox {
     }
   }
 
+  /**
+   * Enqueues messages ahead of all queued messages, in the given order.
+   *
+   * Behavior:
+   * - If closed: Routes each message to dead letters and rejects with ActorStoppedError
+   * - If suspended: Queues messages but does not trigger dispatch
+   * - Otherwise: Queues messages and triggers dispatch
+   *
+   * The messages were already accepted once, so capacity is not applied.
+   *
+   * @param messages The messages to enqueue first
+   */
+  prepend(messages: Message[]): void {
+    if (!this.isClosed()) {
+      this.queue.unshift(...messages)
+      this._metrics.recordDepth(this.queue.length)
+      // Only dispatch if not suspended
+      if (!this.isSuspended()) {
+        this.dispatch()
+      }
+    } else {
+      for (const message of messages) {
+        const deadLetter = new DeadLetter(message.to(), message.representation())
+        message.to().stage().deadLetters().failedDelivery(deadLetter)
+        answerStopped(message)
+      }
+    }
+  }
+
+  /**
+   * Returns the metrics of this mailbox, disabled until enabled.
+   * @returns Mailbox metrics
+   */
+  metrics(): MailboxMetrics {
+    return this._metrics
+  }
+
   /**
    * Handles overflow according to the configured policy.
    *
@@ -181,8 +297,11 @@ export class BoundedMailbox implements Mailbox {
    * - DropOldest: Removes oldest message, adds new one, increments dropped count
    * - DropNewest: Rejects incoming message, increments dropped count
    * - Reject: Sends incoming message to dead letters, increments dropped count
+   * - Backpressure: Holds incoming message until there is room; after maxWait,
+   *   sends it to dead letters as with Reject
    *
-   * All policies resolve the dropped message's promise so senders aren't left hanging.
+   * All policies reject the dropped message's promise with a MailboxOverflowError
+   * so senders aren't left hanging.
    *
    * @param newMessage The message that triggered overflow
    */
@@ -193,7 +312,9 @@ export class BoundedMailbox implements Mailbox {
         const droppedOldest = this.queue.shift()!
         this.notifyDropped(droppedOldest)
         this.queue.push(newMessage)
+        this._metrics.recordQueued(newMessage, this.queue.length)
         this._droppedMessageCount++
+        this._metrics.recordDropped()
         // Dispatch the new message if not suspended
         if (!this.isSuspended()) {
           this.dispatch()
@@ -204,6 +325,7 @@ export class BoundedMailbox implements Mailbox {
         // Drop the incoming message
         this.notifyDropped(newMessage)
         this._droppedMessageCount++
+        this._metrics.recordDropped()
         break
 
       case OverflowPolicy.Reject:
@@ -213,17 +335,67 @@ export class BoundedMailbox implements Mailbox {
           newMessage.representation()
         )
         newMessage.to().stage().deadLetters().failedDelivery(deadLetter)
-        newMessage.deferred().resolve('mailbox full')
+        answerOverflowed(newMessage, this.overflowPolicy, 'mailbox full')
         this._droppedMessageCount++
+        this._metrics.recordDropped()
+        break
+
+      case OverflowPolicy.Backpressure:
+        // Hold until there is room
+        this.block(newMessage)
         break
     }
   }
 
   /**
-   * Resolves the promise for a dropped message so sender isn't left hanging.
+   * Holds the message until there is room for it, or until maxWait
+   * elapses, when it is rejected.
+   *
+   * @param message The message to hold
+   */
+  private block(message: Message): void {
+    const blocked: BlockedSend = { message }
+
+    if (this.maxWait !== undefined) {
+      blocked.timer = setTimeout(() => {
+        this.blocked.splice(this.blocked.indexOf(blocked), 1)
+        const deadLetter = new DeadLetter(message.to(), message.representation())
+        message.to().stage().deadLetters().failedDelivery(deadLetter)
+        answerOverflowed(message, this.overflowPolicy, 'mailbox full')
+        this._droppedMessageCount++
+        this._metrics.recordDropped()
+        this.admitBlocked()
+      }, this.maxWait)
+    }
+
+    this.blocked.push(blocked)
+  }
+
+  /**
+   * Moves held messages into the queue while there is room, in the
+   * order they were sent, then notifies producers awaiting whenWritable()
+   * once the mailbox accepts messages again.
+   */
+  private admitBlocked(): void {
+    while (this.blocked.length > 0 && this.queue.length < this.capacity) {
+      const { message, timer } = this.blocked.shift()!
+      clearTimeout(timer)
+      this.queue.push(message)
+      this._metrics.recordQueued(message, this.queue.length)
+    }
+
+    if (this.writers.length > 0 && this.isWritable()) {
+      for (const writer of this.writers.splice(0)) {
+        writer(true)
+      }
+    }
+  }
+
+  /**
+   * Answers the sender of a dropped message so it isn't left hanging.
    */
   private notifyDropped(message: Message): void {
-    message.deferred().resolve('message dropped due to overflow')
+    answerOverflowed(message, this.overflowPolicy, 'message dropped due to overflow')
   }
 
   /**
@@ -253,4 +425,54 @@ export class BoundedMailbox implements Mailbox {
   isFull(): boolean {
     return this.queue.length >= this.capacity
   }
+
+  /**
+   * Returns the number of messages held by backpressure, waiting for room.
+   */
+  blockedCount(): number {
+    return this.blocked.length
+  }
+
+  /**
+   * Returns whether a message sent now would be queued without overflow:
+   * the mailbox is open, has room, and holds no messages waiting for room.
+   */
+  isWritable(): boolean {
+    return !this.isClosed() && this.queue.length < this.capacity && this.blocked.length === 0
+  }
+
+  /**
+   * Answers a promise that resolves once the mailbox is writable, for
+   * producers pacing themselves to the actor's processing.
+   *
+   * @param maxWait Maximum time (ms) to wait (default: no limit)
+   * @returns Promise resolving to true when writable, or to false if
+   * maxWait elapses first or the mailbox is closed
+   */
+  whenWritable(maxWait?: number): Promise<boolean> {
+    if (this.isWritable()) {
+      return Promise.resolve(true)
+    }
+    if (this.isClosed()) {
+      return Promise.resolve(false)
+    }
+
+    return new Promise(resolve => {
+      let timer: ReturnType<typeof setTimeout> | undefined
+
+      const writer = (writable: boolean) => {
+        clearTimeout(timer)
+        resolve(writable)
+      }
+
+      if (maxWait !== undefined) {
+        timer = setTimeout(() => {
+          this.writers.splice(this.writers.indexOf(writer), 1)
+          resolve(false)
+        }, maxWait)
+      }
+
+      this.writers.push(writer)
+    })
+  }
 }
@@ -14,11 +14,13 @@ import { ActorProtocol } from "./ActorProtocol.js"
  * Created when:
  * - Actor is stopped/closed
  * - Mailbox is full (BoundedMailbox with Reject policy)
+ * - Message expired before it was received
  * - Actor address is invalid
  *
  * Contains:
  * - Target actor protocol
  * - String representation of the message (method name)
+ * - Optional reason the message was not delivered (e.g., "expired")
  *
  * Dead letters are logged and distributed to registered listeners
  * for monitoring, debugging, or recovery.
@@ -26,15 +28,18 @@ import { ActorProtocol } from "./ActorProtocol.js"
 export class DeadLetter {
   private _actorProtocol: ActorProtocol
   private _message: string
+  private _reason?: string
 
   /**
    * Creates a dead letter.
    * @param actorProtocol The target actor that couldn't receive the message
    * @param message String representation of the message (typically method name)
+   * @param reason Optional reason the message was not delivered
    */
-  constructor(actorProtocol: ActorProtocol, message: string) {
+  constructor(actorProtocol: ActorProtocol, message: string, reason?: string) {
     this._actorProtocol = actorProtocol
     this._message = message
+    this._reason = reason
   }
 
   /**
@@ -53,14 +58,23 @@ export class DeadLetter {
     return this._message
   }
 
+  /**
+   * Returns the reason the message was not delivered, if given.
+   * @returns Reason (e.g., "expired"), or undefined
+   */
+  reason(): string | undefined {
+    return this._reason
+  }
+
   /**
    * Returns a formatted string representation of this dead letter.
-   * @returns Formatted string with actor type, address, and message
+   * @returns Formatted string with actor type, address, message, and any reason
    */
   toString(): string {
     return "DeadLetter[to: " + this.actorProtocol().type() +
            " at: " + this.actorProtocol().address() +
            " subject: " + this.message() +
+           (this._reason ? " reason: " + this._reason : "") +
            "]"
   }
 }
@@ -7,6 +7,7 @@
 // See: https://opensource.org/license/rpl-1-5
 
 import { Actor } from './Actor.js'
+import { SupervisionEvent, SupervisionEventType } from './SupervisionEvents.js'
 import {
   Supervisor,
   Supervised,
@@ -58,7 +59,7 @@ export abstract class DefaultSupervisor extends Actor implements Supervisor {
    * Process:
    * 1. Get supervision strategy
    * 2. Decide which directive to apply (restart/resume/stop/escalate)
-   * 3. Execute the directive on the supervised actor
+   * 3. Execute the directive on the supervised actor via applyDirective()
    *
    * Override this method to add custom error handling, logging, or
    * context-aware behavior before applying directives.
@@ -74,6 +75,48 @@ export abstract class DefaultSupervisor extends Actor implements Supervisor {
     // Apply the appropriate supervision directive based on strategy
     const directive = this.decideDirective(error, supervised, strategy)
 
+    this.applyDirective(directive, supervised, strategy)
+  }
+
+  /**
+   * Returns the supervision strategy to use.
+   * Override to provide custom strategy.
+   *
+   * @returns Promise resolving to DefaultSupervisionStrategy
+   */
+  supervisionStrategy(): Promise<SupervisionStrategy> {
+    return Promise.resolve(new DefaultSupervisionStrategy())
+  }
+
+  /**
+   * Returns the supervisor of this supervisor, to which it escalates.
+   *
+   * @returns The Supervisor named when this supervisor was created
+   */
+  supervisor(): Supervisor {
+    return this.lifeCycle().environment().supervisor()
+  }
+
+  /**
+   * Executes a supervision directive on the supervised actor.
+   * Override to change how a directive is carried out, such as
+   * delaying restarts, while keeping the decision in decideDirective().
+   *
+   * Publishes a Directed supervision event before carrying out the directive.
+   *
+   * @param directive The directive to apply
+   * @param supervised The supervised actor
+   * @param strategy The supervision strategy
+   */
+  protected applyDirective(
+    directive: SupervisionDirective,
+    supervised: Supervised,
+    strategy: SupervisionStrategy
+  ): void {
+    this.stage().supervisionEvents().publish(
+      SupervisionEvent.of(SupervisionEventType.Directed, supervised, directive)
+    )
+
     switch (directive) {
       case SupervisionDirective.Restart:
         supervised.restartWithin(
@@ -97,26 +140,6 @@ export abstract class DefaultSupervisor extends Actor implements Supervisor {
     }
   }
 
-  /**
-   * Returns the supervision strategy to use.
-   * Override to provide custom strategy.
-   *
-   * @returns Promise resolving to DefaultSupervisionStrategy
-   */
-  supervisionStrategy(): Promise<SupervisionStrategy> {
-    return Promise.resolve(new DefaultSupervisionStrategy())
-  }
-
-  /**
-   * Returns this actor's supervisor reference.
-   * Uses selfAs<Supervisor>() to return a properly typed proxy.
-   *
-   * @returns This supervisor as a Supervisor proxy
-   */
-  supervisor(): Supervisor {
-    return this.selfAs<Supervisor>()
-  }
-
   /**
    * Decides which supervision directive to apply based on the error and strategy.
    * **Must be implemented by subclasses.**
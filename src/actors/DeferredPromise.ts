@@ -57,4 +57,15 @@ export function createDeferred<T>(): DeferredPromise<T> {
     resolve: resolve!,
     reject: reject!
   }
+}
+
+/**
+ * Deferred shared by all one-way messages, whose senders never await
+ * a result. Resolving or rejecting it has no effect, so no promise is
+ * allocated per message and failures cause no unhandled rejections.
+ */
+export const OneWayDeferred: DeferredPromise<any> = {
+  promise: Promise.resolve(undefined),
+  resolve: () => {},
+  reject: () => {}
 }
\ No newline at end of file
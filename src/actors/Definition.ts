@@ -18,8 +18,10 @@ import { Address } from "./Address.js"
  *
  * Created by the stage when actorFor() is called and passed to
  * the protocol's instantiator to create the actor.
+ *
+ * @template P The types of the constructor parameters (default: any)
  */
-export class Definition {
+export class Definition<P extends any[] = any[]> {
   /**
    * Creates a new actor definition.
    * @param _type Actor type identifier (typically class name)
@@ -29,7 +31,7 @@ export class Definition {
   constructor(
     private _type: string,
     private _address: Address,
-    private _parameters: any[] = []
+    private _parameters: P = [] as unknown as P
   ) {}
 
   /**
@@ -52,7 +54,7 @@ export class Definition {
    * Returns a copy of the constructor parameters.
    * @returns Array of parameters (defensive copy)
    */
-  parameters(): any[] {
-    return [... this._parameters]
+  parameters(): P {
+    return [... this._parameters] as P
   }
 }
\ No newline at end of file
@@ -8,6 +8,9 @@
 
 import { Address } from './Address.js'
 import { ActorProtocol } from './ActorProtocol.js'
+import { Environment } from './Environment.js'
+import { INTERNAL_ENVIRONMENT_ACCESS, InternalActorAccess } from './InternalAccess.js'
+import { MailboxMetrics } from './MailboxMetrics.js'
 
 /**
  * Configuration for Directory capacity tuning.
@@ -213,6 +216,40 @@ export class Directory {
     return actors
   }
 
+  /**
+   * Returns the metrics of the mailboxes of all actors in the directory
+   * that have metrics.
+   *
+   * @returns Array of mailbox metrics
+   */
+  allMailboxMetrics(): MailboxMetrics[] {
+    const metrics: MailboxMetrics[] = []
+    for (const actor of this.all()) {
+      const environment: Environment = (actor as any as InternalActorAccess)[INTERNAL_ENVIRONMENT_ACCESS]()
+      const mailboxMetrics = environment.mailbox().metrics?.()
+      if (mailboxMetrics) {
+        metrics.push(mailboxMetrics)
+      }
+    }
+    return metrics
+  }
+
+  /**
+   * Returns the metrics of the mailboxes of all actors in the directory
+   * combined, for monitoring the stage as a whole.
+   *
+   * @example
+   * ```typescript
+   * const metrics = directory.mailboxMetrics()
+   * console.log(`Queued: ${metrics.depth()}, failed: ${metrics.failedCount()}`)
+   * ```
+   *
+   * @returns Combined mailbox metrics
+   */
+  mailboxMetrics(): MailboxMetrics {
+    return MailboxMetrics.merge(this.allMailboxMetrics())
+  }
+
   /**
    * Returns configuration details for debugging/monitoring.
    */
@@ -13,7 +13,11 @@ import { Definition } from "./Definition.js"
 import { EmptyExecutionContext, ExecutionContext } from "./ExecutionContext.js"
 import { Logger } from "./Logger.js"
 import { Mailbox } from "./Mailbox.js"
+import { Message } from "./Message.js"
+import { Protocol } from "./Protocol.js"
+import { RestartHistory } from "./RestartHistory.js"
 import { StageInternal } from "./StageInternal.js"
+import { Stash } from "./Stash.js"
 import { Supervisor } from "./Supervisor.js"
 
 /**
@@ -23,6 +27,7 @@ import { Supervisor } from "./Supervisor.js"
  * - Address and definition (identity and metadata)
  * - Mailbox (message delivery)
  * - Parent and children (actor hierarchy)
+ * - Watchers and watched actors (death watch)
  * - Logger (debugging and monitoring)
  * - Stage (actor system)
  * - Supervisor (fault tolerance)
@@ -36,6 +41,55 @@ export class Environment {
   // INTERNAL: intended for use by the current Actor being created
   private static _currentEnvironment: Environment | undefined = undefined
 
+  // INTERNAL: intended for use by message delivery and sending
+  private static _senderEnvironment: Environment | undefined = undefined
+
+  // INTERNAL: the sending actor across awaits, where the runtime supports it
+  private static _senderStorage: SenderStorage | undefined = senderStorage()
+
+  /**
+   * Returns the environment of the actor whose message handler is
+   * running, which is the sender of any message sent now. Where the
+   * runtime provides `AsyncLocalStorage`, such as Node.js, Bun and Deno,
+   * the sender is known across the handler's awaits; elsewhere it is
+   * known only until the handler's first await.
+   *
+   * INTERNAL: intended for use by message delivery and sending
+   *
+   * @returns The environment of the sending actor, or undefined
+   */
+  static senderEnvironment(): Environment | undefined {
+    return Environment._senderStorage
+      ? Environment._senderStorage.getStore()
+      : Environment._senderEnvironment
+  }
+
+  /**
+   * Runs the function with the environment as the sender of messages it
+   * sends, including after its awaits where the runtime supports it.
+   * Undefined runs the function with no sender.
+   *
+   * INTERNAL: intended for use by message delivery
+   *
+   * @param environment The environment of the sending actor, or undefined
+   * @param f The function to run
+   * @returns The result of the function
+   */
+  static runAsSender<R>(environment: Environment | undefined, f: () => R): R {
+    if (Environment._senderStorage) {
+      return Environment._senderStorage.run(environment, f)
+    }
+
+    // Handlers of other actors may run nested, synchronously, within this one
+    const sender = Environment._senderEnvironment
+    Environment._senderEnvironment = environment
+    try {
+      return f()
+    } finally {
+      Environment._senderEnvironment = sender
+    }
+  }
+
   /**
    * Sets the environment for the currently-being-instantiated actor.
    * Called by protocol instantiator before actor construction.
@@ -48,6 +102,17 @@ export class Environment {
     Environment._currentEnvironment = environment
   }
 
+  /**
+   * Clears the environment for the currently-being-instantiated actor.
+   * Called after instantiation, which may fail before the Actor
+   * constructor retrieves the environment.
+   *
+   * INTERNAL: intended for use by the current Actor being created
+   */
+  static clearCurrentEnvironment(): void {
+    Environment._currentEnvironment = undefined
+  }
+
   /**
    * Retrieves and clears the environment.
    * Called by Actor constructor.
@@ -66,17 +131,26 @@ export class Environment {
     return environment
   }
 
+  private _actor?: Actor
   private _address: Address
   private _children: ActorProtocol[]
   private _definition: Definition
+  private _currentMessage?: Message
+  private _currentMessageAbortSignal?: AbortSignal
   private _currentMessageExecutionContext: ExecutionContext
   private _executionContext: ExecutionContext
   private _logger: Logger
   private _mailbox: Mailbox
   private _parent: ActorProtocol
+  private _protocol: Protocol
+  private _restartHistory: RestartHistory
   private _stage: StageInternal
+  private _stash?: Stash
+  private _stopReason?: Error
   private _supervisorName: string
   private _supervisor?: Supervisor
+  private _watchers: Map<string, ActorProtocol>
+  private _watching: Map<string, ActorProtocol>
 
   /**
    * Creates a new actor environment.
@@ -85,6 +159,7 @@ export class Environment {
    * @param stage The stage managing this actor
    * @param address The actor's unique address
    * @param definition The actor's definition (type and parameters)
+   * @param protocol The protocol used to instantiate (and re-instantiate) the actor
    * @param parent The parent actor (undefined only for PrivateRootActor)
    * @param mailbox The message queue for this actor
    * @param logger The logger for this actor
@@ -94,6 +169,7 @@ export class Environment {
     stage: StageInternal,
     address: Address,
     definition: Definition,
+    protocol: Protocol,
     parent: ActorProtocol | undefined,
     mailbox: Mailbox,
     logger: Logger,
@@ -102,15 +178,43 @@ export class Environment {
     this._stage = stage
     this._address = address
     this._definition = definition
+    this._protocol = protocol
     this._parent = parent!  // ! is safe - will be undefined only for PrivateRootActor
     this._mailbox = mailbox
     this._logger = logger
     this._supervisorName = supervisorName
     this._executionContext = new ExecutionContext()
     this._currentMessageExecutionContext = EmptyExecutionContext
-
+    this._restartHistory = new RestartHistory()
 
     this._children = []
+    this._watchers = new Map()
+    this._watching = new Map()
+  }
+
+  /**
+   * Returns the current actor instance for this environment.
+   * The instance changes when the actor is restarted, while the
+   * environment (address, mailbox, children) remains the same.
+   *
+   * INTERNAL: Intended for use by proxies, message delivery, and supervision.
+   *
+   * @returns The current actor instance
+   */
+  actor(): Actor {
+    return this._actor!
+  }
+
+  /**
+   * Sets the current actor instance for this environment.
+   * Called by the stage when the actor is instantiated or re-instantiated on restart.
+   *
+   * INTERNAL: Intended for use by the stage.
+   *
+   * @param actor The actor instance
+   */
+  setActor(actor: Actor): void {
+    this._actor = actor
   }
 
   /**
@@ -196,6 +300,43 @@ export class Environment {
     return this._parent
   }
 
+  /**
+   * Returns the protocol used to instantiate this actor.
+   * @returns Protocol instance
+   */
+  protocol(): Protocol {
+    return this._protocol
+  }
+
+  /**
+   * Returns the restart history of this actor.
+   * Used by supervision to enforce restart intensity within a period.
+   * @returns RestartHistory instance
+   */
+  restartHistory(): RestartHistory {
+    return this._restartHistory
+  }
+
+  /**
+   * Returns the stash of this actor, creating it on first use with the
+   * capacity answered by the actor. The stash is retained across restarts.
+   * @returns Stash instance
+   */
+  stash(): Stash {
+    if (!this._stash) {
+      this._stash = new Stash(this.actor().stashCapacity())
+    }
+    return this._stash
+  }
+
+  /**
+   * Removes and returns all stashed messages in stashing order.
+   * @returns The stashed messages, or an empty array if none
+   */
+  takeStashed(): Message[] {
+    return this._stash ? this._stash.takeAll() : []
+  }
+
   /**
    * Returns the stage managing this actor.
    * @returns Stage instance
@@ -204,14 +345,38 @@ export class Environment {
     return this._stage
   }
 
+  /**
+   * Returns the error that caused this actor to be stopped, if any.
+   * Undefined when the actor was stopped normally rather than by supervision.
+   * @returns Error instance or undefined
+   */
+  stopReason(): Error | undefined {
+    return this._stopReason
+  }
+
+  /**
+   * Sets the error that causes this actor to be stopped.
+   * Called by supervision before stopping the actor, so that watchers
+   * can be told why the actor terminated.
+   *
+   * INTERNAL: Intended for use by supervision.
+   *
+   * @param reason The error that caused the stop
+   */
+  setStopReason(reason: Error): void {
+    this._stopReason = reason
+  }
+
   /**
    * Returns the supervisor for this actor.
    *
    * Lookup strategy:
    * 1. Return cached supervisor if already resolved
-   * 2. For root actors ('private-root-supervisor', '__privateRoot'), use Stage.supervisor() registry
-   * 3. For 'default', lookup '__publicRoot' from Directory
-   * 4. For named supervisors, lookup by type from Directory
+   * 2. For '__privateRoot', lookup PrivateRootActor from Directory, falling back to
+   *    the Stage.supervisor() registry while it is being created
+   * 3. For 'private-root-supervisor', use the Stage.supervisor() registry
+   * 4. For 'default', lookup '__publicRoot' from Directory
+   * 5. For named supervisors, lookup by type from Directory
    *
    * @returns Supervisor instance
    * @throws Error if supervisor not found
@@ -222,9 +387,18 @@ export class Environment {
       return this._supervisor
     }
 
-    // Special cases for root actors - use Stage supervisor registry
-    if (this._supervisorName === 'private-root-supervisor' ||
-        this._supervisorName === '__privateRoot') {
+    // PrivateRootActor supervises PublicRootActor once it exists
+    if (this._supervisorName === '__privateRoot') {
+      const privateRoot = this._stage.directory().findByType('__privateRoot')
+      if (!privateRoot) {
+        return this._stage.supervisor(this._supervisorName)
+      }
+      this._supervisor = privateRoot as unknown as Supervisor
+      return this._supervisor
+    }
+
+    // PrivateRootActor itself - use Stage supervisor registry
+    if (this._supervisorName === 'private-root-supervisor') {
       this._supervisor = this._stage.supervisor(this._supervisorName)
       return this._supervisor
     }
@@ -267,6 +441,56 @@ export class Environment {
     return this._supervisorName
   }
 
+  /**
+   * Returns the actors watching this actor for termination.
+   * @returns Array of watcher actor protocols (defensive copy)
+   */
+  watchers(): ActorProtocol[] {
+    return [...this._watchers.values()]
+  }
+
+  /**
+   * Adds a watcher to be notified when this actor terminates.
+   * Adding the same watcher more than once has no additional effect.
+   *
+   * @param watcher The watcher actor protocol
+   */
+  addWatcher(watcher: ActorProtocol): void {
+    this._watchers.set(watcher.address().valueAsString(), watcher)
+  }
+
+  /**
+   * Removes a watcher of this actor.
+   * @param address The address of the watcher to remove
+   */
+  removeWatcher(address: Address): void {
+    this._watchers.delete(address.valueAsString())
+  }
+
+  /**
+   * Returns the actors this actor is watching for termination.
+   * @returns Array of watched actor protocols (defensive copy)
+   */
+  watching(): ActorProtocol[] {
+    return [...this._watching.values()]
+  }
+
+  /**
+   * Records that this actor is watching another actor.
+   * @param watched The watched actor protocol
+   */
+  addWatching(watched: ActorProtocol): void {
+    this._watching.set(watched.address().valueAsString(), watched)
+  }
+
+  /**
+   * Forgets that this actor is watching another actor.
+   * @param address The address of the watched actor
+   */
+  removeWatching(address: Address): void {
+    this._watching.delete(address.valueAsString())
+  }
+
   /**
    * Returns the execution context for this actor.
    * The execution context holds request-scoped data for supervision and tracing.
@@ -301,4 +525,74 @@ export class Environment {
   setCurrentMessageExecutionContext(executionContext: ExecutionContext): void {
     this._currentMessageExecutionContext = executionContext
   }
-}
\ No newline at end of file
+
+  /**
+   * Gets the abort signal of this actor's currently delivered message.
+   *
+   * INTERNAL: Intended for use by message delivery infrastructure.
+   *
+   * @returns The AbortSignal sent with the current message, or undefined
+   */
+  getCurrentMessageAbortSignal(): AbortSignal | undefined {
+    return this._currentMessageAbortSignal
+  }
+
+  /**
+   * Sets the abort signal of the message currently being delivered for this actor.
+   *
+   * INTERNAL: Intended for use by message delivery infrastructure.
+   *
+   * @param signal The abort signal of the message, or undefined
+   */
+  setCurrentMessageAbortSignal(signal: AbortSignal | undefined): void {
+    this._currentMessageAbortSignal = signal
+  }
+
+  /**
+   * Gets this actor's currently delivered message.
+   *
+   * INTERNAL: Intended for use by message delivery infrastructure.
+   *
+   * @returns The current message, or undefined between messages
+   */
+  getCurrentMessage(): Message | undefined {
+    return this._currentMessage
+  }
+
+  /**
+   * Sets the message currently being delivered for this actor.
+   *
+   * INTERNAL: Intended for use by message delivery infrastructure.
+   *
+   * @param message The message, or undefined
+   */
+  setCurrentMessage(message: Message | undefined): void {
+    this._currentMessage = message
+  }
+}
+
+/**
+ * The subset of `AsyncLocalStorage` used to track the sending actor.
+ */
+interface SenderStorage {
+  getStore(): Environment | undefined
+  run<R>(store: Environment | undefined, f: () => R): R
+}
+
+/**
+ * Answers an `AsyncLocalStorage` of the runtime, resolved without a
+ * static import so that runtimes without `node:async_hooks` still load.
+ * @returns The storage, or undefined if the runtime has none
+ */
+function senderStorage(): SenderStorage | undefined {
+  const runtime = globalThis as {
+    process?: { getBuiltinModule?: (id: string) => { AsyncLocalStorage?: new () => SenderStorage } | undefined }
+  }
+
+  try {
+    const AsyncLocalStorage = runtime.process?.getBuiltinModule?.('node:async_hooks')?.AsyncLocalStorage
+    return AsyncLocalStorage ? new AsyncLocalStorage() : undefined
+  } catch {
+    return undefined
+  }
+}
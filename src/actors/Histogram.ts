@@ -0,0 +1,138 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+/**
+ * A bucket of a histogram: the number of values recorded up to its
+ * upper bound and above the upper bound of the bucket before it.
+ */
+export interface HistogramBucket {
+  /** Largest value counted in the bucket (Infinity for the last) */
+  upperBound: number
+  /** Number of values counted in the bucket */
+  count: number
+}
+
+/**
+ * Histogram of durations in milliseconds, counted in fixed buckets.
+ *
+ * Recording is constant time and memory regardless of the number of
+ * values, so histograms may be kept per actor and merged for totals.
+ * Percentiles are estimated as the upper bound of the bucket in which
+ * they fall, capped by the largest value recorded.
+ */
+export class Histogram {
+  /** Upper bounds (ms) of the buckets, before the last unbounded one */
+  static readonly Bounds: readonly number[] = [0.1, 0.5, 1, 5, 10, 50, 100, 500, 1000, 5000, 10000]
+
+  private _counts: number[] = new Array(Histogram.Bounds.length + 1).fill(0)
+  private _count = 0
+  private _sum = 0
+  private _min = Infinity
+  private _max = 0
+
+  /**
+   * Records a value.
+   * @param value The duration (ms)
+   */
+  record(value: number): void {
+    let index = 0
+    while (index < Histogram.Bounds.length && value > Histogram.Bounds[index]!) {
+      index++
+    }
+    this._counts[index]!++
+    this._count++
+    this._sum += value
+    this._min = Math.min(this._min, value)
+    this._max = Math.max(this._max, value)
+  }
+
+  /**
+   * Adds the values recorded by another histogram to this one.
+   * @param other The histogram to add
+   */
+  merge(other: Histogram): void {
+    other._counts.forEach((count, index) => this._counts[index]! += count)
+    this._count += other._count
+    this._sum += other._sum
+    this._min = Math.min(this._min, other._min)
+    this._max = Math.max(this._max, other._max)
+  }
+
+  /**
+   * Returns the number of values recorded.
+   * @returns Number of values
+   */
+  count(): number {
+    return this._count
+  }
+
+  /**
+   * Returns the sum of the values recorded.
+   * @returns Sum (ms)
+   */
+  sum(): number {
+    return this._sum
+  }
+
+  /**
+   * Returns the smallest value recorded.
+   * @returns Minimum (ms), or 0 if none recorded
+   */
+  min(): number {
+    return this._count > 0 ? this._min : 0
+  }
+
+  /**
+   * Returns the largest value recorded.
+   * @returns Maximum (ms), or 0 if none recorded
+   */
+  max(): number {
+    return this._max
+  }
+
+  /**
+   * Returns the mean of the values recorded.
+   * @returns Mean (ms), or 0 if none recorded
+   */
+  mean(): number {
+    return this._count > 0 ? this._sum / this._count : 0
+  }
+
+  /**
+   * Returns an estimate of the given percentile of the values recorded.
+   * @param percentile The percentile, from 0 to 100 (e.g., 99)
+   * @returns Estimate (ms), or 0 if none recorded
+   */
+  percentile(percentile: number): number {
+    if (this._count === 0) {
+      return 0
+    }
+
+    const rank = Math.max(1, Math.ceil(this._count * percentile / 100))
+    let counted = 0
+    for (let index = 0; index < this._counts.length; index++) {
+      counted += this._counts[index]!
+      if (counted >= rank) {
+        return Math.min(Histogram.Bounds[index] ?? Infinity, this._max)
+      }
+    }
+
+    return this._max
+  }
+
+  /**
+   * Returns the buckets with the number of values counted in each.
+   * @returns Buckets in ascending order of upper bound
+   */
+  buckets(): HistogramBucket[] {
+    return this._counts.map((count, index) => ({
+      upperBound: Histogram.Bounds[index] ?? Infinity,
+      count
+    }))
+  }
+}
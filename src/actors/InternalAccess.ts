@@ -30,3 +30,16 @@ export const INTERNAL_ENVIRONMENT_ACCESS = Symbol('@@DomoActors/internalEnvironm
 export interface InternalActorAccess {
   [INTERNAL_ENVIRONMENT_ACCESS]: () => any
 }
+
+/**
+ * Returns whether the value is an actor proxy giving internal access,
+ * such as a supervisor that is an actor.
+ *
+ * @param value The value to check
+ * @returns true if the value gives internal access, otherwise false
+ * @internal
+ */
+export function hasInternalAccess(value: unknown): value is InternalActorAccess {
+  return typeof value === 'object' && value !== null
+    && typeof (value as Partial<InternalActorAccess>)[INTERNAL_ENVIRONMENT_ACCESS] === 'function'
+}
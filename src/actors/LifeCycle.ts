@@ -6,11 +6,17 @@
 // See: LICENSE.md in repository root directory
 // See: https://opensource.org/license/rpl-1-5
 
+import { ActorProtocol } from './ActorProtocol.js'
+import { Address } from './Address.js'
+import { DeadLetter } from './DeadLetters.js'
 import { Environment } from './Environment.js'
 import { Startable } from './Startable.js'
 import { Stoppable } from './Stoppable.js'
 import { INTERNAL_ENVIRONMENT_ACCESS, InternalActorAccess } from './InternalAccess.js'
+import { Logger } from './Logger.js'
 import { StageInternal } from './StageInternal.js'
+import { SupervisionEvent, SupervisionEventType } from './SupervisionEvents.js'
+import { answerStopped } from './Undelivered.js'
 
 /**
  * Interface for actor lifecycle management.
@@ -49,6 +55,52 @@ export interface LifeCycle {
   isStopped(): boolean
 }
 
+/**
+ * How an actor handles failures of its lifecycle hooks while it is
+ * being restarted or resumed by supervision.
+ *
+ * - LogOnly: Log the failure and complete the restart or resume
+ * - Escalate: Hand the failure to the actor's supervisor as a new failure
+ * - Stop: Stop the actor
+ *
+ * In every case the failure is logged and published as a HookFailed
+ * supervision event. An actor whose hook fails again while it is being
+ * restarted or resumed for an earlier hook failure is stopped rather
+ * than escalated, to prevent endless restarts.
+ */
+export enum HookFailurePolicy {
+  LogOnly,
+  Escalate,
+  Stop
+}
+
+/**
+ * Error raised when a lifecycle hook fails during restart or resume.
+ * The error thrown by the hook is available as `cause`.
+ */
+export class LifeCycleHookError extends Error {
+  private _hook: string
+
+  /**
+   * Creates a hook failure error.
+   * @param hook The name of the failed hook (e.g., 'afterRestart')
+   * @param cause The error thrown by the hook
+   */
+  constructor(hook: string, cause: Error) {
+    super(`Actor ${hook}() failed: ${cause.message}`, { cause })
+    this.name = 'LifeCycleHookError'
+    this._hook = hook
+  }
+
+  /**
+   * Returns the name of the failed hook.
+   * @returns Hook name
+   */
+  hook(): string {
+    return this._hook
+  }
+}
+
 /**
  * Abstract base class providing actor lifecycle management.
  *
@@ -135,6 +187,22 @@ export abstract class LifeCycle implements Startable, Stoppable {
     this.environment().logger().log(this.id() + ' subject: beforeResume(): ', reason)
   }
 
+  /**
+   * Death watch notification that a watched actor has terminated.
+   * Override to react to the termination of actors watched via watch().
+   *
+   * Delivered as a message through this actor's mailbox, so it is
+   * processed in order with other messages, and failures are supervised.
+   *
+   * @param address The address of the terminated actor
+   * @param reason The error that caused the termination, or undefined if stopped normally
+   * @returns Optional promise for async handling
+   */
+  onTerminated(address: Address, reason?: Error): void | Promise<void> {
+    // Implement in subclass
+    this.environment().logger().log(this.id() + ' subject: onTerminated(): ' + address.valueAsString(), reason)
+  }
+
   /**
    * Lifecycle hook called before the actor stops.
    * Override for custom pre-stop cleanup.
@@ -150,6 +218,17 @@ export abstract class LifeCycle implements Startable, Stoppable {
     this.environment().logger().log(this.id() + ' subject: beforeStop()')
   }
 
+  /**
+   * Returns how failures of beforeRestart(), afterRestart(), and
+   * beforeResume() are handled when supervision restarts or resumes
+   * this actor. Override to choose another policy.
+   *
+   * @returns HookFailurePolicy.Escalate by default
+   */
+  hookFailurePolicy(): HookFailurePolicy {
+    return HookFailurePolicy.Escalate
+  }
+
   /**
    * Starts the actor.
    * Override in subclass for custom start behavior.
@@ -169,43 +248,67 @@ export abstract class LifeCycle implements Startable, Stoppable {
    * Override in subclass for custom restart behavior.
    *
    * Default implementation:
-   * 1. Calls beforeRestart() hook
-   * 2. Logs the restart
-   * 3. Calls afterRestart() hook
+   * 1. Calls beforeRestart() hook on this (failed) instance
+   * 2. Re-instantiates the actor from its Protocol and Definition parameters,
+   *    swapping the new instance behind the existing proxy and environment
+   *    (same address, mailbox, and children)
+   * 3. Calls afterRestart() hook on the new instance
+   *
+   * In-memory state of the failed instance does not survive the restart
+   * unless the actor carries it across via stateSnapshot(): if the failed
+   * instance answers a snapshot, it is handed to the new instance before
+   * afterRestart() is called. Since beforeStart() is not called again, use
+   * afterRestart() to re-create anything the new instance needs.
    *
-   * Hook failures are logged but don't prevent restart.
+   * Hook and re-instantiation failures are logged but don't prevent restart.
+   * If re-instantiation fails, the failed instance remains in place.
+   * Hook failures are published as HookFailed supervision events, and unless
+   * the hookFailurePolicy() is LogOnly, the returned promise is rejected with
+   * a LifeCycleHookError after the restart completes, so that supervision
+   * can escalate the failure or stop the actor.
    *
    * @param reason The error that caused the restart
    * @returns Promise that resolves when restart completes
    */
   async restart(reason: Error): Promise<void> {
+    let hookFailure: LifeCycleHookError | undefined
+
     // Call beforeRestart() lifecycle hook with error handling
     try {
       this.beforeRestart(reason)
     } catch (error: any) {
-      const errorObj = error instanceof Error ? error : new Error(String(error))
-      this.environment().logger().error(
-        `Actor beforeRestart() failed: ${errorObj.message}`,
-        errorObj
-      )
-      // Note: Failures in beforeRestart() are logged but don't prevent restart
-      // TODO: Route to supervisor system for escalation
+      hookFailure = this.hookFailed('beforeRestart', error)
+      // Note: Failures in beforeRestart() don't prevent restart
     }
 
-    // Perform restart (can be overridden in subclass)
+    // Perform restart by replacing this instance with a fresh one
     this.environment().logger().log(this.id() + ' subject: restart()')
 
-    // Call afterRestart() lifecycle hook with error handling
+    let restarted: LifeCycle = this
+
     try {
-      this.afterRestart(reason)
+      const stage = this.environment().stage() as StageInternal
+      restarted = stage.recreateActor(this.environment())
     } catch (error: any) {
       const errorObj = error instanceof Error ? error : new Error(String(error))
       this.environment().logger().error(
-        `Actor afterRestart() failed: ${errorObj.message}`,
+        `Actor re-instantiation failed: ${errorObj.message}`,
         errorObj
       )
-      // Note: Failures in afterRestart() are logged but don't prevent restart completion
-      // TODO: Route to supervisor system for escalation
+      // Note: The failed instance remains in place and is restarted in place
+    }
+
+    // Call afterRestart() lifecycle hook on the new instance with error handling
+    try {
+      restarted.afterRestart(reason)
+    } catch (error: any) {
+      const afterRestartFailure = this.hookFailed('afterRestart', error)
+      hookFailure = hookFailure || afterRestartFailure
+      // Note: Failures in afterRestart() don't prevent restart completion
+    }
+
+    if (hookFailure && restarted.hookFailurePolicy() !== HookFailurePolicy.LogOnly) {
+      throw hookFailure
     }
 
     return Promise.resolve()
@@ -219,9 +322,10 @@ export abstract class LifeCycle implements Startable, Stoppable {
    * 1. Calls beforeStop() hook (supports async)
    * 2. Stops all child actors (depth-first)
    * 3. Removes self from parent's children
-   * 4. Closes the mailbox
+   * 4. Closes the mailbox and routes stashed messages to dead letters
    * 5. Removes from stage directory
    * 6. Calls afterStop() hook
+   * 7. Notifies watchers via onTerminated() and stops watching others
    *
    * Hook and child stop failures are logged but don't prevent stopping.
    *
@@ -283,6 +387,9 @@ export abstract class LifeCycle implements Startable, Stoppable {
       // Close the mailbox
       this.environment().mailbox().close()
 
+      // Stashed messages will not be delivered
+      this.deadLetterStashed()
+
       // Remove from stage directory
       const stage = this.environment().stage() as StageInternal
       stage.removeFromDirectory(this.environment().address())
@@ -300,6 +407,9 @@ export abstract class LifeCycle implements Startable, Stoppable {
         )
         // Note: Failures in afterStop() are logged but don't prevent stopping
       }
+
+      // Death watch: tell watchers and withdraw from actors being watched
+      this.terminateWatches()
     }
     return Promise.resolve()
   }
@@ -336,6 +446,78 @@ export abstract class LifeCycle implements Startable, Stoppable {
     })
   }
 
+  /**
+   * Logs a lifecycle hook failure and publishes it as a HookFailed
+   * supervision event.
+   *
+   * @param hook The name of the failed hook
+   * @param error The error thrown by the hook
+   * @returns The hook failure error
+   */
+  private hookFailed(hook: string, error: any): LifeCycleHookError {
+    const errorObj = error instanceof Error ? error : new Error(String(error))
+    const hookFailure = new LifeCycleHookError(hook, errorObj)
+    const environment = this.environment()
+
+    environment.logger().error(hookFailure.message, errorObj)
+
+    environment.stage().supervisionEvents().publish(
+      new SupervisionEvent(
+        SupervisionEventType.HookFailed,
+        environment.address(),
+        environment.definition().type(),
+        hookFailure
+      )
+    )
+
+    return hookFailure
+  }
+
+  /**
+   * Routes all stashed messages to dead letters, rejecting each with an
+   * ActorStoppedError as the closed mailbox does for messages sent to it.
+   */
+  private deadLetterStashed(): void {
+    for (const message of this.environment().takeStashed()) {
+      const deadLetter = new DeadLetter(message.to(), message.representation())
+      this.environment().stage().deadLetters().failedDelivery(deadLetter)
+      answerStopped(message)
+    }
+  }
+
+  /**
+   * Notifies all watchers that this actor terminated, removing this actor
+   * from the actors they are watching, and removes this actor as a watcher
+   * of the actors it is watching.
+   */
+  private terminateWatches(): void {
+    const environment = this.environment()
+    const address = environment.address()
+
+    for (const watcher of environment.watchers()) {
+      environment.removeWatcher(watcher.address())
+      try {
+        const watcherEnv = (watcher as any as InternalActorAccess)[INTERNAL_ENVIRONMENT_ACCESS]()
+        watcherEnv.removeWatching(address)
+      } catch (error: any) {
+        // Ignore errors if the watcher is already gone
+        environment.logger().debug('Could not remove from watcher:', error)
+      }
+      tellTerminated(watcher, address, environment.stopReason(), environment.logger())
+    }
+
+    for (const watched of environment.watching()) {
+      environment.removeWatching(watched.address())
+      try {
+        const watchedEnv = (watched as any as InternalActorAccess)[INTERNAL_ENVIRONMENT_ACCESS]()
+        watchedEnv.removeWatcher(address)
+      } catch (error: any) {
+        // Ignore errors if the watched actor is already gone
+        environment.logger().debug('Could not remove from watched actor:', error)
+      }
+    }
+  }
+
   /**
    * Returns whether this actor is stopped.
    * An actor is considered stopped if its mailbox is closed.
@@ -355,4 +537,31 @@ export abstract class LifeCycle implements Startable, Stoppable {
   private id(): string {
     return this.environment().stage().idFrom(this.environment())
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Sends an onTerminated() notification to a watcher through its mailbox.
+ * Failures of the notification are logged.
+ *
+ * @internal - Only for use by LifeCycle and Actor death watch
+ *
+ * @param watcher The watcher actor protocol (proxy)
+ * @param address The address of the terminated actor
+ * @param reason The error that caused the termination, if any
+ * @param logger The logger used to report notification failures
+ */
+export function tellTerminated(
+  watcher: ActorProtocol,
+  address: Address,
+  reason: Error | undefined,
+  logger: Logger
+): void {
+  Promise.resolve((watcher as any as LifeCycle).onTerminated(address, reason))
+    .catch((error: any) => {
+      const errorObj = error instanceof Error ? error : new Error(String(error))
+      logger.error(
+        `Actor onTerminated() failed: ${errorObj.message}`,
+        errorObj
+      )
+    })
+}
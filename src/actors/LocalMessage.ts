@@ -8,13 +8,29 @@
 
 import { Actor } from "./Actor.js"
 import { ActorProtocol } from "./ActorProtocol.js"
+import { MessageExpiredError } from "./Ask.js"
+import { UnhandledMessageError } from "./Behavior.js"
 import { ActorFunction, Message, EmptyMessage } from "./Message.js"
-import { DeferredPromise } from "./DeferredPromise.js"
+import { createDeferred, DeferredPromise } from "./DeferredPromise.js"
 import { DeadLetter } from "./DeadLetters.js"
+import { Environment } from "./Environment.js"
 import { EmptyExecutionContext, ExecutionContext } from "./ExecutionContext.js"
+import { MailboxMetrics } from "./MailboxMetrics.js"
 import { StageInternal } from "./StageInternal.js"
 import { StageSupervisedActor } from "./Supervisor.js"
 
+/**
+ * Options given by the sender of a local message.
+ */
+export interface LocalMessageOptions {
+  /** Abort signal with which the sender may withdraw the message */
+  signal?: AbortSignal
+  /** Priority of the message, used by a PriorityMailbox */
+  priority?: number
+  /** Time (ms since the epoch) by which the message must be received */
+  deadline?: number
+}
+
 /**
  * Concrete implementation of Message for local actor invocations.
  *
@@ -33,6 +49,12 @@ export class LocalMessage implements Message {
   private _representation: string
   private _to: ActorProtocol
   private _executionContext: ExecutionContext
+  private _options: LocalMessageOptions
+  private _args: any[]
+  private _calls?: LocalMessage[]
+  private _deadline: number | undefined
+  private _stashed: boolean = false
+  private _withdrawn: boolean = false
 
   /**
    * Creates a new local message.
@@ -41,19 +63,83 @@ export class LocalMessage implements Message {
    * @param deferred Deferred promise for the return value
    * @param representation String representation (typically method name)
    * @param executionContext Copy of the execution context (or EmptyExecutionContext)
+   * @param options Options given by the sender
+   * @param args Arguments of the protocol method call
    */
   constructor(
     to: Actor,
     f: ActorFunction,
     deferred: DeferredPromise<any>,
     representation: string,
-    executionContext: ExecutionContext
+    executionContext: ExecutionContext,
+    options: LocalMessageOptions = {},
+    args: any[] = []
   ) {
     this._to = to
     this._function = f
     this._deferred = deferred
     this._representation = representation
     this._executionContext = executionContext
+    this._options = options
+    this._args = args
+    this._deadline = options.deadline
+  }
+
+  /**
+   * Creates a message invoking the batch handler once for all the given
+   * calls of a batchable method, with an array of their argument tuples.
+   * Each call's promise settles from the batch result: with the element
+   * at its index if the handler answers an array, otherwise with the
+   * result itself; if the handler fails, all are rejected. Metrics
+   * are recorded for each call, as the duration of the handler.
+   *
+   * The calls must be given without options of their senders, which the
+   * batch message does not carry; see hasOptions().
+   *
+   * @param messages Queued calls of the same method, in order
+   * @param handler Name of the method handling the batch
+   * @returns The batch message
+   * @internal
+   */
+  static batchOf(messages: LocalMessage[], handler: string): LocalMessage {
+    const first = messages[0]!
+    const calls = messages.map(message => message._args)
+    const deferred = createDeferred<any>()
+
+    deferred.promise.then(
+      result => messages.forEach((message, index) =>
+        message._deferred.resolve(Array.isArray(result) ? result[index] : result)),
+      error => messages.forEach(message => message._deferred.reject(error))
+    )
+
+    const batch = new LocalMessage(
+      first._to as Actor,
+      (actorInstance: any) => actorInstance[handler](calls),
+      deferred,
+      handler + "(" + calls.length + " calls)",
+      first._executionContext
+    )
+    batch._calls = messages
+
+    return batch
+  }
+
+  /**
+   * Returns the arguments of the protocol method call.
+   * @returns Argument tuple
+   */
+  args(): any[] {
+    return this._args
+  }
+
+  /**
+   * Returns whether the sender gave this message options: an abort
+   * signal, a priority or a deadline.
+   * @returns true if given options, otherwise false
+   */
+  hasOptions(): boolean {
+    const options = this._options
+    return options.signal !== undefined || options.priority !== undefined || options.deadline !== undefined
   }
 
   /**
@@ -65,11 +151,77 @@ export class LocalMessage implements Message {
   }
 
   /**
-   * Always returns true for local messages.
-   * @returns true
+   * Returns whether this message may still be delivered.
+   * @returns false once withdrawn or aborted, otherwise true
    */
   isDeliverable(): boolean {
-    return true
+    return !this._withdrawn && !this._options.signal?.aborted
+  }
+
+  /**
+   * Returns the time by which this message must be received, if any.
+   * @returns Deadline in milliseconds since the epoch, or undefined
+   */
+  deadline(): number | undefined {
+    return this._deadline
+  }
+
+  /**
+   * Gives this message a deadline of the time to live from now,
+   * unless its sender already gave it one.
+   * @param ttl Time (ms) within which the message must be received
+   */
+  expireAfter(ttl: number): void {
+    if (this._deadline === undefined) {
+      this._deadline = Date.now() + ttl
+    }
+  }
+
+  /**
+   * Returns whether this message's deadline has passed.
+   * @param now The current time (ms since the epoch)
+   * @returns true if expired, otherwise false
+   */
+  isExpired(now: number = Date.now()): boolean {
+    return this._deadline !== undefined && now >= this._deadline
+  }
+
+  /**
+   * Discards this expired message: withdraws it, routes it to dead
+   * letters with reason "expired", and rejects its sender's promise
+   * with a MessageExpiredError.
+   */
+  expire(): void {
+    this._withdrawn = true
+    const deadLetter = new DeadLetter(this.to(), this.representation(), 'expired')
+    this.to().stage().deadLetters().failedDelivery(deadLetter)
+    this._deferred.reject(new MessageExpiredError(this.representation(), this._deadline!))
+  }
+
+  /**
+   * Withdraws this message if it is still queued, so that the mailbox
+   * skips it rather than delivering it. Has no effect on a message
+   * already being delivered.
+   */
+  withdraw(): void {
+    this._withdrawn = true
+  }
+
+  /**
+   * Returns whether the target actor stashed this message while
+   * processing it, to be delivered again once unstashed.
+   * @returns true if stashed, otherwise false
+   */
+  isStashed(): boolean {
+    return this._stashed
+  }
+
+  /**
+   * Marks this message as stashed, so that its delivery does not
+   * answer the sender; the sender is answered once it is redelivered.
+   */
+  stash(): void {
+    this._stashed = true
   }
 
   /**
@@ -77,8 +229,11 @@ export class LocalMessage implements Message {
    *
    * Behavior:
    * - If actor is stopped: Routes to dead letters and returns EmptyMessage
+   * - If the actor's active behavior does not implement the message: Routes to
+   *   dead letters and rejects the promise with UnhandledMessageError
    * - Sets actor's environment ExecutionContext to message's copy before invocation
-   * - On success: Resolves deferred promise with result
+   * - Records the wait and handler times if the mailbox collects metrics
+   * - On success: Resolves deferred promise with result, unless the actor stashed the message
    * - On error: Suspends mailbox, routes to supervision system, rejects promise
    * - Resets actor's environment ExecutionContext to EmptyExecutionContext after invocation
    *
@@ -87,8 +242,23 @@ export class LocalMessage implements Message {
    *
    * @returns Promise resolving to EmptyMessage after delivery
    */
-  async deliver(): Promise<Message> {
-    const actor = this.to()
+  deliver(): Promise<Message> {
+    const environment = this.to().lifeCycle().environment()
+
+    // The actor is the sender of messages sent during delivery only to detect deadlocks
+    return environment.stage().detectsDeadlocks()
+      ? Environment.runAsSender(environment, () => this.deliverIn(environment))
+      : this.deliverIn(environment)
+  }
+
+  /**
+   * Delivers this message to the current instance of the target actor.
+   * @param environment The environment of the target actor
+   * @returns Promise resolving to EmptyMessage after delivery
+   */
+  private async deliverIn(environment: Environment): Promise<Message> {
+    // Resolve the current instance, which differs from the original after a restart
+    const actor = environment.actor()
 
     if (actor.lifeCycle().isStopped()) {
       const deadLetter = new DeadLetter(actor, this.representation())
@@ -96,19 +266,50 @@ export class LocalMessage implements Message {
       return EmptyMessage
     }
 
+    const receiver = this.receiverIn(actor)
+
+    if (!receiver) {
+      const deadLetter = new DeadLetter(actor, this.representation())
+      actor.deadLetters().failedDelivery(deadLetter)
+      this._deferred.reject(new UnhandledMessageError(this.representation()))
+      return EmptyMessage
+    }
+
     // Set the actor's environment ExecutionContext to this message's copy
     // This allows supervisors to access the context via supervised.actor().environment().executionContext()
-    const environment = actor.lifeCycle().environment()
+    environment.setCurrentMessage(this)
     environment.setCurrentMessageExecutionContext(this._executionContext)
+    environment.setCurrentMessageAbortSignal(this._options.signal)
     this._executionContext.propagate()
+    this._stashed = false
+
+    // Time the handler only while the mailbox collects metrics
+    const metrics = environment.mailbox().metrics?.()
+    const startedAt = metrics?.isEnabled() ? performance.now() : undefined
+    metrics?.recordStarted(this)
 
     try {
-      const result = await this.function()(actor)
-      this.deferred().resolve(result)
+      const result = await this.function()(receiver)
+      if (startedAt !== undefined) {
+        this.recordProcessed(metrics!, performance.now() - startedAt, false)
+      }
+      if (!this._stashed) {
+        this.deferred().resolve(result)
+      }
       return EmptyMessage
     } catch (error: unknown) {
       const errorObj = error instanceof Error ? error : new Error(String(error))
 
+      if (startedAt !== undefined) {
+        this.recordProcessed(metrics!, performance.now() - startedAt, true)
+      }
+
+      // A message that failed after being stashed is not redelivered
+      if (this._stashed) {
+        environment.stash().remove(this)
+        this._stashed = false
+      }
+
       // Log the error
       actor.logger().error(`Message processing failed: ${errorObj.message}\n`, errorObj)
 
@@ -120,14 +321,34 @@ export class LocalMessage implements Message {
 
       // 3. Route to stage for supervision (xoom-actors pattern)
       const stage = actor.stage() as StageInternal
-      stage.handleFailureOf(new StageSupervisedActor(this.to(), actor.actor(), errorObj))
+      stage.handleFailureOf(new StageSupervisedActor(actor, actor.actor(), errorObj))
 
       return EmptyMessage
     } finally {
+      environment.setCurrentMessage(undefined)
       environment.setCurrentMessageExecutionContext(EmptyExecutionContext)
+      environment.setCurrentMessageAbortSignal(undefined)
     }
   }
 
+  /**
+   * Returns the priority given by the sender, if any.
+   * @returns Priority, or undefined
+   */
+  priority(): number | undefined {
+    return this._options.priority
+  }
+
+  /**
+   * Returns the name of the protocol method this message invokes.
+   * @returns Method name (e.g., "increment")
+   */
+  selector(): string {
+    const end = this._representation.indexOf('(')
+
+    return end < 0 ? this._representation : this._representation.substring(0, end)
+  }
+
   /**
    * Returns the string representation of this message.
    * Typically the protocol method name (e.g., "increment").
@@ -153,6 +374,41 @@ export class LocalMessage implements Message {
     return 'LocalMessage [to: ' + this.to() + ' function: ' + this.function() + ']'
   }
 
+  /**
+   * Records the handler completing or failing: for each of the calls
+   * of a batch, otherwise for this message.
+   * @param metrics The metrics of the mailbox
+   * @param duration The duration (ms) of the handler
+   * @param failed Whether the handler failed
+   */
+  private recordProcessed(metrics: MailboxMetrics, duration: number, failed: boolean): void {
+    for (const call of this._calls ?? [this]) {
+      metrics.recordProcessed(call.selector(), duration, failed)
+    }
+  }
+
+  /**
+   * Answers the object that handles this message: the actor's active
+   * behavior if it implements the message, otherwise the actor itself if
+   * it has no behavior or the message is for a method of Actor.
+   * @param actor The target actor instance
+   * @returns The receiver, or undefined if the message is not handled
+   */
+  private receiverIn(actor: Actor): ActorProtocol | undefined {
+    const behavior = actor.behavior()
+    if (!behavior) {
+      return actor
+    }
+
+    const selector = this.selector()
+
+    if (typeof (behavior as any)[selector] === 'function') {
+      return behavior as ActorProtocol
+    }
+
+    return selector in Actor.prototype ? actor : undefined
+  }
+
   /**
    * Returns the lambda function to be invoked.
    * @returns Actor function
@@ -160,4 +416,34 @@ export class LocalMessage implements Message {
   private function(): ActorFunction {
     return this._function
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Gives the message a deadline of the time to live from now, unless its
+ * sender gave it one. Used by mailboxes with a default time to live.
+ *
+ * @param message The message being enqueued
+ * @param ttl The mailbox's default time to live (ms), if any
+ * @internal
+ */
+export function applyTimeToLive(message: Message, ttl: number | undefined): void {
+  if (ttl !== undefined && message instanceof LocalMessage) {
+    message.expireAfter(ttl)
+  }
+}
+
+/**
+ * Discards the message if its deadline has passed. Used by mailboxes
+ * when receiving, so that expired messages are never delivered.
+ *
+ * @param message The message being received
+ * @returns true if the message expired and was discarded, otherwise false
+ * @internal
+ */
+export function discardIfExpired(message: Message): boolean {
+  if (message instanceof LocalMessage && message.isExpired()) {
+    message.expire()
+    return true
+  }
+  return false
+}
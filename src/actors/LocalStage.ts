@@ -7,6 +7,7 @@
 // See: https://opensource.org/license/rpl-1-5
 
 import { Actor } from './Actor.js'
+import { ActorOptions, isActorOptions } from './ActorOptions.js'
 import { ActorProtocol } from './ActorProtocol.js'
 import { createActorProxy } from './ActorProxy.js'
 import { Address } from './Address.js'
@@ -19,12 +20,17 @@ import { ExecutionContext } from './ExecutionContext.js'
 import { Uuid7Address } from './Uuid7Address.js'
 import { LifeCycle } from './LifeCycle.js'
 import { DefaultLogger, Logger } from './Logger.js'
-import { Mailbox } from './Mailbox.js'
+import { Mailbox, MailboxFactory } from './Mailbox.js'
+import { MailboxMetrics } from './MailboxMetrics.js'
+import { PriorityMailbox } from './PriorityMailbox.js'
 import { Protocol } from './Protocol.js'
+import { ReentrantMailbox } from './ReentrantMailbox.js'
 import { DefaultScheduler, Scheduler } from './Scheduler.js'
 import { StageInternal } from './StageInternal.js'
-import { DefaultSupervisionStrategy, StageSupervisedActor, Supervised, Supervisor, SupervisionScope, SupervisionStrategy } from './Supervisor.js'
+import { SupervisionEvent, SupervisionEvents, SupervisionEventType } from './SupervisionEvents.js'
+import { DefaultSupervisionStrategy, StageSupervisedActor, Supervised, Supervisor, SupervisionDirective, SupervisionScope, SupervisionStrategy } from './Supervisor.js'
 import { INTERNAL_ENVIRONMENT_ACCESS, InternalActorAccess } from './InternalAccess.js'
+import { WaitForGraph } from './WaitForGraph.js'
 
 /**
  * Local implementation of the Stage actor system runtime.
@@ -46,22 +52,41 @@ import { INTERNAL_ENVIRONMENT_ACCESS, InternalActorAccess } from './InternalAcce
  * This is the default Stage implementation, instantiated as DefaultStage.
  */
 export class LocalStage implements StageInternal {
+  /** Default number of messages a mailbox delivers in a row before yielding */
+  static DefaultThroughput = 100
+
   /** Dead letters facility for undeliverable messages */
   private _deadLetters: DeadLetters
   /** Stage logger for system-level logging */
   private _logger: Logger
   /** Scheduler for delayed/periodic tasks */
   private _scheduler: Scheduler
+  /** Supervision event stream and failure history */
+  private _supervisionEvents: SupervisionEvents
   /** Registry of named supervisors (for root actors only) */
   private _supervisors: Map<string, Supervisor>
+  /** Registry of named mailbox factories */
+  private _mailboxFactories: Map<string, MailboxFactory>
   /** Actor directory for address-based lookup */
   private _directory: Directory
   /** Default parent (PublicRootActor) for user-created actors */
   private _defaultParent?: ActorProtocol
+  /** PrivateRootActor, the supervisor to which escalation ends */
+  private _privateRoot?: Supervisor
   /** Flag to ensure root actors are initialized only once */
   private _rootActorsInitialized: boolean = false
   /** Registry for runtime values (database instances, config, etc.) */
   private _registeredValues: Map<string, any> = new Map()
+  /** Actors awaiting answers from other actors, for deadlock detection */
+  private _waitForGraph: WaitForGraph = new WaitForGraph()
+  /** Whether messages that would deadlock are rejected */
+  private _detectsDeadlocks: boolean = false
+  /** Whether undelivered messages are resolved with strings rather than rejected */
+  private _resolvesUndelivered: boolean = false
+  /** Messages a mailbox delivers in a row before yielding to the event loop */
+  private _throughput: number = LocalStage.DefaultThroughput
+  /** Whether the mailboxes of actors collect metrics */
+  private _mailboxMetricsEnabled: boolean = false
 
   /**
    * Creates a new local stage instance.
@@ -74,7 +99,14 @@ export class LocalStage implements StageInternal {
     this._deadLetters = new DeadLetters()
     this._logger = DefaultLogger
     this._scheduler = new DefaultScheduler()
+    this._supervisionEvents = new SupervisionEvents(this._logger)
     this._supervisors = new Map<string, Supervisor>()
+    this._mailboxFactories = new Map<string, MailboxFactory>([
+      ['default', () => new ArrayMailbox()],
+      ['array', () => new ArrayMailbox()],
+      ['priority', () => new PriorityMailbox()],
+      ['reentrant', () => new ReentrantMailbox()]
+    ])
     this._directory = new Directory(DirectoryConfigs.DEFAULT)
 
     // Create bootstrap supervisor for PrivateRootActor
@@ -103,43 +135,80 @@ export class LocalStage implements StageInternal {
     this._defaultParent = actor
   }
 
+  /**
+   * Creates an actor instance and returns a proxy implementing the protocol interface.
+   *
+   * @param protocol The protocol defining the actor's interface and instantiation logic
+   * @param options The actor's mailbox, supervisor, parent, name, address and parameters
+   * @returns A proxy implementing the protocol interface
+   */
+  actorFor<T, P extends any[] = any[]>(protocol: Protocol<P, T>, options?: ActorOptions<NoInfer<P>>): T
   /**
    * Creates an actor instance and returns a proxy implementing the protocol interface.
    *
    * @param protocol The protocol defining the actor's interface and instantiation logic
    * @param parent The parent actor (optional, defaults to root)
    * @param supervisorName The supervisor name (optional, defaults to 'default')
-   * @param mailbox The mailbox for the actor (optional, defaults to ArrayMailbox)
+   * @param mailbox The mailbox for the actor (optional, defaults to the 'default' mailbox),
+   *   or the first constructor parameter if it is not a mailbox
    * @param parameters Constructor parameters for the actor
    * @returns A proxy implementing the protocol interface
    */
+  actorFor<T>(protocol: Protocol<any[], T>, parent?: ActorProtocol, supervisorName?: string, mailbox?: Mailbox, ...parameters: any[]): T
   actorFor<T>(
     protocol: Protocol,
-    parent?: ActorProtocol,
+    parentOrOptions?: ActorProtocol | ActorOptions,
     supervisorName?: string,
     mailbox?: Mailbox,
     ...parameters: any[]
   ): T {
-    const address = Uuid7Address.unique()
+    if (isActorOptions(parentOrOptions)) {
+      return this.actorWith<T>(protocol, parentOrOptions)
+    }
+
+    const parent = parentOrOptions
 
     // Handle parameter ambiguity: if 'mailbox' doesn't look like a Mailbox,
     // treat it as a constructor parameter instead
-    let actualMailbox: Mailbox
-    let actualParameters: any[]
-
     if (mailbox && typeof mailbox === 'object' && 'send' in mailbox && 'receive' in mailbox) {
       // It's a Mailbox
-      actualMailbox = mailbox
-      actualParameters = parameters
-    } else {
-      // It's a constructor parameter (or undefined)
-      actualMailbox = new ArrayMailbox()
-      actualParameters = mailbox !== undefined ? [mailbox, ...parameters] : parameters
+      return this.actorWith<T>(protocol, { parent, supervisor: supervisorName, mailbox, parameters })
+    }
+
+    // It's a constructor parameter (or undefined)
+    return this.actorWith<T>(protocol, {
+      parent,
+      supervisor: supervisorName,
+      parameters: mailbox !== undefined ? [mailbox, ...parameters] : parameters
+    })
+  }
+
+  /**
+   * Creates an actor instance as given by the options and returns a
+   * proxy implementing the protocol interface.
+   *
+   * @param protocol The protocol defining the actor's interface and instantiation logic
+   * @param options The actor's mailbox, supervisor, parent, name, address and parameters
+   * @returns A proxy implementing the protocol interface
+   * @throws Error if the options name a mailbox factory not registered,
+   * or give the address of an existing actor
+   */
+  private actorWith<T>(protocol: Protocol, options: ActorOptions): T {
+    if (options.address && this._directory.get(options.address)) {
+      throw new Error(`Actor already exists at address: ${options.address.valueAsString()}`)
     }
 
+    const address = options.address ?? Uuid7Address.unique()
+    const parent = options.parent
+    const supervisorName = options.supervisor
+    const actualParameters = options.parameters ?? []
+    const actualMailbox = typeof options.mailbox === 'string' || options.mailbox === undefined
+      ? this.mailbox(options.mailbox)
+      : options.mailbox
+
     // 1. Create Definition (instantiation metadata)
     const definition = new Definition(
-      protocol.type(),
+      options.name ?? protocol.type(),
       address,
       actualParameters
     )
@@ -153,18 +222,19 @@ export class LocalStage implements StageInternal {
       this,
       address,
       definition,
+      protocol,
       actualParent,
       actualMailbox,
       DefaultLogger,
       supervisorName || 'default'
     )
 
-    // Call setCurrentEnvironment() before actor construction
-    Environment.setCurrentEnvironment(environment)
+    if (this._mailboxMetricsEnabled) {
+      actualMailbox.metrics?.().enable()
+    }
 
     // 4. Delegate to protocol's instantiator to create the actor instance
-    const instantiator = protocol.instantiator()
-    const actor = instantiator.instantiate(definition)
+    const actor = this.instantiate(environment)
 
     // 5. Create proxy that wraps the actor and implements the protocol interface
     const actorProxy = createActorProxy<any>(actor, environment.mailbox())
@@ -247,11 +317,44 @@ export class LocalStage implements StageInternal {
     return this._deadLetters
   }
 
+  /**
+   * Returns the supervision event stream and failure history for this stage.
+   * @returns SupervisionEvents instance
+   */
+  supervisionEvents(): SupervisionEvents {
+    return this._supervisionEvents
+  }
+
+  /**
+   * Returns PrivateRootActor, the supervisor to which escalation ends.
+   * Initializes the root actors if needed.
+   * @internal - Only for use by StageSupervisedActor
+   * @returns The PrivateRootActor supervisor
+   * @throws Error if the root actors cannot be initialized
+   */
+  privateRoot(): Supervisor {
+    this.defaultParent()
+    if (!this._privateRoot) {
+      throw new Error('PrivateRootActor not initialized - cannot escalate to it')
+    }
+    return this._privateRoot
+  }
+
+  /**
+   * Returns the graph of actors awaiting answers from other actors.
+   * @internal - Only for use by ActorProxy
+   * @returns WaitForGraph instance
+   */
+  waitForGraph(): WaitForGraph {
+    return this._waitForGraph
+  }
+
   /**
    * Delegates actor failure handling to the appropriate supervisor.
    *
-   * Gets the actor's supervisor and informs it of the failure.
-   * The supervisor will decide how to handle the error (restart/resume/stop/escalate).
+   * Publishes a Failed supervision event, then gets the actor's supervisor
+   * and informs it of the failure. The supervisor will decide how to handle
+   * the error (restart/resume/stop/escalate).
    *
    * If the supervisor itself fails, logs the error (supervisor failures are terminal).
    *
@@ -260,6 +363,8 @@ export class LocalStage implements StageInternal {
    * @param supervised The supervised actor that failed
    */
   handleFailureOf(supervised: StageSupervisedActor): void {
+    this._supervisionEvents.publish(SupervisionEvent.of(SupervisionEventType.Failed, supervised))
+
     // Get the supervisor and inform it of the failure
     const supervisor = supervised.supervisor()
 
@@ -295,13 +400,30 @@ export class LocalStage implements StageInternal {
   }
 
   /**
-   * Creates a new mailbox for an actor.
+   * Creates a new mailbox for an actor with the named mailbox factory.
    * Returns an unbounded ArrayMailbox by default.
    *
-   * @returns New ArrayMailbox instance
+   * @param name Mailbox factory name (defaults to 'default')
+   * @returns New mailbox instance
+   * @throws Error if no mailbox factory is registered with the name
+   */
+  mailbox(name: string = 'default'): Mailbox {
+    const factory = this._mailboxFactories.get(name)
+    if (!factory) {
+      throw new Error(`Mailbox factory not registered: ${name}`)
+    }
+    return factory()
+  }
+
+  /**
+   * Registers a mailbox factory with a given name, replacing any
+   * registered with the name before.
+   *
+   * @param name Mailbox factory name
+   * @param factory Mailbox factory
    */
-  mailbox(): Mailbox {
-    return new ArrayMailbox()
+  registerMailboxFactory(name: string, factory: MailboxFactory): void {
+    this._mailboxFactories.set(name, factory)
   }
 
   /**
@@ -312,6 +434,89 @@ export class LocalStage implements StageInternal {
     return this._scheduler
   }
 
+  /**
+   * Returns whether undelivered messages are resolved with strings.
+   * @returns true if resolved, false if rejected
+   */
+  resolvesUndelivered(): boolean {
+    return this._resolvesUndelivered
+  }
+
+  /**
+   * Sets whether undelivered messages are resolved with strings.
+   * @param resolves true to resolve, false to reject
+   */
+  setResolvesUndelivered(resolves: boolean): void {
+    this._resolvesUndelivered = resolves
+  }
+
+  /**
+   * Returns whether messages that would deadlock are rejected.
+   * @returns true if deadlocks are detected
+   */
+  detectsDeadlocks(): boolean {
+    return this._detectsDeadlocks
+  }
+
+  /**
+   * Sets whether messages that would deadlock are rejected.
+   * @param detects true to detect deadlocks
+   */
+  setDetectsDeadlocks(detects: boolean): void {
+    this._detectsDeadlocks = detects
+  }
+
+  /**
+   * Returns the number of messages a mailbox delivers before yielding.
+   * @returns Number of messages
+   */
+  throughput(): number {
+    return this._throughput
+  }
+
+  /**
+   * Sets the number of messages a mailbox delivers before yielding.
+   * @param throughput Number of messages
+   * @throws Error if throughput is not positive
+   */
+  setThroughput(throughput: number): void {
+    if (!(throughput > 0)) {
+      throw new Error(`Throughput must be positive: ${throughput}`)
+    }
+    this._throughput = throughput
+  }
+
+  /**
+   * Returns whether the mailboxes of actors collect metrics.
+   * @returns true if enabled, otherwise false
+   */
+  mailboxMetricsEnabled(): boolean {
+    return this._mailboxMetricsEnabled
+  }
+
+  /**
+   * Sets whether the mailboxes of existing and new actors collect metrics.
+   * @param enabled true to collect metrics, false to stop collecting them
+   */
+  setMailboxMetricsEnabled(enabled: boolean): void {
+    this._mailboxMetricsEnabled = enabled
+    for (const metrics of this._directory.allMailboxMetrics()) {
+      if (enabled) {
+        metrics.enable()
+      } else {
+        metrics.disable()
+      }
+    }
+  }
+
+  /**
+   * Returns the metrics of the mailboxes of all actors combined.
+   * @returns Combined mailbox metrics
+   */
+  mailboxMetrics(): MailboxMetrics {
+    return this._directory.mailboxMetrics()
+  }
+
   /**
    * Registers a supervisor with a given name.
    * Multiple actors can share the same supervisor by using the same name.
@@ -377,6 +582,39 @@ export class LocalStage implements StageInternal {
     return value
   }
 
+  /**
+   * Re-instantiates the actor of the given environment for restart.
+   *
+   * The new instance is created by the environment's protocol with the
+   * stored definition parameters, and replaces the previous instance
+   * behind the existing proxy. If the previous instance answers a state
+   * snapshot, the snapshot is handed to the new instance.
+   *
+   * If instantiation fails, the previous instance remains in place and
+   * the error is thrown to the caller.
+   *
+   * @param environment The environment of the actor being restarted
+   * @returns The new actor instance
+   */
+  recreateActor(environment: Environment): Actor {
+    const previous = environment.actor()
+    const stateSnapshot = previous.stateSnapshot<unknown>()
+
+    let actor: Actor
+    try {
+      actor = this.instantiate(environment)
+    } catch (error: any) {
+      environment.setActor(previous)
+      throw error
+    }
+
+    if (stateSnapshot !== undefined) {
+      actor.stateSnapshot(stateSnapshot)
+    }
+
+    return actor
+  }
+
   /**
    * Removes an actor from the directory.
    * This is typically called internally when an actor is stopped.
@@ -581,6 +819,34 @@ export class LocalStage implements StageInternal {
     }
   }
 
+  /**
+   * Instantiates the actor for an environment using its protocol and definition.
+   *
+   * Sets the current environment before construction so the Actor constructor
+   * can retrieve it, and clears it afterwards even if instantiation fails.
+   * Records the new instance in the environment.
+   *
+   * @param environment The environment of the actor to instantiate
+   * @returns The new actor instance
+   */
+  private instantiate(environment: Environment): Actor {
+    // Call setCurrentEnvironment() before actor construction
+    Environment.setCurrentEnvironment(environment)
+
+    let actor: Actor
+    try {
+      const instantiator = environment.protocol().instantiator()
+      actor = instantiator.instantiate(environment.definition())
+    } finally {
+      // The instantiator may fail before the Actor constructor retrieves it
+      Environment.clearCurrentEnvironment()
+    }
+
+    environment.setActor(actor)
+
+    return actor
+  }
+
   /**
    * Initializes the root actor hierarchy:
    * PrivateRootActor (ultimate root) -> PublicRootActor (default parent for user actors)
@@ -592,8 +858,8 @@ export class LocalStage implements StageInternal {
    * - PrivateRootActor: type = '__privateRoot'
    * - PublicRootActor: type = '__publicRoot'
    *
-   * We don't keep separate instance variables for them since they're already in the directory.
-   * Only _defaultParent is kept as an instance variable since it's used in defaultParent() method.
+   * We don't keep separate instance variables for them since they're already in the directory,
+   * except _defaultParent, used by defaultParent(), and _privateRoot, used by privateRoot().
    */
   private initializeRootActors(): void {
     if (this._rootActorsInitialized) return
@@ -629,6 +895,9 @@ export class LocalStage implements StageInternal {
           `PrivateRootActor: Failure of: ${supervised.address().valueAsString()} because: ${error.message} Action: Stopping.`,
           error
         )
+        this.stage().supervisionEvents().publish(
+          SupervisionEvent.of(SupervisionEventType.Directed, supervised, SupervisionDirective.Stop)
+        )
         supervised.stop(this._strategy.scope())
       }
 
@@ -643,8 +912,6 @@ export class LocalStage implements StageInternal {
 
     // Define PublicRootActor inline to avoid circular dependency
     class PublicRootActorImpl extends ActorBase implements Supervisor {
-      private _self!: Supervisor
-
       private readonly _supervisionStrategy: SupervisionStrategy = new class extends SupervisionStrategy {
         intensity(): number { return SupervisionStrategy.ForeverIntensity }
         period(): number { return SupervisionStrategy.ForeverPeriod }
@@ -653,9 +920,6 @@ export class LocalStage implements StageInternal {
 
       constructor() {
         super()
-        setTimeout(() => {
-          this._self = this.selfAs<Supervisor>()
-        }, 0)
       }
 
       beforeStart(): void {
@@ -674,6 +938,9 @@ export class LocalStage implements StageInternal {
           `PublicRootActor: Failure of: ${supervised.address().valueAsString()} because: ${error.message} Action: Restarting.`,
           error
         )
+        this.stage().supervisionEvents().publish(
+          SupervisionEvent.of(SupervisionEventType.Directed, supervised, SupervisionDirective.Restart)
+        )
         supervised.restartWithin(
           this._supervisionStrategy.period(),
           this._supervisionStrategy.intensity(),
@@ -686,7 +953,7 @@ export class LocalStage implements StageInternal {
       }
 
       supervisor(): Supervisor {
-        return this._self
+        return this.lifeCycle().environment().supervisor()
       }
     }
 
@@ -698,7 +965,7 @@ export class LocalStage implements StageInternal {
       type: () => '__privateRoot'
     }
 
-    const privateRoot = this.actorFor<ActorProtocol>(
+    const privateRoot = this.actorFor<ActorProtocol & Supervisor>(
       privateRootProtocol,
       undefined,  // No parent (it's the root)
       'private-root-supervisor'  // Uses bootstrap supervisor
@@ -718,8 +985,9 @@ export class LocalStage implements StageInternal {
       '__privateRoot'   // supervisor = PrivateRootActor
     )
 
-    // 3. Set as default parent for user actors
+    // 3. Set as default parent for user actors, and keep the supervisor of last resort
     this._defaultParent = publicRoot
+    this._privateRoot = privateRoot
   }
 
   /**
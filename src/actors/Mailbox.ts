@@ -6,8 +6,22 @@
 // See: LICENSE.md in repository root directory
 // See: https://opensource.org/license/rpl-1-5
 
+import { MailboxMetrics } from "./MailboxMetrics.js"
 import { Message } from "./Message.js"
 
+/**
+ * Creates a new mailbox for each actor that uses it.
+ * Registered with the stage by name; see Stage.registerMailboxFactory().
+ */
+export type MailboxFactory = () => Mailbox
+
+/**
+ * Method names of system messages, which mailboxes may treat specially,
+ * such as delivering them first or never concurrently with others.
+ * @internal
+ */
+export const SystemSelectors: ReadonlySet<string> = new Set(['start', 'stop', 'inform', 'onTerminated'])
+
 /**
  * Message queue for an actor.
  *
@@ -81,4 +95,30 @@ export interface Mailbox {
    * @param message The message to send
    */
   send(message: Message): void
+
+  /**
+   * Enqueues messages ahead of all queued messages, in the given order.
+   * Used to return stashed messages to the actor; see Actor.unstashAll().
+   * Triggers dispatch if mailbox is not suspended.
+   * @param messages The messages to enqueue first
+   */
+  prepend?(messages: Message[]): void
+
+  /**
+   * Answers a promise that resolves once a message sent would be queued
+   * without overflow. Implemented by mailboxes with a capacity; see
+   * BoundedMailbox.
+   * @param maxWait Maximum time (ms) to wait (default: no limit)
+   * @returns Promise resolving to true when writable, or to false if
+   * maxWait elapses first or the mailbox is closed
+   */
+  whenWritable?(maxWait?: number): Promise<boolean>
+
+  /**
+   * Returns the metrics of this mailbox: its depth, wait and handler
+   * times, and processed, failed and dropped counts. Metrics are
+   * disabled until enabled; see MailboxMetrics.
+   * @returns Mailbox metrics
+   */
+  metrics?(): MailboxMetrics
 }
\ No newline at end of file
@@ -0,0 +1,242 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { Histogram } from './Histogram.js'
+import { Message } from './Message.js'
+
+/**
+ * Metrics of a mailbox: its depth, how long messages wait in it, how
+ * long their handlers take, and how many are processed, fail or are
+ * dropped.
+ *
+ * Metrics are disabled by default, in which case recording returns at
+ * once. Enable them per mailbox, or for all actors with
+ * stage().setMailboxMetricsEnabled(true). Values are collected from the
+ * time metrics are enabled.
+ *
+ * ```typescript
+ * const mailbox = new ArrayMailbox()
+ * mailbox.metrics().enable()
+ * // ...
+ * console.log(mailbox.metrics().waitTime().percentile(99))
+ * ```
+ */
+export class MailboxMetrics {
+  private _enabled = false
+  private _depth = 0
+  private _peakDepth = 0
+  private _processedCount = 0
+  private _failedCount = 0
+  private _droppedCount = 0
+  private _waitTime = new Histogram()
+  private _processingTimes = new Map<string, Histogram>()
+  private _queuedAt = new WeakMap<Message, number>()
+
+  /**
+   * Answers the metrics of all the given mailboxes combined. Depths are
+   * summed; the peak depth is the largest of their peak depths.
+   * @param metrics The metrics to combine
+   * @returns The combined metrics
+   */
+  static merge(metrics: MailboxMetrics[]): MailboxMetrics {
+    const merged = new MailboxMetrics()
+
+    for (const each of metrics) {
+      merged._enabled = merged._enabled || each._enabled
+      merged._depth += each._depth
+      merged._peakDepth = Math.max(merged._peakDepth, each._peakDepth)
+      merged._processedCount += each._processedCount
+      merged._failedCount += each._failedCount
+      merged._droppedCount += each._droppedCount
+      merged._waitTime.merge(each._waitTime)
+      for (const [selector, processingTime] of each._processingTimes) {
+        merged.processingTimeOf(selector).merge(processingTime)
+      }
+    }
+
+    return merged
+  }
+
+  /**
+   * Starts collecting metrics.
+   */
+  enable(): void {
+    this._enabled = true
+  }
+
+  /**
+   * Stops collecting metrics, keeping those collected.
+   */
+  disable(): void {
+    this._enabled = false
+  }
+
+  /**
+   * Returns whether metrics are being collected.
+   * @returns true if enabled, otherwise false
+   */
+  isEnabled(): boolean {
+    return this._enabled
+  }
+
+  /**
+   * Discards the metrics collected, except the current depth.
+   */
+  reset(): void {
+    this._peakDepth = this._depth
+    this._processedCount = 0
+    this._failedCount = 0
+    this._droppedCount = 0
+    this._waitTime = new Histogram()
+    this._processingTimes = new Map()
+  }
+
+  /**
+   * Returns the number of messages queued.
+   * @returns Current depth
+   */
+  depth(): number {
+    return this._depth
+  }
+
+  /**
+   * Returns the largest number of messages queued at once.
+   * @returns Peak depth
+   */
+  peakDepth(): number {
+    return this._peakDepth
+  }
+
+  /**
+   * Returns the number of messages whose handlers completed.
+   * @returns Processed count
+   */
+  processedCount(): number {
+    return this._processedCount
+  }
+
+  /**
+   * Returns the number of messages whose handlers failed.
+   * @returns Failed count
+   */
+  failedCount(): number {
+    return this._failedCount
+  }
+
+  /**
+   * Returns the number of messages dropped on overflow.
+   * @returns Dropped count
+   */
+  droppedCount(): number {
+    return this._droppedCount
+  }
+
+  /**
+   * Returns the times (ms) from messages being queued to their
+   * handlers starting.
+   * @returns Wait time histogram
+   */
+  waitTime(): Histogram {
+    return this._waitTime
+  }
+
+  /**
+   * Returns the durations (ms) of the handlers of a method.
+   * @param selector The method name (e.g., 'deposit')
+   * @returns Processing time histogram, or undefined if none recorded
+   */
+  processingTime(selector: string): Histogram | undefined {
+    return this._processingTimes.get(selector)
+  }
+
+  /**
+   * Returns the names of the methods whose handler durations were recorded.
+   * @returns Method names
+   */
+  selectors(): string[] {
+    return [...this._processingTimes.keys()]
+  }
+
+  /**
+   * Records a message queued, and the depth after queueing it.
+   * @param message The message queued
+   * @param depth The number of messages queued
+   * @internal
+   */
+  recordQueued(message: Message, depth: number): void {
+    if (!this._enabled) return
+    this._queuedAt.set(message, performance.now())
+    this.recordDepth(depth)
+  }
+
+  /**
+   * Records the number of messages queued.
+   * @param depth The number of messages queued
+   * @internal
+   */
+  recordDepth(depth: number): void {
+    if (!this._enabled) return
+    this._depth = depth
+    this._peakDepth = Math.max(this._peakDepth, depth)
+  }
+
+  /**
+   * Records the handler of a message starting, and how long the
+   * message waited since it was queued.
+   * @param message The message being delivered
+   * @internal
+   */
+  recordStarted(message: Message): void {
+    if (!this._enabled) return
+    const queuedAt = this._queuedAt.get(message)
+    if (queuedAt !== undefined) {
+      this._queuedAt.delete(message)
+      this._waitTime.record(performance.now() - queuedAt)
+    }
+  }
+
+  /**
+   * Records the handler of a message completing or failing.
+   * @param selector The method name
+   * @param duration The duration (ms) of the handler
+   * @param failed Whether the handler failed
+   * @internal
+   */
+  recordProcessed(selector: string, duration: number, failed: boolean): void {
+    if (!this._enabled) return
+    if (failed) {
+      this._failedCount++
+    } else {
+      this._processedCount++
+    }
+    this.processingTimeOf(selector).record(duration)
+  }
+
+  /**
+   * Records a message dropped on overflow.
+   * @internal
+   */
+  recordDropped(): void {
+    if (!this._enabled) return
+    this._droppedCount++
+  }
+
+  /**
+   * Answers the processing time histogram of a method, creating it if needed.
+   * @param selector The method name
+   * @returns Processing time histogram
+   */
+  private processingTimeOf(selector: string): Histogram {
+    let processingTime = this._processingTimes.get(selector)
+    if (!processingTime) {
+      processingTime = new Histogram()
+      this._processingTimes.set(selector, processingTime)
+    }
+    return processingTime
+  }
+}
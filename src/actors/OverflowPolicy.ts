@@ -26,5 +26,12 @@ export enum OverflowPolicy {
    * Reject the new message by sending it to dead letters.
    * Useful for strict message delivery guarantees.
    */
-  Reject
+  Reject,
+
+  /**
+   * Hold the new message until the queue has room, so its sender's
+   * promise is answered only once the message is accepted and processed.
+   * Useful when producers must be slowed down rather than lose messages.
+   */
+  Backpressure
 }
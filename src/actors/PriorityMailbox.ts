@@ -0,0 +1,352 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { DeadLetter } from "./DeadLetters.js"
+import { applyTimeToLive, discardIfExpired, LocalMessage } from "./LocalMessage.js"
+import { Mailbox, SystemSelectors } from "./Mailbox.js"
+import { MailboxMetrics } from "./MailboxMetrics.js"
+import { Message, EmptyMessage } from "./Message.js"
+import { answerStopped } from "./Undelivered.js"
+import { throughputOf, yieldToEventLoop } from "./Throughput.js"
+
+/**
+ * A queued message with its priority and arrival sequence.
+ */
+interface PrioritizedMessage {
+  message: Message
+  priority: number
+  sequence: number
+}
+
+/**
+ * Unbounded mailbox delivering messages by priority.
+ *
+ * The priority of a message is the one given by its sender with
+ * withPriority(), or else the priority of its method name, or else the
+ * default priority. Messages of higher priority are delivered first, and
+ * messages of the same priority in the order they were sent. System
+ * messages (start, stop, supervision, and termination notices) are always
+ * delivered before all others.
+ *
+ * Messages are kept in a binary heap, so sending and receiving take
+ * logarithmic time in the number of queued messages.
+ *
+ * @example
+ * ```typescript
+ * const mailbox = new PriorityMailbox({ cancel: 10, audit: -5 })
+ * const orders = stage().actorFor<Orders>(OrdersProtocol, undefined, 'default', mailbox)
+ * ```
+ */
+export class PriorityMailbox implements Mailbox {
+  /** Method names of system messages, which are delivered first */
+  static SystemSelectors: ReadonlySet<string> = SystemSelectors
+
+  /** Priority of system messages */
+  static SystemPriority = Number.MAX_SAFE_INTEGER
+
+  private closed: boolean
+  private dispatching: boolean
+  private suspended: boolean
+  private heap: PrioritizedMessage[]
+  private sequence: number
+  private headSequence: number
+  private readonly priorities: Map<string, number>
+  private readonly defaultPriority: number
+  private readonly ttl?: number
+  private readonly throughput?: number
+  private readonly _metrics = new MailboxMetrics()
+
+  /**
+   * Creates a priority mailbox.
+   *
+   * @param priorities Priorities by method name; higher is delivered first
+   * @param defaultPriority Priority of messages whose method has none (default: 0)
+   * @param ttl Default time (ms) within which messages must be received (default: none)
+   * @param throughput Messages delivered in a row before yielding to the event loop (default: the stage's)
+   * @throws Error if ttl or throughput is not positive
+   */
+  constructor(priorities: Record<string, number> = {}, defaultPriority: number = 0, ttl?: number, throughput?: number) {
+    if (ttl !== undefined && ttl <= 0) {
+      throw new Error('Mailbox time to live must be positive')
+    }
+    if (throughput !== undefined && !(throughput > 0)) {
+      throw new Error('Mailbox throughput must be positive')
+    }
+    this.closed = false
+    this.dispatching = false
+    this.suspended = false
+    this.heap = []
+    this.sequence = 0
+    this.headSequence = -1
+    this.priorities = new Map(Object.entries(priorities))
+    this.defaultPriority = defaultPriority
+    this.ttl = ttl
+    this.throughput = throughput
+  }
+
+  /**
+   * Closes the mailbox, preventing further message delivery.
+   * Messages sent after close are routed to dead letters.
+   */
+  close(): void {
+    this.closed = true
+  }
+
+  /**
+   * Returns whether the mailbox is closed.
+   * @returns true if closed, false otherwise
+   */
+  isClosed(): boolean {
+    return this.closed
+  }
+
+  /**
+   * Suspends message processing.
+   * Messages can still be queued but won't be delivered until resumed.
+   */
+  suspend(): void {
+    this.suspended = true
+  }
+
+  /**
+   * Resumes message processing after suspension.
+   * Triggers dispatch if messages are queued.
+   */
+  resume(): void {
+    this.suspended = false
+    if (this.isReceivable()) {
+      this.dispatch()
+    }
+  }
+
+  /**
+   * Returns whether the mailbox is currently suspended.
+   * @returns true if suspended, false otherwise
+   */
+  isSuspended(): boolean {
+    return this.suspended
+  }
+
+  /**
+   * Self-draining async message delivery, one message at a time in
+   * priority order. Only one dispatch loop runs at a time, yielding to
+   * the event loop after each throughput of messages.
+   */
+  async dispatch(): Promise<void> {
+    if (this.dispatching) return
+    this.dispatching = true
+    try {
+      let delivered = 0
+      while (this.isReceivable()) {
+        const message = this.receive()
+        if (!message.isDeliverable()) {
+          break
+        }
+        await message.deliver()
+        // Let timers, I/O, and other actors have their turn
+        if (++delivered >= throughputOf(message, this.throughput)) {
+          delivered = 0
+          await yieldToEventLoop()
+        }
+      }
+    } finally {
+      this.dispatching = false
+    }
+  }
+
+  /**
+   * Checks if the mailbox can deliver messages: it is open, not
+   * suspended, and has at least one queued message.
+   * @returns true if messages can be delivered, false otherwise
+   */
+  isReceivable(): boolean {
+    return !this.isClosed() && !this.isSuspended() && this.heap.length > 0
+  }
+
+  /**
+   * Dequeues and returns the queued message of highest priority.
+   * Withdrawn messages are skipped, and expired messages discarded.
+   * Returns EmptyMessage if the queue is empty.
+   *
+   * @returns The next message or EmptyMessage if queue is empty
+   */
+  receive(): Message {
+    while (this.heap.length > 0) {
+      const message = this.removeFirst().message
+      if (message.isDeliverable() && !discardIfExpired(message)) {
+        this._metrics.recordDepth(this.heap.length)
+        return message
+      }
+    }
+
+    this._metrics.recordDepth(0)
+
+    return EmptyMessage
+  }
+
+  /**
+   * Enqueues a message by its priority.
+   *
+   * Behavior:
+   * - If closed: Routes message to dead letters and rejects with ActorStoppedError
+   * - If suspended: Queues message but does not trigger dispatch
+   * - Otherwise: Queues message and triggers dispatch
+   *
+   * @param message The message to send
+   */
+  send(message: Message): void {
+    if (!this.isClosed()) {
+      applyTimeToLive(message, this.ttl)
+      this.add({ message, priority: this.priorityOf(message), sequence: this.sequence++ })
+      this._metrics.recordQueued(message, this.heap.length)
+      if (!this.isSuspended()) {
+        this.dispatch()
+      }
+    } else {
+      const deadLetter = new DeadLetter(message.to(), message.representation())
+      message.to().stage().deadLetters().failedDelivery(deadLetter)
+      answerStopped(message)
+    }
+  }
+
+  /**
+   * Enqueues messages ahead of all queued messages, in the given order.
+   *
+   * Behavior:
+   * - If closed: Routes each message to dead letters and rejects with ActorStoppedError
+   * - If suspended: Queues messages but does not trigger dispatch
+   * - Otherwise: Queues messages and triggers dispatch
+   *
+   * Each message precedes the queued messages of its own priority;
+   * messages of higher priority are still delivered first.
+   *
+   * @param messages The messages to enqueue first
+   */
+  prepend(messages: Message[]): void {
+    if (!this.isClosed()) {
+      // Sequences below all others, counting down, keep the messages in order
+      for (let index = messages.length - 1; index >= 0; index--) {
+        const message = messages[index]!
+        this.add({ message, priority: this.priorityOf(message), sequence: this.headSequence-- })
+      }
+      this._metrics.recordDepth(this.heap.length)
+      // Only dispatch if not suspended
+      if (!this.isSuspended()) {
+        this.dispatch()
+      }
+    } else {
+      for (const message of messages) {
+        const deadLetter = new DeadLetter(message.to(), message.representation())
+        message.to().stage().deadLetters().failedDelivery(deadLetter)
+        answerStopped(message)
+      }
+    }
+  }
+
+  /**
+   * Returns the metrics of this mailbox, disabled until enabled.
+   * @returns Mailbox metrics
+   */
+  metrics(): MailboxMetrics {
+    return this._metrics
+  }
+
+  /**
+   * Returns the number of queued messages, including any withdrawn
+   * messages not yet skipped.
+   * @returns Number of queued messages
+   */
+  size(): number {
+    return this.heap.length
+  }
+
+  /**
+   * Returns the priority of the message.
+   * Override to derive priorities otherwise.
+   *
+   * @param message The message
+   * @returns The priority; higher is delivered first
+   */
+  protected priorityOf(message: Message): number {
+    if (!(message instanceof LocalMessage)) {
+      return this.defaultPriority
+    }
+
+    const selector = message.selector()
+
+    if (SystemSelectors.has(selector)) {
+      return PriorityMailbox.SystemPriority
+    }
+
+    const given = message.priority()
+    if (given !== undefined) {
+      return Math.min(given, PriorityMailbox.SystemPriority - 1)
+    }
+
+    return this.priorities.get(selector) ?? this.defaultPriority
+  }
+
+  /**
+   * Adds the entry to the heap.
+   * @param entry The entry to add
+   */
+  private add(entry: PrioritizedMessage): void {
+    const heap = this.heap
+    let index = heap.length
+    heap.push(entry)
+
+    // Sift up
+    while (index > 0) {
+      const parent = (index - 1) >> 1
+      if (!this.precedes(entry, heap[parent]!)) break
+      heap[index] = heap[parent]!
+      index = parent
+    }
+    heap[index] = entry
+  }
+
+  /**
+   * Removes and returns the entry that precedes all others.
+   * @returns The first entry
+   */
+  private removeFirst(): PrioritizedMessage {
+    const heap = this.heap
+    const first = heap[0]!
+    const last = heap.pop()!
+
+    if (heap.length > 0) {
+      // Sift down
+      let index = 0
+      const length = heap.length
+      while (true) {
+        const left = 2 * index + 1
+        if (left >= length) break
+        const right = left + 1
+        const child = right < length && this.precedes(heap[right]!, heap[left]!) ? right : left
+        if (!this.precedes(heap[child]!, last)) break
+        heap[index] = heap[child]!
+        index = child
+      }
+      heap[index] = last
+    }
+
+    return first
+  }
+
+  /**
+   * Answers whether one entry is delivered before another: by higher
+   * priority, then by earlier arrival.
+   * @param entry The entry
+   * @param other The other entry
+   * @returns true if entry precedes other
+   */
+  private precedes(entry: PrioritizedMessage, other: PrioritizedMessage): boolean {
+    return entry.priority > other.priority ||
+      (entry.priority === other.priority && entry.sequence < other.sequence)
+  }
+}
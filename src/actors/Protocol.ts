@@ -24,13 +24,13 @@ import { Definition } from './Definition.js'
  * }
  * ```
  */
-export interface ProtocolInstantiator {
+export interface ProtocolInstantiator<P extends any[] = any[], I = any> {
   /**
    * Creates an actor instance from the given definition.
    * @param definition Metadata containing type, address, and constructor parameters
    * @returns New actor instance (not proxied)
    */
-  instantiate(definition: Definition): Actor
+  instantiate(definition: Definition<P>): Actor & I
 }
 
 /**
@@ -40,7 +40,13 @@ export interface ProtocolInstantiator {
  * - How to create instances of the actor (instantiator)
  * - The actor's type identifier (type)
  *
- * Passed to stage.actorFor() to create typed actor proxies.
+ * Passed to stage.actorFor() to create typed actor proxies. A protocol
+ * typed with its actor's constructor parameters, P, has them checked
+ * when given as ActorOptions parameters. A protocol typed with its
+ * interface, I, gives actorFor() the type of the proxy.
+ *
+ * Rather than written by hand, a protocol may be made from its actor
+ * class with Protocol.of() or protocolFor(), which infer both.
  *
  * @example
  * ```typescript
@@ -53,17 +59,94 @@ export interface ProtocolInstantiator {
  *
  * const counter = stage().actorFor<Counter>(CounterProtocol)
  * ```
+ *
+ * @template P The types of the actor's constructor parameters (default: any)
+ * @template I The protocol interface type (default: any, given by actorFor())
  */
-export interface Protocol {
+export interface Protocol<P extends any[] = any[], I = any> {
   /**
    * Returns the instantiator for creating actor instances.
    * @returns Protocol instantiator
    */
-  instantiator(): ProtocolInstantiator
+  instantiator(): ProtocolInstantiator<P, I>
 
   /**
    * Returns the type identifier for this protocol.
    * @returns Type string (typically matches the actor class name)
    */
   type(): string
-}
\ No newline at end of file
+}
+
+/**
+ * The class of an actor, constructed with parameters of types P.
+ */
+export type ActorClass<A extends Actor = Actor, P extends any[] = any[]> = new (...parameters: P) => A
+
+/**
+ * Options of a protocol made from its actor class.
+ */
+export interface ProtocolOptions {
+  /**
+   * The type identifier of the protocol (default: the class name).
+   * Give one when class names are not stable, such as in minified bundles.
+   */
+  type?: string
+}
+
+/**
+ * Makes protocols from actor classes.
+ */
+export const Protocol = {
+  /**
+   * Answers a protocol that instantiates the actor class with the
+   * definition's parameters, typed with the class's constructor
+   * parameters.
+   *
+   * @example
+   * ```typescript
+   * const CounterProtocol = Protocol.of(CounterActor, { type: 'Counter' })
+   *
+   * const counter: Counter = stage().actorFor(CounterProtocol, { parameters: [10] })
+   * ```
+   *
+   * @param actorClass The actor class
+   * @param options The protocol's type identifier
+   * @returns The protocol of the actor class
+   * @throws Error if no type is given for a class without a name
+   */
+  of<A extends Actor, P extends any[]>(actorClass: ActorClass<A, P>, options: ProtocolOptions = {}): Protocol<P> {
+    const type = options.type ?? actorClass.name
+    if (!type) {
+      throw new Error('Protocol type is required for an actor class without a name')
+    }
+
+    const instantiator: ProtocolInstantiator<P> = {
+      instantiate: (definition: Definition<P>) => new actorClass(...definition.parameters())
+    }
+
+    return {
+      instantiator: () => instantiator,
+      type: () => type
+    }
+  }
+}
+
+/**
+ * Answers a maker of protocols of the interface I from actor classes,
+ * which fails to compile given a class that does not implement I. The
+ * protocols made are typed with I, so actorFor() answers proxies of I
+ * without being given it.
+ *
+ * @example
+ * ```typescript
+ * const CounterProtocol = protocolFor<Counter>()(CounterActor, { type: 'Counter' })
+ *
+ * const counter = stage().actorFor(CounterProtocol, { parameters: [10] })  // Counter
+ * ```
+ *
+ * @template I The protocol interface type
+ * @returns Function making the protocol of an actor class implementing I
+ */
+export function protocolFor<I>(): <A extends Actor & I, P extends any[]>(actorClass: ActorClass<A, P>, options?: ProtocolOptions) => Protocol<P, I> {
+  return (actorClass, options) => Protocol.of(actorClass, options)
+}
@@ -0,0 +1,329 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { DeadLetter } from "./DeadLetters.js"
+import { applyTimeToLive, discardIfExpired, LocalMessage } from "./LocalMessage.js"
+import { Mailbox, SystemSelectors } from "./Mailbox.js"
+import { MailboxMetrics } from "./MailboxMetrics.js"
+import { Message, EmptyMessage } from "./Message.js"
+import { answerStopped } from "./Undelivered.js"
+import { throughputOf, yieldToEventLoop } from "./Throughput.js"
+
+/**
+ * Unbounded FIFO mailbox that lets an actor start new messages while
+ * earlier ones are suspended at an await, for actors that spend most of
+ * their time waiting on I/O.
+ *
+ * Messages start in the order they were sent, but may complete in any
+ * order. At most maxConcurrency reentrant messages are processed at once.
+ * If reentrant methods are named, only messages for those methods are
+ * reentrant (typically read-only queries); every other message waits for
+ * all messages being processed to complete, and is processed alone. System
+ * messages (start, stop, supervision, and termination notices) are never
+ * reentrant.
+ *
+ * Handlers of reentrant messages interleave at each await, so state they
+ * read before an await may have changed after it. The current message's
+ * ExecutionContext, abort signal, and Actor.stash() are only reliable
+ * before a reentrant handler's first await. A failing message suspends
+ * the mailbox for supervision, but does not interrupt the other messages
+ * already being processed.
+ *
+ * The ArrayMailbox, which processes one message at a time, remains the
+ * default.
+ *
+ * @example
+ * ```typescript
+ * // Up to 8 concurrent find() and count(); all other messages exclusive
+ * const mailbox = new ReentrantMailbox(8, ['find', 'count'])
+ * const repository = stage().actorFor<Repository>(RepositoryProtocol, undefined, 'default', mailbox)
+ * ```
+ */
+export class ReentrantMailbox implements Mailbox {
+  /** Default maximum number of messages processed at once */
+  static DefaultMaxConcurrency = 16
+
+  private active: number
+  private closed: boolean
+  private exclusive: boolean
+  private started: number
+  private yielding: boolean
+  private suspended: boolean
+  private queue: Message[]
+  private readonly maxConcurrency: number
+  private readonly reentrant?: ReadonlySet<string>
+  private readonly ttl?: number
+  private readonly throughput?: number
+  private readonly _metrics = new MailboxMetrics()
+
+  /**
+   * Creates a reentrant mailbox.
+   *
+   * @param maxConcurrency Maximum number of messages processed at once (default: 16)
+   * @param reentrant Names of the reentrant methods (default: all methods)
+   * @param ttl Default time (ms) within which messages must be received (default: none)
+   * @param throughput Messages started in a row before yielding to the event loop (default: the stage's)
+   * @throws Error if maxConcurrency, ttl or throughput is not positive
+   */
+  constructor(maxConcurrency: number = ReentrantMailbox.DefaultMaxConcurrency, reentrant?: Iterable<string>, ttl?: number, throughput?: number) {
+    if (maxConcurrency <= 0) {
+      throw new Error('Mailbox max concurrency must be positive')
+    }
+    if (ttl !== undefined && ttl <= 0) {
+      throw new Error('Mailbox time to live must be positive')
+    }
+    if (throughput !== undefined && !(throughput > 0)) {
+      throw new Error('Mailbox throughput must be positive')
+    }
+    this.active = 0
+    this.closed = false
+    this.exclusive = false
+    this.started = 0
+    this.yielding = false
+    this.suspended = false
+    this.queue = []
+    this.maxConcurrency = maxConcurrency
+    this.reentrant = reentrant ? new Set(reentrant) : undefined
+    this.ttl = ttl
+    this.throughput = throughput
+  }
+
+  /**
+   * Closes the mailbox, preventing further message delivery.
+   * Messages sent after close are routed to dead letters.
+   */
+  close(): void {
+    this.closed = true
+  }
+
+  /**
+   * Returns whether the mailbox is closed.
+   * @returns true if closed, false otherwise
+   */
+  isClosed(): boolean {
+    return this.closed
+  }
+
+  /**
+   * Suspends message processing.
+   * Messages can still be queued but won't be delivered until resumed.
+   */
+  suspend(): void {
+    this.suspended = true
+  }
+
+  /**
+   * Resumes message processing after suspension.
+   * Triggers dispatch if messages are queued.
+   */
+  resume(): void {
+    this.suspended = false
+    if (this.isReceivable()) {
+      this.dispatch()
+    }
+  }
+
+  /**
+   * Returns whether the mailbox is currently suspended.
+   * @returns true if suspended, false otherwise
+   */
+  isSuspended(): boolean {
+    return this.suspended
+  }
+
+  /**
+   * Starts delivery of as many queued messages as may be processed at
+   * once, without awaiting their completion. Each completion dispatches
+   * again, so messages queued meanwhile are picked up. After starting its
+   * throughput of messages in a row, dispatch yields to the event loop.
+   */
+  async dispatch(): Promise<void> {
+    while (this.isReceivable() && !this.exclusive && !this.yielding) {
+      const next = this.peek()
+      if (!next) {
+        break
+      }
+
+      const reentrant = this.isReentrant(next)
+
+      if (reentrant ? this.active >= this.maxConcurrency : this.active > 0) {
+        break
+      }
+
+      this.queue.shift()
+      this._metrics.recordDepth(this.queue.length)
+      this.active++
+      this.exclusive = !reentrant
+
+      next.deliver().finally(() => {
+        this.active--
+        if (!reentrant) {
+          this.exclusive = false
+        }
+        this.dispatch()
+      })
+
+      // Let timers, I/O, and other actors have their turn
+      if (++this.started >= throughputOf(next, this.throughput)) {
+        this.started = 0
+        this.yielding = true
+        yieldToEventLoop().then(() => {
+          this.yielding = false
+          this.dispatch()
+        })
+      }
+    }
+
+    // Messages arriving later start a new run
+    if (this.queue.length === 0) {
+      this.started = 0
+    }
+  }
+
+  /**
+   * Checks if the mailbox can deliver messages: it is open, not
+   * suspended, and has at least one queued message.
+   * @returns true if messages can be delivered, false otherwise
+   */
+  isReceivable(): boolean {
+    return !this.isClosed() && !this.isSuspended() && this.queue.length > 0
+  }
+
+  /**
+   * Dequeues and returns the next message in FIFO order.
+   * Withdrawn messages are skipped, and expired messages discarded.
+   * Returns EmptyMessage if the queue is empty.
+   *
+   * @returns The next message or EmptyMessage if queue is empty
+   */
+  receive(): Message {
+    const message = this.peek()
+    if (message) {
+      this.queue.shift()
+      this._metrics.recordDepth(this.queue.length)
+    }
+
+    return message ? message : EmptyMessage
+  }
+
+  /**
+   * Enqueues a message for delivery to the actor.
+   *
+   * Behavior:
+   * - If closed: Routes message to dead letters and rejects with ActorStoppedError
+   * - If suspended: Queues message but does not trigger dispatch
+   * - Otherwise: Queues message and triggers dispatch
+   *
+   * @param message The message to send
+   */
+  send(message: Message): void {
+    if (!this.isClosed()) {
+      applyTimeToLive(message, this.ttl)
+      this.queue.push(message)
+      this._metrics.recordQueued(message, this.queue.length)
+      // Only dispatch if not suspended
+      if (!this.isSuspended()) {
+        this.dispatch()
+      }
+    } else {
+      const deadLetter = new DeadLetter(message.to(), message.representation())
+      message.to().stage().deadLetters().failedDelivery(deadLetter)
+      answerStopped(message)
+    }
+  }
+
+  /**
+   * Enqueues messages ahead of all queued messages, in the given order.
+   *
+   * Behavior:
+   * - If closed: Routes each message to dead letters and rejects with ActorStoppedError
+   * - If suspended: Queues messages but does not trigger dispatch
+   * - Otherwise: Queues messages and triggers dispatch
+   *
+   * @param messages The messages to enqueue first
+   */
+  prepend(messages: Message[]): void {
+    if (!this.isClosed()) {
+      this.queue.unshift(...messages)
+      this._metrics.recordDepth(this.queue.length)
+      // Only dispatch if not suspended
+      if (!this.isSuspended()) {
+        this.dispatch()
+      }
+    } else {
+      for (const message of messages) {
+        const deadLetter = new DeadLetter(message.to(), message.representation())
+        message.to().stage().deadLetters().failedDelivery(deadLetter)
+        answerStopped(message)
+      }
+    }
+  }
+
+  /**
+   * Returns the metrics of this mailbox, disabled until enabled.
+   * @returns Mailbox metrics
+   */
+  metrics(): MailboxMetrics {
+    return this._metrics
+  }
+
+  /**
+   * Returns the number of messages being processed.
+   * @returns Number of messages being processed
+   */
+  activeCount(): number {
+    return this.active
+  }
+
+  /**
+   * Returns the number of queued messages, including any withdrawn
+   * messages not yet skipped.
+   * @returns Number of queued messages
+   */
+  size(): number {
+    return this.queue.length
+  }
+
+  /**
+   * Returns whether the message may be processed alongside others.
+   * Override to decide reentrancy otherwise.
+   *
+   * @param message The message
+   * @returns true if reentrant, false if it must be processed alone
+   */
+  protected isReentrant(message: Message): boolean {
+    if (!(message instanceof LocalMessage)) {
+      return false
+    }
+
+    const selector = message.selector()
+
+    if (SystemSelectors.has(selector)) {
+      return false
+    }
+
+    return this.reentrant ? this.reentrant.has(selector) : true
+  }
+
+  /**
+   * Returns the first deliverable queued message without dequeuing it,
+   * dropping withdrawn and expired messages ahead of it.
+   * @returns The first deliverable message, or undefined if none
+   */
+  private peek(): Message | undefined {
+    while (this.queue.length > 0) {
+      const message = this.queue[0]!
+      if (message.isDeliverable() && !discardIfExpired(message)) {
+        return message
+      }
+      this.queue.shift()
+    }
+
+    return undefined
+  }
+}
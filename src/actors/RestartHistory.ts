@@ -0,0 +1,87 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { SupervisionStrategy } from "./Supervisor.js"
+
+/**
+ * Sliding-window record of the restarts of a single actor.
+ *
+ * Used by supervision to enforce a strategy's intensity and period:
+ * no more than `intensity` restarts may occur within any `period`
+ * milliseconds. Each actor's Environment owns one RestartHistory, so
+ * the history survives across the individual supervision decisions.
+ *
+ * Sentinels:
+ * - SupervisionStrategy.ForeverIntensity: restarts are never limited
+ * - SupervisionStrategy.ForeverPeriod: every restart counts, regardless of age
+ *
+ * Only the most recent `intensity` timestamps are retained, so memory
+ * remains bounded even with ForeverPeriod.
+ */
+export class RestartHistory {
+  private _timestamps: number[] = []
+
+  /**
+   * Answers whether another restart at `now` would exceed the intensity
+   * allowed within the period.
+   *
+   * @param period Time window (ms) for measuring restart intensity
+   * @param intensity Maximum restarts allowed within period
+   * @param now Current time in milliseconds (default: Date.now())
+   * @returns true if the restart must not take place, false otherwise
+   */
+  isExceededBy(period: number, intensity: number, now: number = Date.now()): boolean {
+    if (intensity === SupervisionStrategy.ForeverIntensity) {
+      return false
+    }
+
+    return this.countWithin(period, now) >= intensity
+  }
+
+  /**
+   * Records a restart at `now`, retaining at most `intensity` entries.
+   *
+   * @param intensity Maximum restarts allowed within period
+   * @param now Current time in milliseconds (default: Date.now())
+   */
+  record(intensity: number, now: number = Date.now()): void {
+    if (intensity === SupervisionStrategy.ForeverIntensity) {
+      return
+    }
+
+    this._timestamps.push(now)
+
+    while (this._timestamps.length > intensity) {
+      this._timestamps.shift()
+    }
+  }
+
+  /**
+   * Returns the number of restarts recorded within the period ending at `now`.
+   *
+   * @param period Time window (ms)
+   * @param now Current time in milliseconds (default: Date.now())
+   * @returns Number of restarts within the window
+   */
+  countWithin(period: number, now: number = Date.now()): number {
+    if (period === SupervisionStrategy.ForeverPeriod) {
+      return this._timestamps.length
+    }
+
+    const windowStart = now - period
+
+    return this._timestamps.filter(timestamp => timestamp > windowStart).length
+  }
+
+  /**
+   * Forgets all recorded restarts.
+   */
+  clear(): void {
+    this._timestamps = []
+  }
+}
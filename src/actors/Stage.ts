@@ -7,6 +7,7 @@
 // See: https://opensource.org/license/rpl-1-5
 
 import { Actor } from './Actor.js'
+import { ActorOptions } from './ActorOptions.js'
 import { ActorProtocol } from './ActorProtocol.js'
 import { Address } from './Address.js'
 import { DeadLetters } from './DeadLetters.js'
@@ -14,9 +15,11 @@ import { Environment } from './Environment.js'
 import { ExecutionContext } from './ExecutionContext.js'
 import { LocalStage } from './LocalStage.js'
 import { Logger } from './Logger.js'
-import { Mailbox } from './Mailbox.js'
+import { Mailbox, MailboxFactory } from './Mailbox.js'
+import { MailboxMetrics } from './MailboxMetrics.js'
 import { Protocol } from './Protocol.js'
 import { Scheduler } from './Scheduler.js'
+import { SupervisionEvents } from './SupervisionEvents.js'
 import { Supervisor } from './Supervisor.js'
 
 /**
@@ -73,12 +76,35 @@ export interface Stage {
   logger(): Logger
 
   /**
-   * Returns a new mailbox for an actor.
+   * Returns a new mailbox for an actor, created by the mailbox factory
+   * registered with the given name; see registerMailboxFactory().
    * Creates unbounded ArrayMailbox by default.
    *
+   * @param name Optional mailbox factory name (defaults to 'default')
    * @returns New mailbox instance
+   * @throws Error if no mailbox factory is registered with the name
    */
-  mailbox(): Mailbox
+  mailbox(name?: string): Mailbox
+
+  /**
+   * Registers a mailbox factory with the stage, so that actors may be
+   * created with a mailbox by name; see ActorOptions.
+   *
+   * The stage comes with 'default' and 'array' (ArrayMailbox), 'priority'
+   * (PriorityMailbox) and 'reentrant' (ReentrantMailbox) pre-registered.
+   * Registering 'default' changes the mailbox of actors created without
+   * one. A factory may configure its mailboxes, such as their capacity,
+   * time to live or throughput.
+   *
+   * ```typescript
+   * stage().registerMailboxFactory('bounded-1000-drop-oldest', () =>
+   *   new BoundedMailbox(1000, OverflowPolicy.DropOldest))
+   * ```
+   *
+   * @param name The mailbox factory's name (for lookup)
+   * @param factory The mailbox factory to register
+   */
+  registerMailboxFactory(name: string, factory: MailboxFactory): void
 
   /**
    * Returns the stage's scheduler for delayed/periodic tasks.
@@ -86,6 +112,93 @@ export interface Stage {
    */
   scheduler(): Scheduler
 
+  /**
+   * Returns whether senders of messages that cannot be delivered are
+   * answered with a string result rather than rejected; see
+   * setResolvesUndelivered().
+   * @returns true if undelivered messages are resolved, false by default
+   */
+  resolvesUndelivered(): boolean
+
+  /**
+   * Sets whether senders of messages that cannot be delivered, because
+   * their actor stopped or its mailbox or stash overflowed, are answered
+   * with a string result ('actor stopped', 'mailbox full', 'message
+   * dropped due to overflow', or 'stash full') as in earlier versions,
+   * instead of rejected with an ActorStoppedError, MailboxOverflowError
+   * or StashOverflowError.
+   *
+   * Intended only for applications migrating from string results.
+   *
+   * @param resolves true to resolve undelivered messages with strings
+   */
+  setResolvesUndelivered(resolves: boolean): void
+
+  /**
+   * Returns whether messages that would deadlock are rejected; see
+   * setDetectsDeadlocks().
+   * @returns true if deadlocks are detected, false by default
+   */
+  detectsDeadlocks(): boolean
+
+  /**
+   * Sets whether the messages actors send to other actors while
+   * processing a message are tracked until answered, and a message that
+   * closes a cycle of waiting actors is rejected with a DeadlockError.
+   *
+   * An actor counts as waiting for every message it sent while it is
+   * still processing the message that sent it, whether or not it awaits
+   * the answer. A handler that sends a message without awaiting it, then
+   * awaits something else, may therefore have an answering message from
+   * the receiver rejected. Enable detection where handlers await the
+   * messages they send, such as during development and tests.
+   *
+   * @param detects true to detect deadlocks
+   */
+  setDetectsDeadlocks(detects: boolean): void
+
+  /**
+   * Returns the number of messages a mailbox delivers in a row before
+   * yielding to the event loop, unless the mailbox has its own throughput.
+   * @returns Number of messages (default: 100)
+   */
+  throughput(): number
+
+  /**
+   * Sets the number of messages a mailbox delivers in a row before
+   * yielding to the event loop, so that an actor draining a long queue
+   * does not starve timers, I/O, and the actors messaged from them.
+   * Applies to mailboxes created without their own throughput.
+   *
+   * Lower values favor fairness, higher values raw throughput;
+   * Infinity never yields.
+   *
+   * @param throughput Number of messages to deliver before yielding
+   * @throws Error if throughput is not positive
+   */
+  setThroughput(throughput: number): void
+
+  /**
+   * Returns whether the mailboxes of actors created by this stage
+   * collect metrics; see setMailboxMetricsEnabled().
+   * @returns true if enabled, false by default
+   */
+  mailboxMetricsEnabled(): boolean
+
+  /**
+   * Sets whether the mailboxes of actors collect metrics, both of the
+   * actors already created and of those created later. Mailboxes may
+   * also have their metrics enabled individually.
+   * @param enabled true to collect metrics, false to stop collecting them
+   */
+  setMailboxMetricsEnabled(enabled: boolean): void
+
+  /**
+   * Returns the metrics of the mailboxes of all actors combined.
+   * @returns Combined mailbox metrics
+   */
+  mailboxMetrics(): MailboxMetrics
+
   /**
    * Creates a new actor instance with type-safe protocol.
    *
@@ -97,7 +210,7 @@ export interface Stage {
    * @param protocol The Protocol definition (class and type)
    * @param parent Optional parent actor (defaults to stage's public root)
    * @param supervisorName Optional supervisor name (defaults to 'default')
-   * @param mailbox Optional custom mailbox (defaults to ArrayMailbox)
+   * @param mailbox Optional custom mailbox (defaults to the 'default' mailbox, an ArrayMailbox)
    * @param parameters Constructor parameters for the actor class
    * @returns Type-safe proxy implementing the protocol interface
    *
@@ -120,7 +233,40 @@ export interface Stage {
    * const value = await counter.getValue() // 1
    * ```
    */
-  actorFor<T>(protocol: Protocol, parent?: ActorProtocol, supervisorName?: string, mailbox?: Mailbox, ...parameters: any[]): T
+  actorFor<T>(protocol: Protocol<any[], T>, parent?: ActorProtocol, supervisorName?: string, mailbox?: Mailbox, ...parameters: any[]): T
+
+  /**
+   * Creates a new actor instance with type-safe protocol, given its
+   * mailbox, supervisor, parent, name, address and parameters by name
+   * rather than by position. The mailbox may be named by its registered
+   * factory; see registerMailboxFactory().
+   *
+   * The parameters are checked against the types of the protocol's
+   * constructor parameters, P, when the type arguments are inferred:
+   * declare the proxy's type rather than give T.
+   * A protocol typed with its interface, such as one made by
+   * protocolFor(), gives T itself.
+   *
+   * @template T The protocol interface type
+   * @template P The types of the actor's constructor parameters
+   * @param protocol The Protocol definition (class and type)
+   * @param options The actor's mailbox, supervisor, parent, name, address and parameters
+   * @returns Type-safe proxy implementing the protocol interface
+   * @throws Error if the options name a mailbox factory not registered,
+   * or give the address of an existing actor
+   *
+   * @example
+   * ```typescript
+   * const CounterProtocol: Protocol<[number]> = ...
+   *
+   * const counter: Counter = stage().actorFor(CounterProtocol, {
+   *   mailbox: 'priority',
+   *   supervisor: 'counter-supervisor',
+   *   parameters: [10]  // checked: [number]
+   * })
+   * ```
+   */
+  actorFor<T, P extends any[] = any[]>(protocol: Protocol<P, T>, options: ActorOptions<NoInfer<P>>): T
 
   /**
    * Looks up an actor by its address.
@@ -142,6 +288,12 @@ export interface Stage {
    */
   supervisor(name?: string): Supervisor
 
+  /**
+   * Returns the supervision event stream and per-actor failure history.
+   * @returns SupervisionEvents instance
+   */
+  supervisionEvents(): SupervisionEvents
+
   /**
    * Registers a supervisor with the stage.
    *
@@ -8,9 +8,12 @@
 
 import { ActorProtocol } from './ActorProtocol.js'
 import { Address } from './Address.js'
+import { Actor } from './Actor.js'
 import { Directory } from './Directory.js'
+import { Environment } from './Environment.js'
 import { Stage } from './Stage.js'
-import { StageSupervisedActor } from './Supervisor.js'
+import { StageSupervisedActor, Supervisor } from './Supervisor.js'
+import { WaitForGraph } from './WaitForGraph.js'
 
 /**
  * Internal Stage interface with methods that should not be exposed to clients.
@@ -38,6 +41,21 @@ export interface StageInternal extends Stage {
    */
   setDefaultParent(actor: ActorProtocol | undefined): void
 
+  /**
+   * Re-instantiates the actor of the given environment for restart.
+   *
+   * Runs the environment's protocol instantiator again with the stored
+   * definition parameters and swaps the new instance behind the existing
+   * proxy and environment (same address, mailbox, and children). If the
+   * previous instance provides a state snapshot, it is handed to the new
+   * instance via stateSnapshot(state).
+   *
+   * @param environment The environment of the actor being restarted
+   * @returns The new actor instance
+   * @internal - Only for use by LifeCycle
+   */
+  recreateActor(environment: Environment): Actor
+
   /**
    * Removes an actor from the directory.
    * Called by LifeCycle during actor stop sequence.
@@ -58,4 +76,22 @@ export interface StageInternal extends Stage {
    * @internal - Only for use by LocalMessage and LocalStage
    */
   handleFailureOf(supervised: StageSupervisedActor): void
+
+  /**
+   * Returns PrivateRootActor, the supervisor of last resort, to which
+   * escalation ends. Initializes the root actors if needed.
+   *
+   * @internal - Only for use by StageSupervisedActor
+   * @returns The PrivateRootActor supervisor
+   */
+  privateRoot(): Supervisor
+
+  /**
+   * Returns the graph of actors awaiting answers from other actors,
+   * used to reject messages that would deadlock.
+   *
+   * @internal - Only for use by ActorProxy
+   * @returns The wait-for graph
+   */
+  waitForGraph(): WaitForGraph
 }
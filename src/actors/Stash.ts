@@ -0,0 +1,103 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { Message } from './Message.js'
+
+/**
+ * Bounded store of messages an actor has set aside to process later.
+ *
+ * Messages are kept in the order they were stashed. Each actor has at
+ * most one stash, created on its first Actor.stash(), with the capacity
+ * answered by Actor.stashCapacity(). The stash belongs to the actor's
+ * environment, so stashed messages remain stashed across restarts.
+ */
+export class Stash {
+  /** Default maximum number of stashed messages */
+  static DefaultCapacity = 1000
+
+  private _capacity: number
+  private _messages: Message[] = []
+
+  /**
+   * Creates a stash.
+   * @param capacity Maximum number of stashed messages
+   * @throws Error if capacity is not positive
+   */
+  constructor(capacity: number = Stash.DefaultCapacity) {
+    if (capacity <= 0) {
+      throw new Error('Stash capacity must be positive')
+    }
+    this._capacity = capacity
+  }
+
+  /**
+   * Returns the maximum number of stashed messages.
+   * @returns Capacity
+   */
+  capacity(): number {
+    return this._capacity
+  }
+
+  /**
+   * Returns the number of stashed messages.
+   * @returns Number of messages
+   */
+  size(): number {
+    return this._messages.length
+  }
+
+  /**
+   * Returns whether no messages are stashed.
+   * @returns true if empty
+   */
+  isEmpty(): boolean {
+    return this._messages.length === 0
+  }
+
+  /**
+   * Returns whether the stash is at capacity.
+   * @returns true if full
+   */
+  isFull(): boolean {
+    return this._messages.length >= this._capacity
+  }
+
+  /**
+   * Stashes the message, unless the stash is full.
+   * @param message The message to stash
+   * @returns true if stashed, false if the stash is full
+   */
+  add(message: Message): boolean {
+    if (this.isFull()) {
+      return false
+    }
+    this._messages.push(message)
+    return true
+  }
+
+  /**
+   * Removes the message if it is stashed.
+   * @param message The message to remove
+   */
+  remove(message: Message): void {
+    const index = this._messages.indexOf(message)
+    if (index !== -1) {
+      this._messages.splice(index, 1)
+    }
+  }
+
+  /**
+   * Removes and returns all stashed messages in stashing order.
+   * @returns The stashed messages
+   */
+  takeAll(): Message[] {
+    const messages = this._messages
+    this._messages = []
+    return messages
+  }
+}
@@ -0,0 +1,280 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { Address } from './Address.js'
+import { Logger } from './Logger.js'
+import { Supervised, SupervisionDirective } from './Supervisor.js'
+
+/**
+ * Kinds of supervision events.
+ *
+ * - Failed: An actor failed and its supervisor is being informed
+ * - Directed: A supervisor decided the directive for a failure
+ * - Restarted: An actor was restarted
+ * - Resumed: An actor was resumed
+ * - Stopped: An actor was stopped by supervision
+ * - Escalated: A failure was escalated to the supervisor's supervisor
+ * - IntensityExceeded: A restart would exceed the strategy's intensity within its period
+ * - HookFailed: A lifecycle hook failed while restarting or resuming an actor
+ */
+export enum SupervisionEventType {
+  Failed,
+  Directed,
+  Restarted,
+  Resumed,
+  Stopped,
+  Escalated,
+  IntensityExceeded,
+  HookFailed
+}
+
+/**
+ * Something that happened while supervising a failed actor.
+ */
+export class SupervisionEvent {
+  private _type: SupervisionEventType
+  private _address: Address
+  private _actorType: string
+  private _error: Error
+  private _directive?: SupervisionDirective
+  private _timestamp: number
+
+  /**
+   * Creates an event for the supervised actor.
+   *
+   * @param type The kind of event
+   * @param supervised The supervised actor
+   * @param directive The directive, for Directed events
+   * @returns New SupervisionEvent
+   */
+  static of(type: SupervisionEventType, supervised: Supervised, directive?: SupervisionDirective): SupervisionEvent {
+    return new SupervisionEvent(
+      type,
+      supervised.address(),
+      supervised.actor().type(),
+      supervised.error(),
+      directive
+    )
+  }
+
+  /**
+   * Creates a supervision event.
+   *
+   * @param type The kind of event
+   * @param address The address of the supervised actor
+   * @param actorType The type of the supervised actor
+   * @param error The error that caused supervision
+   * @param directive The directive, for Directed events
+   * @param timestamp Time of the event in milliseconds (default: Date.now())
+   */
+  constructor(
+    type: SupervisionEventType,
+    address: Address,
+    actorType: string,
+    error: Error,
+    directive?: SupervisionDirective,
+    timestamp: number = Date.now()
+  ) {
+    this._type = type
+    this._address = address
+    this._actorType = actorType
+    this._error = error
+    this._directive = directive
+    this._timestamp = timestamp
+  }
+
+  /**
+   * Returns the kind of event.
+   * @returns Event type
+   */
+  type(): SupervisionEventType {
+    return this._type
+  }
+
+  /**
+   * Returns the address of the supervised actor.
+   * @returns Actor address
+   */
+  address(): Address {
+    return this._address
+  }
+
+  /**
+   * Returns the type of the supervised actor.
+   * @returns Actor type string
+   */
+  actorType(): string {
+    return this._actorType
+  }
+
+  /**
+   * Returns the error that caused supervision.
+   * @returns Error instance
+   */
+  error(): Error {
+    return this._error
+  }
+
+  /**
+   * Returns the directive decided by the supervisor, for Directed events.
+   * @returns Supervision directive or undefined
+   */
+  directive(): SupervisionDirective | undefined {
+    return this._directive
+  }
+
+  /**
+   * Returns the time of the event.
+   * @returns Milliseconds since the epoch
+   */
+  timestamp(): number {
+    return this._timestamp
+  }
+
+  /**
+   * Returns a formatted string representation of this event.
+   * @returns Formatted string with type, actor, directive, and error
+   */
+  toString(): string {
+    const directive = this._directive !== undefined
+      ? " directive: " + SupervisionDirective[this._directive]
+      : ""
+
+    return "SupervisionEvent[" + SupervisionEventType[this._type] +
+           " of: " + this._actorType +
+           " at: " + this._address +
+           directive +
+           " because: " + this._error.message +
+           "]"
+  }
+}
+
+/**
+ * Listener interface for supervision event notifications.
+ *
+ * Registered via SupervisionEvents.registerListener()
+ */
+export interface SupervisionEventListener {
+  /**
+   * Handles a supervision event.
+   * @param event The supervision event
+   */
+  handle(event: SupervisionEvent): void
+}
+
+/**
+ * Stage-wide stream of supervision events with a bounded per-actor history.
+ *
+ * Responsibilities:
+ * - Distributes events to registered listeners
+ * - Protects against listener errors (catches and logs exceptions)
+ * - Retains the most recent events of each actor, queryable by address,
+ *   also after the actor has stopped
+ *
+ * The history keeps at most `historyLimit` events per actor, and the
+ * histories of at most `actorLimit` actors; the history of the actor
+ * least recently supervised is dropped first.
+ *
+ * Each stage has one SupervisionEvents instance accessible via
+ * stage.supervisionEvents().
+ */
+export class SupervisionEvents {
+  /** Default number of events retained per actor */
+  static DefaultHistoryLimit = 20
+  /** Default number of actors whose histories are retained */
+  static DefaultActorLimit = 1000
+
+  private _histories: Map<string, SupervisionEvent[]> = new Map()
+  private _listeners: SupervisionEventListener[] = []
+
+  /**
+   * Creates the supervision event stream.
+   *
+   * @param _logger The logger used to report listener errors
+   * @param _historyLimit Maximum events retained per actor
+   * @param _actorLimit Maximum actors whose histories are retained
+   */
+  constructor(
+    private _logger: Logger,
+    private _historyLimit: number = SupervisionEvents.DefaultHistoryLimit,
+    private _actorLimit: number = SupervisionEvents.DefaultActorLimit
+  ) {}
+
+  /**
+   * Returns the retained events of the actor, oldest first.
+   *
+   * @param address The address of the actor
+   * @returns Array of events (defensive copy; empty if none)
+   */
+  failureHistoryOf(address: Address): SupervisionEvent[] {
+    return [...(this._histories.get(address.valueAsString()) || [])]
+  }
+
+  /**
+   * Records the event in its actor's history and notifies all listeners.
+   *
+   * @param event The event to publish
+   */
+  publish(event: SupervisionEvent): void {
+    this.record(event)
+
+    this._listeners.forEach((listener: SupervisionEventListener) => {
+      try {
+        listener.handle(event)
+      } catch (error: any) {
+        const message = error instanceof Error ? error.message : error
+        this._logger.error("SupervisionEvents: Listener crashed because: " + message, error)
+      }
+    })
+  }
+
+  /**
+   * Registers a listener for supervision events.
+   * Listeners are notified in registration order.
+   *
+   * @param listener The listener to register
+   */
+  registerListener(listener: SupervisionEventListener): void {
+    this._listeners.push(listener)
+  }
+
+  /**
+   * Deregisters a previously registered listener.
+   *
+   * @param listener The listener to deregister
+   */
+  deregisterListener(listener: SupervisionEventListener): void {
+    const index = this._listeners.indexOf(listener)
+    if (index !== -1) {
+      this._listeners.splice(index, 1)
+    }
+  }
+
+  /**
+   * Appends the event to its actor's history, enforcing the limits.
+   * @param event The event to record
+   */
+  private record(event: SupervisionEvent): void {
+    const key = event.address().valueAsString()
+    const history = this._histories.get(key) || []
+
+    history.push(event)
+    while (history.length > this._historyLimit) {
+      history.shift()
+    }
+
+    // Re-insert so the most recently supervised actor is last
+    this._histories.delete(key)
+    this._histories.set(key, history)
+
+    while (this._histories.size > this._actorLimit) {
+      const oldest = this._histories.keys().next().value as string
+      this._histories.delete(oldest)
+    }
+  }
+}
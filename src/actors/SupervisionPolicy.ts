@@ -0,0 +1,366 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { Actor } from './Actor.js'
+import { DefaultSupervisor } from './DefaultSupervisor.js'
+import { Definition } from './Definition.js'
+import { Protocol } from './Protocol.js'
+import {
+  Supervised,
+  SupervisionDirective,
+  SupervisionScope,
+  SupervisionStrategy
+} from './Supervisor.js'
+
+/**
+ * An Error class (constructor) matched with instanceof.
+ */
+export type ErrorClass = new (...args: any[]) => Error
+
+/**
+ * A predicate that matches an error of a supervised actor.
+ */
+export type ErrorPredicate = (error: Error, supervised: Supervised) => boolean
+
+/**
+ * Matches errors either by class or by predicate.
+ */
+export type ErrorMatcher = ErrorClass | ErrorPredicate
+
+/**
+ * Per-rule overrides of the supervisor's SupervisionStrategy.
+ * Values that are not given are taken from the supervisor's strategy.
+ */
+export interface SupervisionOverrides {
+  /** Maximum restarts allowed within period */
+  intensity?: number
+  /** Time window (ms) for measuring restart intensity */
+  period?: number
+  /** Whether to apply the directive to one actor or all siblings */
+  scope?: SupervisionScope
+}
+
+/**
+ * A rule of a SupervisionPolicy: when the matcher matches an error,
+ * the directive is applied with the strategy overrides.
+ */
+export class SupervisionRule {
+  /**
+   * Creates a rule.
+   * @param matcher The error class or predicate, or undefined to match any error
+   * @param directive The directive to apply on match
+   * @param overrides The strategy overrides to apply on match
+   */
+  constructor(
+    private _matcher: ErrorMatcher | undefined,
+    private _directive: SupervisionDirective,
+    private _overrides: SupervisionOverrides = {}
+  ) {}
+
+  /**
+   * Returns the directive of this rule.
+   * @returns Supervision directive
+   */
+  directive(): SupervisionDirective {
+    return this._directive
+  }
+
+  /**
+   * Returns the strategy overrides of this rule.
+   * @returns Strategy overrides (possibly empty)
+   */
+  overrides(): SupervisionOverrides {
+    return { ...this._overrides }
+  }
+
+  /**
+   * Answers whether this rule matches the error of the supervised actor.
+   *
+   * @param error The error that occurred
+   * @param supervised The supervised actor
+   * @returns true if matched, false otherwise
+   */
+  matches(error: Error, supervised: Supervised): boolean {
+    if (this._matcher === undefined) {
+      return true
+    }
+
+    if (isErrorClass(this._matcher)) {
+      return error instanceof this._matcher
+    }
+
+    return (this._matcher as ErrorPredicate)(error, supervised)
+  }
+
+  /**
+   * Returns the strategy to use with this rule: the given strategy
+   * with this rule's overrides applied, or the strategy itself if
+   * there are no overrides.
+   *
+   * @param strategy The supervisor's strategy
+   * @returns The effective strategy
+   */
+  strategyFrom(strategy: SupervisionStrategy): SupervisionStrategy {
+    const overrides = this._overrides
+
+    if (overrides.intensity === undefined &&
+        overrides.period === undefined &&
+        overrides.scope === undefined) {
+      return strategy
+    }
+
+    return new class extends SupervisionStrategy {
+      intensity(): number { return overrides.intensity ?? strategy.intensity() }
+      period(): number { return overrides.period ?? strategy.period() }
+      scope(): SupervisionScope { return overrides.scope ?? strategy.scope() }
+    }
+  }
+}
+
+/**
+ * The directive half of a `when(...)` clause of a SupervisionPolicy.
+ * Each method completes the rule and answers the policy for chaining.
+ */
+export class SupervisionPolicyClause {
+  /**
+   * Creates a clause of the policy for the matcher.
+   * @param _policy The policy receiving the rule
+   * @param _matcher The error class or predicate of the rule
+   */
+  constructor(
+    private _policy: SupervisionPolicy,
+    private _matcher: ErrorMatcher
+  ) {}
+
+  /**
+   * Restarts the actor(s) on match.
+   * @param overrides Optional strategy overrides (intensity, period, scope)
+   * @returns The policy
+   */
+  restart(overrides?: SupervisionOverrides): SupervisionPolicy {
+    return this.then(SupervisionDirective.Restart, overrides)
+  }
+
+  /**
+   * Resumes the actor on match.
+   * @returns The policy
+   */
+  resume(): SupervisionPolicy {
+    return this.then(SupervisionDirective.Resume)
+  }
+
+  /**
+   * Stops the actor(s) on match.
+   * @param overrides Optional strategy overrides (scope)
+   * @returns The policy
+   */
+  stop(overrides?: SupervisionOverrides): SupervisionPolicy {
+    return this.then(SupervisionDirective.Stop, overrides)
+  }
+
+  /**
+   * Escalates to the supervisor's supervisor on match.
+   * @returns The policy
+   */
+  escalate(): SupervisionPolicy {
+    return this.then(SupervisionDirective.Escalate)
+  }
+
+  /**
+   * Applies the directive on match.
+   * @param directive The directive to apply
+   * @param overrides Optional strategy overrides
+   * @returns The policy
+   */
+  then(directive: SupervisionDirective, overrides?: SupervisionOverrides): SupervisionPolicy {
+    return this._policy.addRule(new SupervisionRule(this._matcher, directive, overrides))
+  }
+}
+
+/**
+ * Declarative decision table mapping errors to supervision directives.
+ *
+ * Rules are matched in the order they were declared, and the first
+ * matching rule decides. If no rule matches, the fallback decides,
+ * which is Restart unless set by otherwise():
+ *
+ * ```typescript
+ * const policy = SupervisionPolicy
+ *   .when(ValidationError).resume()
+ *   .when(ConnectionError).restart({ intensity: 5, period: 10000 })
+ *   .when(error => error.message.includes('fatal')).stop()
+ *   .otherwise(SupervisionDirective.Escalate)
+ * ```
+ *
+ * Errors are matched by class with instanceof, so a rule for a base
+ * class also matches its subclasses. Functions that are not Error
+ * classes are used as predicates.
+ */
+export class SupervisionPolicy {
+  private _fallback: SupervisionRule = new SupervisionRule(undefined, SupervisionDirective.Restart)
+  private _rules: SupervisionRule[] = []
+
+  /**
+   * Starts a new policy with its first rule.
+   * @param matcher The error class or predicate
+   * @returns The clause to complete with a directive
+   */
+  static when(matcher: ErrorMatcher): SupervisionPolicyClause {
+    return new SupervisionPolicy().when(matcher)
+  }
+
+  /**
+   * Starts the next rule of this policy.
+   * @param matcher The error class or predicate
+   * @returns The clause to complete with a directive
+   */
+  when(matcher: ErrorMatcher): SupervisionPolicyClause {
+    return new SupervisionPolicyClause(this, matcher)
+  }
+
+  /**
+   * Sets the fallback used when no rule matches.
+   *
+   * @param directive The directive to apply
+   * @param overrides Optional strategy overrides
+   * @returns This policy
+   */
+  otherwise(directive: SupervisionDirective, overrides?: SupervisionOverrides): SupervisionPolicy {
+    this._fallback = new SupervisionRule(undefined, directive, overrides)
+    return this
+  }
+
+  /**
+   * Appends a rule to this policy.
+   * @param rule The rule to append
+   * @returns This policy
+   */
+  addRule(rule: SupervisionRule): SupervisionPolicy {
+    this._rules.push(rule)
+    return this
+  }
+
+  /**
+   * Returns the first rule matching the error, or the fallback.
+   *
+   * @param error The error that occurred
+   * @param supervised The supervised actor
+   * @returns The deciding rule
+   */
+  ruleFor(error: Error, supervised: Supervised): SupervisionRule {
+    return this._rules.find(rule => rule.matches(error, supervised)) || this._fallback
+  }
+
+  /**
+   * Returns the directive for the error.
+   *
+   * @param error The error that occurred
+   * @param supervised The supervised actor
+   * @returns The directive of the deciding rule
+   */
+  decide(error: Error, supervised: Supervised): SupervisionDirective {
+    return this.ruleFor(error, supervised).directive()
+  }
+}
+
+/**
+ * Ready-made supervisor that decides directives with a SupervisionPolicy.
+ *
+ * The strategy overrides of the deciding rule are applied to the
+ * supervisor's strategy before the directive is carried out.
+ *
+ * ```typescript
+ * stage().actorFor(
+ *   PolicySupervisor.protocol('account-supervisor', policy),
+ *   undefined,
+ *   'default'
+ * )
+ *
+ * const account = stage().actorFor(AccountProtocol, undefined, 'account-supervisor')
+ * ```
+ */
+export class PolicySupervisor extends DefaultSupervisor {
+  private _policy: SupervisionPolicy
+  private _strategy?: SupervisionStrategy
+
+  /**
+   * Returns a protocol that instantiates a PolicySupervisor.
+   *
+   * @param type The supervisor type name by which supervised actors find it
+   * @param policy The policy deciding directives
+   * @param strategy Optional base strategy (default: DefaultSupervisionStrategy)
+   * @returns Protocol for use with stage().actorFor()
+   */
+  static protocol(type: string, policy: SupervisionPolicy, strategy?: SupervisionStrategy): Protocol {
+    return {
+      instantiator: () => ({
+        instantiate: (_definition: Definition): Actor => new PolicySupervisor(policy, strategy)
+      }),
+      type: () => type
+    }
+  }
+
+  /**
+   * Creates a policy supervisor.
+   * @param policy The policy deciding directives
+   * @param strategy Optional base strategy (default: DefaultSupervisionStrategy)
+   */
+  constructor(policy: SupervisionPolicy, strategy?: SupervisionStrategy) {
+    super()
+    this._policy = policy
+    this._strategy = strategy
+  }
+
+  /**
+   * Decides the directive with the policy and applies it with the
+   * deciding rule's strategy overrides.
+   *
+   * @param error The error that occurred
+   * @param supervised The supervised actor that failed
+   * @returns Promise that resolves when supervision is complete
+   */
+  async inform(error: Error, supervised: Supervised): Promise<void> {
+    const strategy = await this.supervisionStrategy()
+    const rule = this._policy.ruleFor(error, supervised)
+
+    this.applyDirective(rule.directive(), supervised, rule.strategyFrom(strategy))
+  }
+
+  /**
+   * Returns the base strategy given at construction, or the default.
+   * @returns Promise resolving to the supervision strategy
+   */
+  supervisionStrategy(): Promise<SupervisionStrategy> {
+    return this._strategy ? Promise.resolve(this._strategy) : super.supervisionStrategy()
+  }
+
+  /**
+   * Decides the directive with the policy.
+   *
+   * @param error The error that occurred
+   * @param supervised The supervised actor
+   * @param _strategy The supervision strategy
+   * @returns The directive of the deciding rule
+   */
+  protected decideDirective(
+    error: Error,
+    supervised: Supervised,
+    _strategy: SupervisionStrategy
+  ): SupervisionDirective {
+    return this._policy.decide(error, supervised)
+  }
+}
+
+/**
+ * Answers whether the matcher is an Error class rather than a predicate.
+ * @param matcher The matcher
+ * @returns true if an Error class
+ */
+function isErrorClass(matcher: ErrorMatcher): matcher is ErrorClass {
+  return matcher === Error || (matcher.prototype !== undefined && matcher.prototype instanceof Error)
+}
@@ -10,6 +10,10 @@ import { Actor } from "./Actor.js"
 import { ActorProtocol } from "./ActorProtocol.js"
 import { Address } from "./Address.js"
 import { Environment } from "./Environment.js"
+import { hasInternalAccess, INTERNAL_ENVIRONMENT_ACCESS } from "./InternalAccess.js"
+import { HookFailurePolicy, LifeCycleHookError } from "./LifeCycle.js"
+import { StageInternal } from "./StageInternal.js"
+import { SupervisionEvent, SupervisionEventType } from "./SupervisionEvents.js"
 
 /**
  * Defines the scope of supervision actions.
@@ -31,7 +35,7 @@ export enum SupervisionScope {
  * - Restart: Create new actor instance, preserving address
  * - Resume: Continue processing, ignore the error
  * - Stop: Terminate the actor(s)
- * - Escalate: Forward error to parent supervisor
+ * - Escalate: Hand the failure to the supervisor's own supervisor
  */
 export enum SupervisionDirective {
   /** Restart the failed actor with a new instance */
@@ -40,7 +44,7 @@ export enum SupervisionDirective {
   Resume,
   /** Stop the actor(s) */
   Stop,
-  /** Escalate the error to the parent supervisor */
+  /** Escalate the failure to the supervisor's own supervisor */
   Escalate
 }
 
@@ -148,7 +152,8 @@ export interface Supervised {
   error(): Error
 
   /**
-   * Escalates the error to the parent supervisor.
+   * Escalates the failure to the supervisor's own supervisor,
+   * which then supervises the supervisor.
    */
   escalate(): void
 
@@ -239,6 +244,8 @@ export class StageSupervisedActor implements Supervised {
   private _protocol: ActorProtocol
   private _actorInstance: Actor
   private _error: Error
+  private _supervisor?: Supervisor
+  private _escalatedFrom?: StageSupervisedActor
 
   /**
    * Creates a supervised actor wrapper.
@@ -246,11 +253,15 @@ export class StageSupervisedActor implements Supervised {
    * @param protocol The actor protocol (proxy wrapper)
    * @param actor The actor instance
    * @param error The error that occurred
+   * @param supervisor The supervisor to inform, if not the actor's own supervisor
+   * @param escalatedFrom The supervised actor whose failure this supervisor escalated, if any
    */
-  constructor(protocol: ActorProtocol, actor: Actor, error: Error) {
+  constructor(protocol: ActorProtocol, actor: Actor, error: Error, supervisor?: Supervisor, escalatedFrom?: StageSupervisedActor) {
     this._protocol = protocol
     this._actorInstance = actor
     this._error = error
+    this._supervisor = supervisor
+    this._escalatedFrom = escalatedFrom
   }
 
   /**
@@ -278,64 +289,111 @@ export class StageSupervisedActor implements Supervised {
   }
 
   /**
-   * Escalates the error to the parent supervisor.
-   * Forwards this supervised actor and error to the supervisor's parent.
+   * Escalates the failure to the supervisor's own supervisor.
+   *
+   * This actor remains suspended, and the failure becomes a failure of
+   * the supervisor: its mailbox is suspended and it is presented as the
+   * supervised actor, with this error, to its own supervisor. The
+   * directive given there decides the fate of this actor too: it is
+   * resumed, restarted or stopped along with the supervisor, or stays
+   * suspended while the supervisor escalates in turn.
+   *
+   * Escalation therefore walks up one supervisor per Escalate directive
+   * and ends at PrivateRootActor, which stops what is escalated to it.
+   * PrivateRootActor is also informed if the next supervisor cannot be
+   * resolved, or is the escalating supervisor itself. If the supervisor
+   * is not an actor, this actor is stopped.
    */
   escalate(): void {
-    this.supervisor().supervisor().inform(this.error(), this)
+    this.publish(SupervisionEventType.Escalated)
+    this.suspend()
+
+    const environment = this.environmentOf(this._actorInstance)
+    const stage = environment.stage()
+    const supervisorEnvironment = this.environmentOfSupervisor(environment)
+    const supervisorProtocol = supervisorEnvironment && stage.directory().get(supervisorEnvironment.address())
+
+    if (!supervisorEnvironment || !supervisorProtocol) {
+      environment.logger().error(
+        `Cannot escalate failure of: ${this.address().valueAsString()}; supervisor is not an actor`,
+        this.error()
+      )
+      this.stop(SupervisionScope.One)
+      return
+    }
+
+    const escalated = new StageSupervisedActor(
+      supervisorProtocol,
+      supervisorEnvironment.actor(),
+      this.error(),
+      this.escalationTargetOf(supervisorEnvironment),
+      this
+    )
+
+    escalated.suspend()
+    stage.handleFailureOf(escalated)
   }
 
   /**
    * Restarts the actor(s) within the specified constraints.
    *
    * Process:
-   * 1. Calls restart() lifecycle method (which calls beforeRestart/afterRestart hooks)
-   * 2. Resumes the mailbox after restart completes
+   * 1. Checks the failed actor's restart history against intensity/period
+   * 2. If the intensity is exceeded within the period, stops the actor(s) instead
+   * 3. Otherwise records the restart and calls restart() lifecycle method
+   *    (which calls beforeRestart/afterRestart hooks)
+   * 4. Resumes the mailbox after restart completes
    *
-   * TODO: Track restart intensity/period for throttling
-   * Currently just restarts actor(s) based on scope.
+   * ForeverIntensity never limits restarts, and ForeverPeriod counts every
+   * restart regardless of how long ago it occurred. An actor that
+   * escalated its failure to this one is restarted with it.
    *
-   * @param _period Time window (ms) for measuring restart intensity (not yet implemented)
-   * @param _intensity Maximum restarts allowed within period (not yet implemented)
+   * @param period Time window (ms) for measuring restart intensity
+   * @param intensity Maximum restarts allowed within period
    * @param scope Whether to restart one actor or all siblings
    */
-  restartWithin(_period: number, _intensity: number, scope: SupervisionScope): void {
-    // TODO: Track restart intensity/period for throttling
-    // For now, just restart the actor(s) based on scope
+  restartWithin(period: number, intensity: number, scope: SupervisionScope): void {
+    const restartHistory = this.environmentOf(this._actorInstance).restartHistory()
+
+    if (restartHistory.isExceededBy(period, intensity)) {
+      this.actor().logger().error(
+        `Restart intensity exceeded: ${intensity} restart(s) within ${period}ms; stopping: ${this.address().valueAsString()}`,
+        this.error()
+      )
+      this.publish(SupervisionEventType.IntensityExceeded)
+      this.stop(scope)
+      return
+    }
+
+    restartHistory.record(intensity)
 
     if (scope === SupervisionScope.One) {
       // Restart just this actor
       this.actor().lifeCycle().restart(this.error())
         .then(() => {
+          this.publish(SupervisionEventType.Restarted)
           // Resume mailbox after restart completes
           this.actor().lifeCycle().environment().mailbox().resume()
         })
         .catch((restartError: Error) => {
-          // If restart fails, log but still try to resume mailbox
-          this.actor().logger().error(
-            `Restart failed: ${restartError.message}`,
-            restartError
-          )
-          this.actor().lifeCycle().environment().mailbox().resume()
+          this.restartFailed(this.environmentOf(this._actorInstance), restartError)
         })
     } else {
       // Restart this actor and all siblings
       this.selfWithSiblings().forEach((child: Actor) => {
         child.lifeCycle().restart(this.error())
           .then(() => {
+            this.publish(SupervisionEventType.Restarted, child)
             // Resume each mailbox after restart
             child.lifeCycle().environment().mailbox().resume()
           })
           .catch((restartError: Error) => {
-            // If restart fails, log but still try to resume mailbox
-            child.logger().error(
-              `Restart failed: ${restartError.message}`,
-              restartError
-            )
-            child.lifeCycle().environment().mailbox().resume()
+            this.restartFailed(this.environmentOf(child), restartError)
           })
       })
     }
+
+    this._escalatedFrom?.restartWithin(period, intensity, SupervisionScope.One)
   }
 
   /**
@@ -346,34 +404,58 @@ export class StageSupervisedActor implements Supervised {
    * 2. Resumes the mailbox to allow message delivery
    * 3. Logs the resumption
    *
-   * If beforeResume() throws, logs the error but continues with resumption.
+   * If beforeResume() throws, logs the error and publishes a HookFailed
+   * supervision event. With the LogOnly hook failure policy resumption
+   * continues; otherwise the mailbox remains suspended and the failure
+   * is escalated to the supervisor, or the actor is stopped.
+   *
+   * An actor that escalated its failure to this one is resumed with it.
    */
   resume(): void {
-    // Call beforeResume lifecycle hook
+    const environment = this.environmentOf(this._actorInstance)
+    const current = environment.actor()
+
+    // Call beforeResume lifecycle hook on the current instance
     try {
-      this._actorInstance.beforeResume(this.error())
+      current.beforeResume(this.error())
     } catch (error: any) {
       const errorObj = error instanceof Error ? error : new Error(String(error))
-      this.actor().logger().error(
-        `Actor beforeResume() failed: ${errorObj.message}`,
-        errorObj
-      )
+      const hookFailure = new LifeCycleHookError('beforeResume', errorObj)
+      this.actor().logger().error(hookFailure.message, errorObj)
+      this.publish(SupervisionEventType.HookFailed, current, hookFailure)
+
+      if (current.hookFailurePolicy() !== HookFailurePolicy.LogOnly) {
+        this.superviseHookFailure(environment, hookFailure)
+        return
+      }
     }
 
     // Resume message processing in the mailbox
     this.actor().lifeCycle().environment().mailbox().resume()
     this.actor().logger().log('Actor resumed after error: ' + this.error().message)
+    this.publish(SupervisionEventType.Resumed)
+
+    this._escalatedFrom?.resume()
   }
 
   /**
    * Stops the actor(s) gracefully.
+   * The error is recorded as the stop reason reported to death watchers.
+   * An actor that escalated its failure to this one is stopped first,
+   * since its suspended mailbox would not deliver a stop message.
    * @param scope Whether to stop one actor or all siblings
    */
   stop(scope: SupervisionScope): void {
+    this._escalatedFrom?.stop(SupervisionScope.One)
+
     if (scope == SupervisionScope.One) {
+      this.environmentOf(this._actorInstance).setStopReason(this.error())
+      this.publish(SupervisionEventType.Stopped)
       this.actor().lifeCycle().stop()
     } else {
       this.selfWithSiblings().forEach((child: Actor) => {
+        this.environmentOf(child).setStopReason(this.error())
+        this.publish(SupervisionEventType.Stopped, child)
         child.stop()
       });
     }
@@ -381,10 +463,10 @@ export class StageSupervisedActor implements Supervised {
 
   /**
    * Returns the supervisor managing this actor.
-   * @returns Supervisor instance from the actor's environment
+   * @returns The supervisor given on creation, or the one from the actor's environment
    */
   supervisor(): Supervisor {
-    return this.actor().lifeCycle().environment().supervisor()
+    return this._supervisor || this.actor().lifeCycle().environment().supervisor()
   }
 
   /**
@@ -406,6 +488,112 @@ export class StageSupervisedActor implements Supervised {
     return actor.lifeCycle().environment();
   }
 
+  /**
+   * Returns the environment of the actor that supervises the actor of
+   * the environment, if its supervisor is an actor.
+   * @param environment The environment of the supervised actor
+   * @returns The supervisor's environment, or undefined
+   */
+  private environmentOfSupervisor(environment: Environment): Environment | undefined {
+    const supervisor = environment.supervisor()
+
+    return hasInternalAccess(supervisor) ? supervisor[INTERNAL_ENVIRONMENT_ACCESS]() : undefined
+  }
+
+  /**
+   * Returns the supervisor to which a supervisor escalates: its own
+   * supervisor, or PrivateRootActor if that cannot be resolved or is
+   * the escalating supervisor itself.
+   * @param supervisorEnvironment The environment of the escalating supervisor
+   * @returns The supervisor to inform
+   */
+  private escalationTargetOf(supervisorEnvironment: Environment): Supervisor {
+    try {
+      const next = this.environmentOfSupervisor(supervisorEnvironment)
+      if (next && !next.address().equals(supervisorEnvironment.address())) {
+        return supervisorEnvironment.supervisor()
+      }
+    } catch (error: any) {
+      supervisorEnvironment.logger().error(
+        `Supervisor of: ${supervisorEnvironment.address().valueAsString()} not resolved: ${error.message}`,
+        error
+      )
+    }
+
+    return (supervisorEnvironment.stage() as StageInternal).privateRoot()
+  }
+
+  /**
+   * Publishes a supervision event of this failure to the stage.
+   * @param type The kind of event
+   * @param actor The affected actor, if not the failed actor itself
+   * @param error The error of the event, if not the error of this failure
+   */
+  private publish(type: SupervisionEventType, actor?: Actor, error?: Error): void {
+    const event = actor
+      ? new SupervisionEvent(type, actor.address(), actor.type(), error || this.error())
+      : SupervisionEvent.of(type, this)
+
+    this.actor().stage().supervisionEvents().publish(event)
+  }
+
+  /**
+   * Handles a failed restart of the actor in the environment.
+   *
+   * Lifecycle hook failures are handled by superviseHookFailure().
+   * Any other failure is logged and the mailbox is resumed.
+   *
+   * @param environment The environment of the restarted actor
+   * @param restartError The error of the restart
+   */
+  private restartFailed(environment: Environment, restartError: Error): void {
+    if (restartError instanceof LifeCycleHookError) {
+      this.superviseHookFailure(environment, restartError)
+      return
+    }
+
+    // If restart fails, log but still try to resume mailbox
+    environment.logger().error(
+      `Restart failed: ${restartError.message}`,
+      restartError
+    )
+    environment.mailbox().resume()
+  }
+
+  /**
+   * Handles a lifecycle hook failure according to the actor's hook
+   * failure policy, while its mailbox remains suspended.
+   *
+   * With Escalate, the hook failure is handed to the actor's supervisor
+   * as a new failure. With Stop, or if this supervision was itself caused
+   * by a hook failure, the actor is stopped to prevent endless restarts.
+   *
+   * @param environment The environment of the actor whose hook failed
+   * @param hookFailure The hook failure
+   */
+  private superviseHookFailure(environment: Environment, hookFailure: LifeCycleHookError): void {
+    const protocol = environment.stage().directory().get(environment.address())
+    if (!protocol) {
+      return  // already stopped
+    }
+
+    // The actor that escalated to this one awaits the outcome for this one
+    const escalatedFrom = environment.address().equals(this.address()) ? this._escalatedFrom : undefined
+    const supervised = new StageSupervisedActor(protocol, environment.actor(), hookFailure, undefined, escalatedFrom)
+
+    if (environment.actor().hookFailurePolicy() === HookFailurePolicy.Stop) {
+      supervised.stop(SupervisionScope.One)
+    } else if (this.error() instanceof LifeCycleHookError) {
+      environment.logger().error(
+        `Lifecycle hook failed again while recovering from a hook failure; stopping: ${environment.address().valueAsString()}`,
+        hookFailure
+      )
+      supervised.stop(SupervisionScope.One)
+    } else {
+      environment.stage().handleFailureOf(supervised)
+    }
+  }
+
   /**
    * Returns this actor and all its siblings.
    * Navigates: this actor -> parent -> parent's children
@@ -0,0 +1,65 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { ActorProtocol } from './ActorProtocol.js'
+import { createOneWayProxy } from './ActorProxy.js'
+import { Environment } from './Environment.js'
+import { INTERNAL_ENVIRONMENT_ACCESS, InternalActorAccess } from './InternalAccess.js'
+
+/**
+ * One-way view of an actor protocol: each message method of T
+ * with the same parameters, returning nothing.
+ *
+ * The synchronous ActorProtocol methods are not included.
+ */
+export type Tell<T> = {
+  [K in keyof T as K extends keyof ActorProtocol
+    ? never
+    : T[K] extends (...args: any[]) => any ? K : never
+  ]: T[K] extends (...args: infer A) => any ? (...args: A) => void : never
+}
+
+/**
+ * One-way proxies by actor environment, created once per actor.
+ */
+const oneWayProxies = new WeakMap<Environment, object>()
+
+/**
+ * Answers a one-way (fire-and-forget) view of the actor, for sending
+ * messages whose results are not needed.
+ *
+ * Unlike calls on the actor's proxy, messages sent by tell allocate no
+ * promise and answer nothing. If the actor fails processing one, the
+ * failure is routed to its supervisor only; there is no promise to reject.
+ * Messages sent by tell and by the proxy are delivered in sending order.
+ *
+ * ```typescript
+ * tell(counter).increment()            // fire-and-forget
+ * const value = await counter.value()  // request-response
+ * ```
+ *
+ * @param actor The actor proxy
+ * @returns The one-way view of the actor
+ * @throws Error if actor is not an actor proxy
+ */
+export function tell<T extends object>(actor: T): Tell<T> {
+  const access = (actor as any as InternalActorAccess)[INTERNAL_ENVIRONMENT_ACCESS]
+  if (typeof access !== 'function') {
+    throw new Error('tell() requires an actor proxy')
+  }
+
+  const environment: Environment = access()
+  let oneWay = oneWayProxies.get(environment)
+
+  if (!oneWay) {
+    oneWay = createOneWayProxy(environment.actor(), environment.mailbox())
+    oneWayProxies.set(environment, oneWay)
+  }
+
+  return oneWay as Tell<T>
+}
@@ -0,0 +1,44 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { Message } from './Message.js'
+
+/**
+ * Answers the number of messages a mailbox may deliver in a row before
+ * yielding to the event loop: its own throughput if given, otherwise the
+ * throughput of the stage of the message's actor.
+ *
+ * @param message The message just delivered
+ * @param throughput The mailbox's own throughput, if any
+ * @returns The number of messages to deliver before yielding
+ * @internal
+ */
+export function throughputOf(message: Message, throughput: number | undefined): number {
+  return throughput ?? message.to().stage().throughput()
+}
+
+/**
+ * Answers a promise that resolves in a later macrotask, after pending
+ * timers and I/O callbacks have had their turn.
+ *
+ * Awaiting an actor's message delivery only yields to other microtasks,
+ * so a mailbox draining a long queue would otherwise keep timers, I/O,
+ * and actors messaged from them waiting until it is empty.
+ *
+ * @returns Promise resolving in a later macrotask
+ * @internal
+ */
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => {
+    if (typeof setImmediate === 'function') {
+      setImmediate(resolve)
+    } else {
+      setTimeout(resolve, 0)
+    }
+  })
+}
@@ -0,0 +1,172 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { LocalMessage } from './LocalMessage.js'
+import { Message } from './Message.js'
+import { OverflowPolicy } from './OverflowPolicy.js'
+
+/**
+ * Error rejecting a message sent to an actor that stopped before
+ * processing it. The message is also routed to dead letters.
+ */
+export class ActorStoppedError extends Error {
+  private _representation: string
+
+  /**
+   * Creates a stopped error.
+   * @param representation The representation of the message (e.g., 'deposit(100)')
+   */
+  constructor(representation: string) {
+    super(`Actor stopped before delivery: ${representation}`)
+    this.name = 'ActorStoppedError'
+    this._representation = representation
+  }
+
+  /**
+   * Returns the representation of the message not delivered.
+   * @returns Message representation
+   */
+  representation(): string {
+    return this._representation
+  }
+}
+
+/**
+ * Error rejecting a message dropped by a BoundedMailbox at capacity,
+ * according to its OverflowPolicy.
+ */
+export class MailboxOverflowError extends Error {
+  private _representation: string
+  private _policy: OverflowPolicy
+
+  /**
+   * Creates an overflow error.
+   * @param representation The representation of the message (e.g., 'deposit(100)')
+   * @param policy The overflow policy that dropped the message
+   */
+  constructor(representation: string, policy: OverflowPolicy) {
+    super(`Mailbox overflow (${OverflowPolicy[policy]}): ${representation}`)
+    this.name = 'MailboxOverflowError'
+    this._representation = representation
+    this._policy = policy
+  }
+
+  /**
+   * Returns the representation of the message dropped.
+   * @returns Message representation
+   */
+  representation(): string {
+    return this._representation
+  }
+
+  /**
+   * Returns the overflow policy that dropped the message.
+   * @returns The overflow policy
+   */
+  policy(): OverflowPolicy {
+    return this._policy
+  }
+}
+
+/**
+ * Error rejecting a message that its actor stashed when its stash was
+ * full. The message is also routed to dead letters.
+ */
+export class StashOverflowError extends Error {
+  private _representation: string
+  private _capacity: number
+
+  /**
+   * Creates a stash overflow error.
+   * @param representation The representation of the message (e.g., 'deposit(100)')
+   * @param capacity The capacity of the full stash
+   */
+  constructor(representation: string, capacity: number) {
+    super(`Stash full (${capacity}): ${representation}`)
+    this.name = 'StashOverflowError'
+    this._representation = representation
+    this._capacity = capacity
+  }
+
+  /**
+   * Returns the representation of the message not stashed.
+   * @returns Message representation
+   */
+  representation(): string {
+    return this._representation
+  }
+
+  /**
+   * Returns the capacity of the full stash.
+   * @returns Stash capacity
+   */
+  capacity(): number {
+    return this._capacity
+  }
+}
+
+/**
+ * Answers the sender of a message that its actor stopped before
+ * processing: rejects it with an ActorStoppedError, or resolves it with
+ * 'actor stopped' if the stage resolves undelivered messages. Stopping
+ * an actor that is already stopped succeeds.
+ *
+ * @param message The message not delivered
+ * @internal
+ */
+export function answerStopped(message: Message): void {
+  if (message instanceof LocalMessage && message.selector() === 'stop' && !message.to().stage().resolvesUndelivered()) {
+    message.deferred().resolve(undefined)
+    return
+  }
+
+  answerUndelivered(message, new ActorStoppedError(message.representation()), 'actor stopped')
+}
+
+/**
+ * Answers the sender of a message dropped on mailbox overflow: rejects
+ * it with a MailboxOverflowError, or resolves it with the given result
+ * if the stage resolves undelivered messages.
+ *
+ * @param message The message dropped
+ * @param policy The overflow policy that dropped the message
+ * @param result The result resolving the message in compatibility mode
+ * @internal
+ */
+export function answerOverflowed(message: Message, policy: OverflowPolicy, result: string): void {
+  answerUndelivered(message, new MailboxOverflowError(message.representation(), policy), result)
+}
+
+/**
+ * Answers the sender of a message not stashed because the stash was
+ * full: rejects it with a StashOverflowError, or resolves it with
+ * 'stash full' if the stage resolves undelivered messages.
+ *
+ * @param message The message not stashed
+ * @param capacity The capacity of the full stash
+ * @internal
+ */
+export function answerStashOverflowed(message: Message, capacity: number): void {
+  answerUndelivered(message, new StashOverflowError(message.representation(), capacity), 'stash full')
+}
+
+/**
+ * Rejects the message with the error, or resolves it with the result
+ * if the stage of its actor resolves undelivered messages.
+ *
+ * @param message The message not delivered
+ * @param error The error rejecting the message
+ * @param result The result resolving the message in compatibility mode
+ */
+function answerUndelivered(message: Message, error: Error, result: string): void {
+  if (message.to().stage().resolvesUndelivered()) {
+    message.deferred().resolve(result)
+  } else {
+    message.deferred().reject(error)
+  }
+}
@@ -0,0 +1,239 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { Address } from './Address.js'
+import { Environment } from './Environment.js'
+import { LocalMessage } from './LocalMessage.js'
+import { Message } from './Message.js'
+import { ReentrantMailbox } from './ReentrantMailbox.js'
+
+/**
+ * One actor of a deadlock waiting for another to answer a message.
+ */
+export interface WaitFor {
+  /** Address of the waiting actor */
+  readonly sender: Address
+  /** Address of the actor whose answer is awaited */
+  readonly receiver: Address
+  /** Representation of the awaited message (e.g., 'balance()') */
+  readonly representation: string
+}
+
+/**
+ * Error rejecting a message that closes a cycle of actors each waiting
+ * for the next to answer, none of which can then process another message.
+ */
+export class DeadlockError extends Error {
+  private _cycle: WaitFor[]
+
+  /**
+   * Creates a deadlock error.
+   * @param cycle The waits forming the cycle, the rejected message last
+   */
+  constructor(cycle: WaitFor[]) {
+    super(`Deadlock detected: ${DeadlockError.describe(cycle)}`)
+    this.name = 'DeadlockError'
+    this._cycle = cycle
+  }
+
+  /**
+   * Returns the waits forming the cycle, ending with the rejected message.
+   * @returns The waits of the cycle
+   */
+  cycle(): readonly WaitFor[] {
+    return this._cycle
+  }
+
+  /**
+   * Answers the cycle as "A -> m() -> B -> n() -> A".
+   * @param cycle The waits forming the cycle
+   * @returns Description of the cycle
+   */
+  private static describe(cycle: WaitFor[]): string {
+    const parts = [cycle[0]!.sender.valueAsString()]
+    for (const wait of cycle) {
+      parts.push(wait.representation, wait.receiver.valueAsString())
+    }
+    return parts.join(' -> ')
+  }
+}
+
+/**
+ * A message sent by an actor while processing another, not yet answered.
+ */
+interface PendingAsk {
+  sender: Environment
+  senderMessage: Message | undefined
+  receiver: Environment
+  representation: string
+}
+
+/**
+ * Graph of actors waiting for other actors to answer their messages,
+ * used to detect deadlocks among actors of a stage.
+ *
+ * Each message an actor sends to another actor while processing a
+ * message, and that expects an answer, is recorded until answered. The
+ * sender is considered waiting for it while still processing the message
+ * that sent it. A message that closes a cycle of waiting actors is
+ * withdrawn and rejected with a DeadlockError if the cycle persists once
+ * the handlers running when it was sent have suspended; a cycle that
+ * resolves itself meanwhile, because a sender did not await its message,
+ * is not a deadlock.
+ *
+ * Messages sent one-way, sent by an actor to itself, or sent by an actor
+ * with a ReentrantMailbox, which can process other messages while it
+ * waits, are not recorded. Nothing is recorded unless the stage detects
+ * deadlocks.
+ *
+ * @internal
+ */
+export class WaitForGraph {
+  private readonly pending = new Map<Environment, Set<PendingAsk>>()
+
+  /**
+   * Records that the sender awaits the message to the receiver. If the
+   * message closes a cycle, the cycle is confirmed after the running
+   * handlers have suspended, and the message is then rejected.
+   *
+   * @param sender The environment of the actor processing a message
+   * @param receiver The environment of the actor the message is sent to
+   * @param message The message expecting an answer
+   */
+  waitFor(sender: Environment, receiver: Environment, message: LocalMessage): void {
+    if (sender === receiver || sender.mailbox() instanceof ReentrantMailbox) {
+      return
+    }
+
+    const ask: PendingAsk = {
+      sender,
+      senderMessage: sender.getCurrentMessage(),
+      receiver,
+      representation: message.representation()
+    }
+
+    this.add(ask)
+
+    const release = () => this.remove(ask)
+    message.deferred().promise.then(release, release)
+
+    // Handlers of the cycle may still be running and not await their messages
+    if (this.pathOf(receiver, sender, new Set())) {
+      setTimeout(() => this.confirmDeadlock(ask, message), 0)
+    }
+  }
+
+  /**
+   * Returns the number of recorded messages not yet answered.
+   * @returns Number of pending messages
+   */
+  size(): number {
+    let size = 0
+    for (const asks of this.pending.values()) {
+      size += asks.size
+    }
+    return size
+  }
+
+  /**
+   * Answers the waits leading from one actor to another, if any.
+   * @param from The environment of the actor to start from
+   * @param to The environment of the actor to reach
+   * @param visited The environments already searched
+   * @returns The waits of the path, or undefined if none
+   */
+  private pathOf(from: Environment, to: Environment, visited: Set<Environment>): WaitFor[] | undefined {
+    visited.add(from)
+
+    for (const ask of this.pending.get(from) ?? []) {
+      if (!this.isWaiting(ask) || visited.has(ask.receiver) && ask.receiver !== to) {
+        continue
+      }
+
+      const wait: WaitFor = {
+        sender: ask.sender.address(),
+        receiver: ask.receiver.address(),
+        representation: ask.representation
+      }
+
+      if (ask.receiver === to) {
+        return [wait]
+      }
+
+      const rest = this.pathOf(ask.receiver, to, visited)
+      if (rest) {
+        return [wait, ...rest]
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * Rejects the message closing a cycle if the cycle still exists.
+   * @param ask The pending message closing the cycle
+   * @param message The message closing the cycle
+   */
+  private confirmDeadlock(ask: PendingAsk, message: LocalMessage): void {
+    if (!this.pending.get(ask.sender)?.has(ask) || !this.isWaiting(ask)) {
+      return
+    }
+
+    const path = this.pathOf(ask.receiver, ask.sender, new Set())
+    if (!path) {
+      return
+    }
+
+    path.push({
+      sender: ask.sender.address(),
+      receiver: ask.receiver.address(),
+      representation: ask.representation
+    })
+
+    this.remove(ask)
+    message.withdraw()
+    message.deferred().reject(new DeadlockError(path))
+  }
+
+  /**
+   * Answers whether the sender still awaits the message: it is still
+   * processing the message that sent it.
+   * @param ask The pending message
+   * @returns true if the sender is waiting
+   */
+  private isWaiting(ask: PendingAsk): boolean {
+    return ask.senderMessage !== undefined && ask.sender.getCurrentMessage() === ask.senderMessage
+  }
+
+  /**
+   * Records the pending message.
+   * @param ask The pending message
+   */
+  private add(ask: PendingAsk): void {
+    let asks = this.pending.get(ask.sender)
+    if (!asks) {
+      asks = new Set()
+      this.pending.set(ask.sender, asks)
+    }
+    asks.add(ask)
+  }
+
+  /**
+   * Removes the answered message.
+   * @param ask The pending message
+   */
+  private remove(ask: PendingAsk): void {
+    const asks = this.pending.get(ask.sender)
+    if (asks) {
+      asks.delete(ask)
+      if (asks.size === 0) {
+        this.pending.delete(ask.sender)
+      }
+    }
+  }
+}
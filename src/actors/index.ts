@@ -14,18 +14,28 @@
 
 // Core Actor Model
 export { Actor } from './Actor.js'
+export { Behavior, UnhandledMessageError } from './Behavior.js'
 export { ActorProtocol } from './ActorProtocol.js'
 export { Address } from './Address.js'
 export { Stage, stage } from './Stage.js'
+export { ActorOptions } from './ActorOptions.js'
 export { LocalStage } from './LocalStage.js'
-export { Protocol, ProtocolInstantiator } from './Protocol.js'
+export { Protocol, ProtocolInstantiator, ProtocolOptions, ActorClass, protocolFor } from './Protocol.js'
 export { Definition } from './Definition.js'
 
 // Mailboxes
-export { Mailbox } from './Mailbox.js'
+export { Mailbox, MailboxFactory } from './Mailbox.js'
 export { ArrayMailbox } from './ArrayMailbox.js'
 export { BoundedMailbox } from './BoundedMailbox.js'
+export { PriorityMailbox } from './PriorityMailbox.js'
+export { ReentrantMailbox } from './ReentrantMailbox.js'
+export { BatchingMailbox } from './BatchingMailbox.js'
+export { MailboxMetrics } from './MailboxMetrics.js'
+export { Histogram, HistogramBucket } from './Histogram.js'
+export { Stash } from './Stash.js'
 export { OverflowPolicy } from './OverflowPolicy.js'
+export { whenWritable } from './Backpressure.js'
+export { ActorStoppedError, MailboxOverflowError, StashOverflowError } from './Undelivered.js'
 
 // Supervision
 export {
@@ -37,12 +47,32 @@ export {
   DefaultSupervisionStrategy
 } from './Supervisor.js'
 export { DefaultSupervisor } from './DefaultSupervisor.js'
+export {
+  SupervisionEvent,
+  SupervisionEvents,
+  SupervisionEventType,
+  SupervisionEventListener
+} from './SupervisionEvents.js'
+export { BackoffSupervisor, BackoffSupervisionStrategy } from './BackoffSupervisor.js'
+export {
+  SupervisionPolicy,
+  SupervisionPolicyClause,
+  SupervisionRule,
+  SupervisionOverrides,
+  PolicySupervisor,
+  ErrorClass,
+  ErrorPredicate,
+  ErrorMatcher
+} from './SupervisionPolicy.js'
 
 // Lifecycle
-export { LifeCycle } from './LifeCycle.js'
+export { LifeCycle, HookFailurePolicy, LifeCycleHookError } from './LifeCycle.js'
 
 // Messaging
 export { Message } from './Message.js'
+export { tell, Tell } from './Tell.js'
+export { withTimeout, withSignal, withPriority, withTtl, AskOptions, AskTimeoutError, AbortError, MessageExpiredError } from './Ask.js'
+export { DeadlockError, WaitFor } from './WaitForGraph.js'
 export { DeadLetters, DeadLetter } from './DeadLetters.js'
 
 // Addressing
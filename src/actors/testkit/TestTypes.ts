@@ -16,7 +16,7 @@ import { Environment } from "../Environment.js"
 import { EmptyExecutionContext, ExecutionContext } from "../ExecutionContext.js"
 import { LifeCycle } from "../LifeCycle.js"
 import { DefaultLogger, Logger } from "../Logger.js"
-import { Protocol } from "../Protocol.js"
+import { Protocol, ProtocolInstantiator } from "../Protocol.js"
 import { Scheduler } from "../Scheduler.js"
 import { stage } from "../Stage.js"
 import { StageInternal } from "../StageInternal.js"
@@ -84,6 +84,28 @@ class TestDefinition extends Definition {
   }
 }
 
+/**
+ * No-op test implementation of Protocol.
+ * Test environments have no actor instance, so nothing is ever instantiated.
+ */
+class TestProtocol implements Protocol {
+  /**
+   * Returns an instantiator that creates no actor.
+   * @returns No-op protocol instantiator
+   */
+  instantiator(): ProtocolInstantiator {
+    return { instantiate: (_definition: Definition) => undefined as any }
+  }
+
+  /**
+   * Returns the fixed test type.
+   * @returns "TestActor"
+   */
+  type(): string {
+    return "TestActor"
+  }
+}
+
 /**
  * No-op test implementation of Environment.
  * Creates a minimal environment with test implementations of all dependencies.
@@ -93,7 +115,7 @@ class TestEnvironment extends Environment {
    * Creates a test environment with fixed test dependencies.
    */
   constructor() {
-    super(stage() as StageInternal, new TestAddress(), new TestDefinition(), new TestActorProtocol(), new ArrayMailbox(), DefaultLogger)
+    super(stage() as StageInternal, new TestAddress(), new TestDefinition(), new TestProtocol(), new TestActorProtocol(), new ArrayMailbox(), DefaultLogger)
   }
 }
 
@@ -0,0 +1,132 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import { AbortError, AskTimeoutError, withSignal, withTimeout } from '@/actors/Ask'
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Worker extends ActorProtocol {
+  record(entry: string): Promise<void>
+  work(steps: number): Promise<number>
+  hasSignal(): Promise<boolean>
+  entries(): Promise<string[]>
+}
+
+class WorkerActor extends Actor implements Worker {
+  private _entries: string[] = []
+
+  constructor() {
+    super()
+  }
+
+  async record(entry: string): Promise<void> {
+    this._entries.push(entry)
+  }
+
+  async work(steps: number): Promise<number> {
+    let step = 0
+    while (step < steps && !this.abortSignal()?.aborted) {
+      await new Promise(resolve => setTimeout(resolve, 5))
+      step++
+    }
+    this._entries.push(`worked ${step} of ${steps}`)
+    return step
+  }
+
+  async hasSignal(): Promise<boolean> {
+    return this.abortSignal() !== undefined
+  }
+
+  async entries(): Promise<string[]> {
+    return [...this._entries]
+  }
+}
+
+class WorkerInstantiator implements ProtocolInstantiator {
+  instantiate(_definition: Definition): Actor {
+    return new WorkerActor()
+  }
+}
+
+const WorkerProtocol: Protocol = {
+  instantiator: () => new WorkerInstantiator(),
+  type: () => 'Worker'
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Message cancellation with AbortSignal', () => {
+  it('should skip an aborted queued message and reject it with AbortError', async () => {
+    const worker: Worker = stage().actorFor(WorkerProtocol)
+    const controller = new AbortController()
+
+    worker.work(6)
+    const queued = withSignal(worker, controller.signal).record('aborted')
+    worker.record('kept')
+    controller.abort('no longer needed')
+
+    const error = await queued.catch(error => error)
+    expect(error).toBeInstanceOf(AbortError)
+    expect(error.cause).toBe('no longer needed')
+    expect(error.representation()).toBe('record(aborted)')
+    expect(await worker.entries()).toEqual(['worked 6 of 6', 'kept'])
+  })
+
+  it('should let the handler of an in-flight message observe the signal', async () => {
+    const worker: Worker = stage().actorFor(WorkerProtocol)
+    const controller = new AbortController()
+
+    const working = withSignal(worker, controller.signal).work(100)
+    await new Promise(resolve => setTimeout(resolve, 20))
+    controller.abort()
+
+    await expect(working).rejects.toBeInstanceOf(AbortError)
+
+    const entries = await worker.entries()
+    expect(entries.length).toBe(1)
+    expect(entries[0]).not.toBe('worked 100 of 100')
+  })
+
+  it('should reject messages sent with an already aborted signal without sending them', async () => {
+    const worker: Worker = stage().actorFor(WorkerProtocol)
+
+    await expect(withSignal(worker, AbortSignal.abort()).record('never')).rejects.toBeInstanceOf(AbortError)
+
+    expect(await worker.entries()).toEqual([])
+  })
+
+  it('should answer messages normally while the signal is not aborted', async () => {
+    const worker: Worker = stage().actorFor(WorkerProtocol)
+    const controller = new AbortController()
+
+    expect(await withSignal(worker, controller.signal).hasSignal()).toBe(true)
+    expect(await worker.hasSignal()).toBe(false)
+  })
+
+  it('should combine with an ask timeout', async () => {
+    const worker: Worker = stage().actorFor(WorkerProtocol)
+    const controller = new AbortController()
+    const view = withSignal(withTimeout(worker, 15), controller.signal)
+
+    await expect(view.work(10)).rejects.toBeInstanceOf(AskTimeoutError)
+
+    const aborted = view.record('aborted')
+    controller.abort()
+    await expect(aborted).rejects.toBeInstanceOf(AbortError)
+  })
+})
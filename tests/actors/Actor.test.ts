@@ -13,6 +13,7 @@ import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
 import { stage } from '@/actors/Stage'
 import { ActorProtocol } from '@/actors/ActorProtocol'
 import { TestDeadLettersListener } from '@/actors/testkit/TestDeadLettersListener'
+import { ActorStoppedError } from '@/actors/Undelivered'
 
 // ============================================================================
 // Named Protocol
@@ -335,8 +336,7 @@ describe('Actor Protocol - Lifecycle Methods', () => {
     stage().deadLetters().registerListener(listener)
 
     // Try to send a message after stop - should go to dead letters
-    // Don't await since the promise won't resolve (message goes to dead letters)
-    named.name('after-stop')
+    await expect(named.name('after-stop')).rejects.toBeInstanceOf(ActorStoppedError)
 
     expect(listener.latest()).toBeDefined()
     expect(listener.latest()!.message()).toBe('name(after-stop)')
@@ -636,8 +636,7 @@ describe('Actor Protocol - Error Handling', () => {
     stage().deadLetters().registerListener(listener)
 
     // Try to send a message after stop - should go to dead letters
-    // Don't await since the promise won't resolve (message goes to dead letters)
-    await named.name('to-deadletters')
+    await expect(named.name('to-deadletters')).rejects.toBeInstanceOf(ActorStoppedError)
 
     expect(listener.latest()).toBeDefined()
     expect(listener.latest()!.message()).toBe('name(to-deadletters)')
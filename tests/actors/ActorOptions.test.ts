@@ -0,0 +1,178 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect, afterEach } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import { ArrayMailbox } from '@/actors/ArrayMailbox'
+import { BoundedMailbox } from '@/actors/BoundedMailbox'
+import { INTERNAL_ENVIRONMENT_ACCESS, InternalActorAccess } from '@/actors/InternalAccess'
+import { OverflowPolicy } from '@/actors/OverflowPolicy'
+import { PriorityMailbox } from '@/actors/PriorityMailbox'
+import { ReentrantMailbox } from '@/actors/ReentrantMailbox'
+import { Uuid7Address } from '@/actors/Uuid7Address'
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+// Helper to access environment for testing purposes
+// In production code, clients should NOT have access to environment()
+function getEnvironment(actor: ActorProtocol): any {
+  return (actor as any as InternalActorAccess)[INTERNAL_ENVIRONMENT_ACCESS]()
+}
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Account extends ActorProtocol {
+  number(): Promise<string>
+  balance(): Promise<number>
+}
+
+class AccountActor extends Actor implements Account {
+  constructor(private readonly _number: string, private readonly _balance: number) {
+    super()
+  }
+
+  async number(): Promise<string> {
+    return this._number
+  }
+
+  async balance(): Promise<number> {
+    return this._balance
+  }
+}
+
+class AccountInstantiator implements ProtocolInstantiator<[string, number]> {
+  instantiate(definition: Definition<[string, number]>): Actor {
+    const [number, balance] = definition.parameters()
+    return new AccountActor(number, balance)
+  }
+}
+
+const AccountProtocol: Protocol<[string, number]> = {
+  instantiator: () => new AccountInstantiator(),
+  type: () => 'Account'
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('ActorOptions', () => {
+  afterEach(() => {
+    stage().registerMailboxFactory('default', () => new ArrayMailbox())
+  })
+
+  it('should create an actor with parameters given by name', async () => {
+    const account: Account = stage().actorFor(AccountProtocol, { parameters: ['ACC-1', 100] })
+
+    expect(await account.number()).toBe('ACC-1')
+    expect(await account.balance()).toBe(100)
+    expect(getEnvironment(account).mailbox()).toBeInstanceOf(ArrayMailbox)
+    expect(getEnvironment(account).supervisorName()).toBe('default')
+  })
+
+  it('should create an actor with a mailbox instance', async () => {
+    const mailbox = new ReentrantMailbox()
+    const account: Account = stage().actorFor(AccountProtocol, { mailbox, parameters: ['ACC-2', 0] })
+
+    expect(await account.number()).toBe('ACC-2')
+    expect(getEnvironment(account).mailbox()).toBe(mailbox)
+  })
+
+  it('should create an actor with a pre-registered mailbox by name', async () => {
+    const account: Account = stage().actorFor(AccountProtocol, { mailbox: 'priority', parameters: ['ACC-3', 0] })
+
+    expect(await account.number()).toBe('ACC-3')
+    expect(getEnvironment(account).mailbox()).toBeInstanceOf(PriorityMailbox)
+  })
+
+  it('should create an actor with a registered mailbox factory by name, a new mailbox each', async () => {
+    stage().registerMailboxFactory('bounded-1000-drop-oldest', () => new BoundedMailbox(1000, OverflowPolicy.DropOldest))
+
+    const first: Account = stage().actorFor(AccountProtocol, { mailbox: 'bounded-1000-drop-oldest', parameters: ['ACC-4', 0] })
+    const second: Account = stage().actorFor(AccountProtocol, { mailbox: 'bounded-1000-drop-oldest', parameters: ['ACC-5', 0] })
+
+    expect(await first.number()).toBe('ACC-4')
+    const mailbox = getEnvironment(first).mailbox()
+    expect(mailbox).toBeInstanceOf(BoundedMailbox)
+    expect(mailbox.getCapacity()).toBe(1000)
+    expect(getEnvironment(second).mailbox()).not.toBe(mailbox)
+  })
+
+  it('should create actors without a mailbox with the default mailbox factory', async () => {
+    stage().registerMailboxFactory('default', () => new PriorityMailbox())
+
+    const withOptions: Account = stage().actorFor(AccountProtocol, { parameters: ['ACC-6', 0] })
+    const positional: Account = stage().actorFor(AccountProtocol, undefined, undefined, undefined, 'ACC-7', 0)
+
+    expect(getEnvironment(withOptions).mailbox()).toBeInstanceOf(PriorityMailbox)
+    expect(getEnvironment(positional).mailbox()).toBeInstanceOf(PriorityMailbox)
+    expect(await positional.number()).toBe('ACC-7')
+  })
+
+  it('should reject a mailbox factory name not registered', () => {
+    expect(() => stage().actorFor(AccountProtocol, { mailbox: 'missing' })).toThrow('Mailbox factory not registered: missing')
+    expect(() => stage().mailbox('missing')).toThrow('Mailbox factory not registered: missing')
+  })
+
+  it('should create an actor with a parent and supervisor by name', async () => {
+    const parent: Account = stage().actorFor(AccountProtocol, { parameters: ['ACC-8', 0] })
+
+    const child: Account = stage().actorFor(AccountProtocol, {
+      parent,
+      supervisor: 'account-supervisor',
+      parameters: ['ACC-9', 0]
+    })
+
+    expect(await child.number()).toBe('ACC-9')
+    expect(getEnvironment(child).parent()).toBe(parent)
+    expect(getEnvironment(child).supervisorName()).toBe('account-supervisor')
+  })
+
+  it('should create an actor with a name as its type', async () => {
+    const account: Account = stage().actorFor(AccountProtocol, { name: 'savings-account', parameters: ['ACC-11', 0] })
+
+    expect(account.type()).toBe('savings-account')
+    expect(stage().directory().findByType('savings-account')).toBe(account)
+  })
+
+  it('should create an actor at a given address and reject one already in use', async () => {
+    const address = Uuid7Address.unique()
+
+    const account: Account = stage().actorFor(AccountProtocol, { address, parameters: ['ACC-12', 0] })
+
+    expect(account.address()).toBe(address)
+    expect(await stage().actorOf(address)).toBe(account)
+    expect(() => stage().actorFor(AccountProtocol, { address, parameters: ['ACC-13', 0] }))
+      .toThrow(`Actor already exists at address: ${address.valueAsString()}`)
+  })
+
+  it('should pass parameters that look like mailboxes as parameters', async () => {
+    const channel = { send: () => {}, receive: () => {} }
+
+    const account: Account = stage().actorFor(AccountProtocol as Protocol, { parameters: [channel, 0] })
+
+    expect(await account.number()).toBe(channel)
+    expect(getEnvironment(account).mailbox()).toBeInstanceOf(ArrayMailbox)
+  })
+
+  it('should still accept positional arguments', async () => {
+    const mailbox = new ArrayMailbox()
+    const account: Account = stage().actorFor(AccountProtocol, undefined, 'default', mailbox, 'ACC-10', 5)
+
+    expect(await account.balance()).toBe(5)
+    expect(getEnvironment(account).mailbox()).toBe(mailbox)
+  })
+})
@@ -0,0 +1,286 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import {
+  Supervised,
+  SupervisionStrategy,
+  SupervisionScope,
+  SupervisionDirective
+} from '@/actors/Supervisor'
+import { DefaultSupervisor } from '@/actors/DefaultSupervisor'
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Tally extends ActorProtocol {
+  add(amount: number): Promise<void>
+  total(): Promise<number>
+  label(): Promise<string>
+  fail(): Promise<void>
+  spawnChild(): Promise<ActorProtocol>
+}
+
+interface TallySnapshot {
+  total: number
+}
+
+class TallyActor extends Actor implements Tally {
+  private _total: number = 0
+  private _label: string
+  private _keepSnapshot: boolean
+  private _beforeStartCount: number = 0
+  private _afterRestartCount: number = 0
+
+  constructor(label: string, keepSnapshot: boolean) {
+    super()
+    this._label = label
+    this._keepSnapshot = keepSnapshot
+  }
+
+  async add(amount: number): Promise<void> {
+    this._total += amount
+  }
+
+  async total(): Promise<number> {
+    return this._total
+  }
+
+  async label(): Promise<string> {
+    return this._label
+  }
+
+  async fail(): Promise<void> {
+    throw new Error('Intentional tally failure')
+  }
+
+  async spawnChild(): Promise<ActorProtocol> {
+    const definition = new Definition('Tally', this.address(), ['child', false])
+    return this.childActorFor(TallyProtocol, definition)
+  }
+
+  beforeStart(): void {
+    super.beforeStart()
+    this._beforeStartCount++
+  }
+
+  afterRestart(reason: Error): void {
+    super.afterRestart(reason)
+    this._afterRestartCount++
+  }
+
+  stateSnapshot<S>(stateSnapshot: S): void
+  stateSnapshot<S>(): S
+  stateSnapshot<S>(stateSnapshot?: S): S | void {
+    if (stateSnapshot !== undefined) {
+      this._total = (stateSnapshot as unknown as TallySnapshot).total
+      return
+    }
+    return (this._keepSnapshot ? { total: this._total } : undefined) as S
+  }
+
+  beforeStartCount(): number {
+    return this._beforeStartCount
+  }
+
+  afterRestartCount(): number {
+    return this._afterRestartCount
+  }
+}
+
+class TallyRestartingSupervisor extends DefaultSupervisor {
+  async supervisionStrategy(): Promise<SupervisionStrategy> {
+    return new class extends SupervisionStrategy {
+      intensity(): number { return 10 }
+      period(): number { return 5000 }
+      scope(): SupervisionScope { return SupervisionScope.One }
+    }
+  }
+
+  protected decideDirective(
+    _error: Error,
+    _supervised: Supervised,
+    _strategy: SupervisionStrategy
+  ): SupervisionDirective {
+    return SupervisionDirective.Restart
+  }
+}
+
+// ============================================================================
+// Protocol Definitions
+// ============================================================================
+
+const tallyActors: Map<string, TallyActor[]> = new Map()
+
+class TallyInstantiator implements ProtocolInstantiator {
+  instantiate(definition: Definition): Actor {
+    const params = definition.parameters()
+    const address = definition.address().valueAsString()
+    if (params[0] === 'unrestartable' && tallyActors.has(address)) {
+      throw new Error('Intentional instantiation failure')
+    }
+    const actor = new TallyActor(params[0], params[1])
+    tallyActors.set(address, [...(tallyActors.get(address) || []), actor])
+    return actor
+  }
+}
+
+const TallyProtocol: Protocol = {
+  instantiator: () => new TallyInstantiator(),
+  type: () => 'Tally'
+}
+
+class TallyRestartingSupervisorInstantiator implements ProtocolInstantiator {
+  instantiate(_definition: Definition): Actor {
+    return new TallyRestartingSupervisor()
+  }
+}
+
+const TallyRestartingSupervisorProtocol: Protocol = {
+  instantiator: () => new TallyRestartingSupervisorInstantiator(),
+  type: () => 'tally-restarting-supervisor'
+}
+
+function instancesOf(proxy: ActorProtocol): TallyActor[] {
+  return tallyActors.get(proxy.address().valueAsString()) || []
+}
+
+async function failAndRestart(proxy: Tally): Promise<void> {
+  await proxy.fail().catch(() => {})
+  await new Promise(resolve => setTimeout(resolve, 20))
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Actor restart', () => {
+  let errorSpy: ReturnType<typeof vi.spyOn>
+  let logSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    tallyActors.clear()
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+    stage().actorFor(TallyRestartingSupervisorProtocol, undefined, 'default')
+  })
+
+  afterEach(() => {
+    errorSpy.mockRestore()
+    logSpy.mockRestore()
+  })
+
+  function tallyFor(label: string, keepSnapshot: boolean = false): Tally {
+    return stage().actorFor(
+      TallyProtocol,
+      undefined,
+      'tally-restarting-supervisor',
+      label,
+      keepSnapshot
+    )
+  }
+
+  it('should replace the failed instance with a new one', async () => {
+    const tally = tallyFor('replaced')
+    await tally.add(1)
+
+    await failAndRestart(tally)
+
+    const instances = instancesOf(tally)
+    expect(instances.length).toBe(2)
+    expect(instances[1]).not.toBe(instances[0])
+    expect(instances[1].lifeCycle().environment().actor()).toBe(instances[1])
+  })
+
+  it('should reset in-memory state without an afterRestart override', async () => {
+    const tally = tallyFor('reset')
+    await tally.add(5)
+    await tally.add(7)
+    expect(await tally.total()).toBe(12)
+
+    await failAndRestart(tally)
+
+    expect(await tally.total()).toBe(0)
+  })
+
+  it('should re-create the instance with the original definition parameters', async () => {
+    const tally = tallyFor('original-label')
+
+    await failAndRestart(tally)
+
+    expect(await tally.label()).toBe('original-label')
+  })
+
+  it('should carry state across the restart via stateSnapshot', async () => {
+    const tally = tallyFor('snapshot', true)
+    await tally.add(3)
+    await tally.add(4)
+
+    await failAndRestart(tally)
+
+    expect(instancesOf(tally).length).toBe(2)
+    expect(await tally.total()).toBe(7)
+  })
+
+  it('should keep address, proxy, and mailbox so messages still arrive', async () => {
+    const tally = tallyFor('same-address')
+    const address = tally.address()
+
+    await failAndRestart(tally)
+
+    expect(tally.address()).toBe(address)
+    expect(tally.isStopped()).toBe(false)
+
+    await tally.add(2)
+    expect(await tally.total()).toBe(2)
+  })
+
+  it('should keep the children of the restarted actor', async () => {
+    const tally = tallyFor('parent')
+    const child = await tally.spawnChild()
+
+    await failAndRestart(tally)
+
+    const restarted = instancesOf(tally)[1]
+    const children = restarted.lifeCycle().environment().children()
+    expect(children.length).toBe(1)
+    expect(children[0].address().equals(child.address())).toBe(true)
+    expect(child.isStopped()).toBe(false)
+  })
+
+  it('should call afterRestart on the new instance but not beforeStart', async () => {
+    const tally = tallyFor('hooks')
+
+    await failAndRestart(tally)
+
+    const [original, restarted] = instancesOf(tally)
+    expect(original.beforeStartCount()).toBe(1)
+    expect(original.afterRestartCount()).toBe(0)
+    expect(restarted.beforeStartCount()).toBe(0)
+    expect(restarted.afterRestartCount()).toBe(1)
+  })
+
+  it('should keep the previous instance and no current environment when re-instantiation fails', async () => {
+    const tally = tallyFor('unrestartable')
+    await tally.add(3)
+
+    await failAndRestart(tally)
+
+    const [original] = instancesOf(tally)
+    expect(instancesOf(tally).length).toBe(1)
+    expect(original.lifeCycle().environment().actor()).toBe(original)
+    expect(() => new TallyActor('orphan', false)).toThrow('No environment available')
+  })
+})
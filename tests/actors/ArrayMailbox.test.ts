@@ -13,6 +13,7 @@ import { Definition } from '@/actors/Definition'
 import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
 import { stage } from '@/actors/Stage'
 import { ArrayMailbox } from '@/actors/ArrayMailbox'
+import { ActorStoppedError } from '@/actors/Undelivered'
 
 // ============================================================================
 // Test Actors
@@ -245,7 +246,7 @@ describe('ArrayMailbox', () => {
       mailbox.close()
 
       // Further messages should not be delivered
-      actor.add(2)
+      await expect(actor.add(2)).rejects.toBeInstanceOf(ActorStoppedError)
       await new Promise(resolve => setTimeout(resolve, 30))
 
       expect(mailbox.isClosed()).toBe(true)
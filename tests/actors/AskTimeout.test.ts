@@ -0,0 +1,123 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import { AskTimeoutError, withTimeout } from '@/actors/Ask'
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Recorder extends ActorProtocol {
+  record(entry: string): Promise<void>
+  recordSlowly(entry: string, delay: number): Promise<void>
+  entries(): Promise<string[]>
+}
+
+class RecorderActor extends Actor implements Recorder {
+  private _entries: string[] = []
+
+  constructor() {
+    super()
+  }
+
+  async record(entry: string): Promise<void> {
+    this._entries.push(entry)
+  }
+
+  async recordSlowly(entry: string, delay: number): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, delay))
+    this._entries.push(entry)
+  }
+
+  async entries(): Promise<string[]> {
+    return [...this._entries]
+  }
+}
+
+class RecorderInstantiator implements ProtocolInstantiator {
+  instantiate(_definition: Definition): Actor {
+    return new RecorderActor()
+  }
+}
+
+const RecorderProtocol: Protocol = {
+  instantiator: () => new RecorderInstantiator(),
+  type: () => 'Recorder'
+}
+
+async function sleep(delay: number): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, delay))
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Ask timeouts', () => {
+  it('should answer messages answered within the timeout', async () => {
+    const recorder: Recorder = stage().actorFor(RecorderProtocol)
+
+    await withTimeout(recorder, 100).record('first')
+
+    expect(await withTimeout(recorder, 100).entries()).toEqual(['first'])
+  })
+
+  it('should reject with AskTimeoutError when not answered within the timeout', async () => {
+    const recorder: Recorder = stage().actorFor(RecorderProtocol)
+
+    const error = await withTimeout(recorder, 20).recordSlowly('slow', 100).catch(error => error)
+
+    expect(error).toBeInstanceOf(AskTimeoutError)
+    expect(error.timeout()).toBe(20)
+    expect(error.representation()).toBe('recordSlowly(slow,100)')
+  })
+
+  it('should still deliver a timed out message late by default', async () => {
+    const recorder: Recorder = stage().actorFor(RecorderProtocol)
+
+    recorder.recordSlowly('slow', 60)
+    await expect(withTimeout(recorder, 20).record('late')).rejects.toBeInstanceOf(AskTimeoutError)
+
+    expect(await recorder.entries()).toEqual(['slow', 'late'])
+  })
+
+  it('should withdraw a message still queued on timeout when discarding', async () => {
+    const recorder: Recorder = stage().actorFor(RecorderProtocol)
+
+    recorder.recordSlowly('slow', 60)
+    await expect(withTimeout(recorder, 20, true).record('late')).rejects.toBeInstanceOf(AskTimeoutError)
+    recorder.record('next')
+
+    expect(await recorder.entries()).toEqual(['slow', 'next'])
+  })
+
+  it('should serve as the default timeout of every call on the view', async () => {
+    const recorder: Recorder = stage().actorFor(RecorderProtocol)
+    const patient = withTimeout(recorder, 20)
+
+    await patient.record('first')
+    await expect(patient.recordSlowly('slow', 60)).rejects.toBeInstanceOf(AskTimeoutError)
+    await sleep(60)
+
+    expect(patient.address().equals(recorder.address())).toBe(true)
+    expect(patient.isStopped()).toBe(false)
+    expect(await withTimeout(patient, 100).entries()).toEqual(['first', 'slow'])
+  })
+
+  it('should reject a timeout that is not positive', () => {
+    const recorder: Recorder = stage().actorFor(RecorderProtocol)
+
+    expect(() => withTimeout(recorder, 0)).toThrow('Ask timeout must be positive: 0')
+  })
+})
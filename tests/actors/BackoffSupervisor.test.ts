@@ -0,0 +1,228 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import {
+  Supervised,
+  SupervisionDirective,
+  SupervisionStrategy
+} from '@/actors/Supervisor'
+import { BackoffSupervisor, BackoffSupervisionStrategy } from '@/actors/BackoffSupervisor'
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Flaky extends ActorProtocol {
+  fail(): Promise<void>
+  ping(): Promise<string>
+}
+
+class FlakyActor extends Actor implements Flaky {
+  constructor() {
+    super()
+  }
+
+  async fail(): Promise<void> {
+    throw new Error('Flaky failure')
+  }
+
+  async ping(): Promise<string> {
+    return 'pong'
+  }
+}
+
+const flakyInstances: Map<string, number[]> = new Map()
+
+class FlakyInstantiator implements ProtocolInstantiator {
+  instantiate(definition: Definition): Actor {
+    const address = definition.address().valueAsString()
+    flakyInstances.set(address, [...(flakyInstances.get(address) || []), Date.now()])
+    return new FlakyActor()
+  }
+}
+
+const FlakyProtocol: Protocol = {
+  instantiator: () => new FlakyInstantiator(),
+  type: () => 'Flaky'
+}
+
+class TestBackoffSupervisor extends BackoffSupervisor {
+  supervisionStrategy(): Promise<SupervisionStrategy> {
+    return Promise.resolve(new BackoffSupervisionStrategy(40, 160, 0, 150))
+  }
+}
+
+class ResumingBackoffSupervisor extends TestBackoffSupervisor {
+  protected decideDirective(
+    _error: Error,
+    _supervised: Supervised,
+    _strategy: SupervisionStrategy
+  ): SupervisionDirective {
+    return SupervisionDirective.Resume
+  }
+}
+
+function supervisorProtocol(name: string, create: () => Actor): Protocol {
+  return {
+    instantiator: () => ({ instantiate: (_definition: Definition) => create() }),
+    type: () => name
+  }
+}
+
+function restartsOf(proxy: ActorProtocol): number {
+  return (flakyInstances.get(proxy.address().valueAsString()) || []).length - 1
+}
+
+async function sleep(ms: number): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('BackoffSupervisionStrategy', () => {
+  it('should double the delay for each attempt starting at min backoff', () => {
+    const strategy = new BackoffSupervisionStrategy(100, 10000, 0, 60000)
+
+    expect(strategy.backoffFor(0)).toBe(100)
+    expect(strategy.backoffFor(1)).toBe(200)
+    expect(strategy.backoffFor(2)).toBe(400)
+    expect(strategy.backoffFor(3)).toBe(800)
+  })
+
+  it('should limit the delay to max backoff', () => {
+    const strategy = new BackoffSupervisionStrategy(100, 1000, 0, 60000)
+
+    expect(strategy.backoffFor(4)).toBe(1000)
+    expect(strategy.backoffFor(50)).toBe(1000)
+  })
+
+  it('should add jitter up to the random factor without exceeding max backoff', () => {
+    const strategy = new BackoffSupervisionStrategy(100, 1000, 0.5, 60000)
+
+    expect(strategy.backoffFor(0, 0)).toBe(100)
+    expect(strategy.backoffFor(0, 0.5)).toBe(125)
+    expect(strategy.backoffFor(1, 0.99)).toBeLessThan(300)
+    expect(strategy.backoffFor(3, 0.99)).toBe(1000)
+  })
+
+  it('should use defaults that never limit restarts by intensity', () => {
+    const strategy = new BackoffSupervisionStrategy()
+
+    expect(strategy.minBackoff()).toBe(BackoffSupervisionStrategy.DefaultMinBackoff)
+    expect(strategy.maxBackoff()).toBe(BackoffSupervisionStrategy.DefaultMaxBackoff)
+    expect(strategy.randomFactor()).toBe(BackoffSupervisionStrategy.DefaultRandomFactor)
+    expect(strategy.resetAfter()).toBe(BackoffSupervisionStrategy.DefaultResetAfter)
+    expect(strategy.intensity()).toBe(SupervisionStrategy.ForeverIntensity)
+    expect(strategy.period()).toBe(SupervisionStrategy.ForeverPeriod)
+  })
+
+  it('should reject invalid values', () => {
+    expect(() => new BackoffSupervisionStrategy(-1, 100)).toThrow()
+    expect(() => new BackoffSupervisionStrategy(200, 100)).toThrow()
+  })
+})
+
+describe('BackoffSupervisor', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>
+  let errorSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    flakyInstances.clear()
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    logSpy.mockRestore()
+    errorSpy.mockRestore()
+  })
+
+  it('should keep the mailbox suspended until the backoff elapses, then restart', async () => {
+    stage().actorFor(supervisorProtocol('backoff-delay', () => new TestBackoffSupervisor()), undefined, 'default')
+    const flaky: Flaky = stage().actorFor(FlakyProtocol, undefined, 'backoff-delay')
+
+    await flaky.fail().catch(() => {})
+    const pinged = flaky.ping()
+
+    await sleep(15)
+    expect(restartsOf(flaky)).toBe(0)
+    expect(flaky.lifeCycle().environment().mailbox().isSuspended()).toBe(true)
+
+    await sleep(60)
+    expect(restartsOf(flaky)).toBe(1)
+    expect(await pinged).toBe('pong')
+  })
+
+  it('should lengthen the delay for consecutive failures', async () => {
+    stage().actorFor(supervisorProtocol('backoff-growth', () => new TestBackoffSupervisor()), undefined, 'default')
+    const flaky: Flaky = stage().actorFor(FlakyProtocol, undefined, 'backoff-growth')
+
+    await flaky.fail().catch(() => {})
+    await sleep(60)
+    expect(restartsOf(flaky)).toBe(1)
+
+    // Second consecutive failure waits 80ms
+    await flaky.fail().catch(() => {})
+    await sleep(50)
+    expect(restartsOf(flaky)).toBe(1)
+
+    await sleep(60)
+    expect(restartsOf(flaky)).toBe(2)
+  })
+
+  it('should reset the backoff after a stable period', async () => {
+    stage().actorFor(supervisorProtocol('backoff-reset', () => new TestBackoffSupervisor()), undefined, 'default')
+    const flaky: Flaky = stage().actorFor(FlakyProtocol, undefined, 'backoff-reset')
+
+    await flaky.fail().catch(() => {})
+    await sleep(60)
+    expect(restartsOf(flaky)).toBe(1)
+
+    // Run without failure longer than resetAfter
+    await sleep(170)
+
+    await flaky.fail().catch(() => {})
+    await sleep(60)
+    expect(restartsOf(flaky)).toBe(2)
+  })
+
+  it('should apply other directives immediately', async () => {
+    stage().actorFor(supervisorProtocol('backoff-resume', () => new ResumingBackoffSupervisor()), undefined, 'default')
+    const flaky: Flaky = stage().actorFor(FlakyProtocol, undefined, 'backoff-resume')
+
+    await flaky.fail().catch(() => {})
+    await sleep(10)
+
+    expect(restartsOf(flaky)).toBe(0)
+    expect(await flaky.ping()).toBe('pong')
+  })
+
+  it('should forget the backoff of a restarted actor once it stops', async () => {
+    let supervisor!: TestBackoffSupervisor
+    stage().actorFor(supervisorProtocol('backoff-forget', () => supervisor = new TestBackoffSupervisor()), undefined, 'default')
+    const flaky: Flaky = stage().actorFor(FlakyProtocol, undefined, 'backoff-forget')
+
+    await flaky.fail().catch(() => {})
+    await sleep(60)
+    expect(restartsOf(flaky)).toBe(1)
+    expect((supervisor as any)._backoffs.size).toBe(1)
+
+    await flaky.stop()
+    await sleep(10)
+
+    expect((supervisor as any)._backoffs.size).toBe(0)
+  })
+})
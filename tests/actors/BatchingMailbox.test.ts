@@ -0,0 +1,258 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import { MessageExpiredError, withSignal, withTtl } from '@/actors/Ask'
+import { BatchingMailbox } from '@/actors/BatchingMailbox'
+import { INTERNAL_ENVIRONMENT_ACCESS, InternalActorAccess } from '@/actors/InternalAccess'
+import { ActorStoppedError } from '@/actors/Undelivered'
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+// Helper to access environment for testing purposes
+// In production code, clients should NOT have access to environment()
+function getEnvironment(actor: ActorProtocol): any {
+  return (actor as any as InternalActorAccess)[INTERNAL_ENVIRONMENT_ACCESS]()
+}
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Journal extends ActorProtocol {
+  append(entry: string): Promise<number>
+  touch(entry: string): Promise<number>
+  entries(): Promise<string[]>
+  batchSizes(): Promise<number[]>
+}
+
+class JournalActor extends Actor implements Journal {
+  private _entries: string[] = []
+  private _batchSizes: number[] = []
+  private _touches = 0
+
+  constructor() {
+    super()
+  }
+
+  async append(entry: string): Promise<number> {
+    return (await this.appendAll([[entry]]))[0]!
+  }
+
+  async appendAll(calls: [string][]): Promise<number[]> {
+    this._batchSizes.push(calls.length)
+    if (calls.some(([entry]) => entry === 'fail')) {
+      throw new Error('journal failed')
+    }
+    await new Promise(resolve => setTimeout(resolve, 1))
+    return calls.map(([entry]) => this._entries.push(entry) - 1)
+  }
+
+  async touch(_entry: string): Promise<number> {
+    return ++this._touches
+  }
+
+  async touchAll(calls: [string][]): Promise<number> {
+    this._touches += calls.length
+    return this._touches
+  }
+
+  async entries(): Promise<string[]> {
+    return [...this._entries]
+  }
+
+  async batchSizes(): Promise<number[]> {
+    return [...this._batchSizes]
+  }
+}
+
+class JournalInstantiator implements ProtocolInstantiator {
+  instantiate(_definition: Definition): Actor {
+    return new JournalActor()
+  }
+}
+
+const JournalProtocol: Protocol = {
+  instantiator: () => new JournalInstantiator(),
+  type: () => 'Journal'
+}
+
+const Batchable = { append: 'appendAll', touch: 'touchAll' }
+
+function journalWith(mailbox: BatchingMailbox): Journal {
+  return stage().actorFor(JournalProtocol, undefined, 'default', mailbox)
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('BatchingMailbox', () => {
+  let errorSpy: ReturnType<typeof vi.spyOn>
+  let logSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    errorSpy.mockRestore()
+    logSpy.mockRestore()
+  })
+
+  it('should coalesce queued calls into one invocation of the batch handler', async () => {
+    const journal = journalWith(new BatchingMailbox(Batchable))
+    await journal.entries()
+    await new Promise(resolve => setTimeout(resolve, 0))
+
+    const positions = await Promise.all(['a', 'b', 'c', 'd', 'e'].map(entry => journal.append(entry)))
+
+    expect(positions).toEqual([0, 1, 2, 3, 4])
+    expect(await journal.entries()).toEqual(['a', 'b', 'c', 'd', 'e'])
+    // The first call is delivered alone, before the others are queued
+    expect(await journal.batchSizes()).toEqual([1, 4])
+  })
+
+  it('should wait up to the max delay for calls to join a batch', async () => {
+    const journal = journalWith(new BatchingMailbox(Batchable, 10, 20))
+
+    const first = journal.append('a')
+    await new Promise(resolve => setTimeout(resolve, 5))
+    const rest = ['b', 'c'].map(entry => journal.append(entry))
+
+    expect(await Promise.all([first, ...rest])).toEqual([0, 1, 2])
+    expect(await journal.batchSizes()).toEqual([3])
+  })
+
+  it('should limit batches to the max batch size and deliver full batches without waiting', async () => {
+    const journal = journalWith(new BatchingMailbox(Batchable, 3, 10_000))
+
+    const started = Date.now()
+    const positions = await Promise.all(['a', 'b', 'c', 'd', 'e', 'f'].map(entry => journal.append(entry)))
+
+    expect(positions).toEqual([0, 1, 2, 3, 4, 5])
+    expect(await journal.batchSizes()).toEqual([3, 3])
+    expect(Date.now() - started).toBeLessThan(1000)
+  })
+
+  it('should not coalesce calls across other messages', async () => {
+    const journal = journalWith(new BatchingMailbox(Batchable, 10, 20))
+
+    const appends = [journal.append('a'), journal.append('b')]
+    const entries = journal.entries()
+    appends.push(journal.append('c'))
+
+    expect(await entries).toEqual(['a', 'b'])
+    expect(await Promise.all(appends)).toEqual([0, 1, 2])
+    expect(await journal.batchSizes()).toEqual([2, 1])
+  })
+
+  it('should resolve every caller with a result that is not an array', async () => {
+    const journal = journalWith(new BatchingMailbox(Batchable, 10, 20))
+
+    const touches = await Promise.all(['a', 'b', 'c'].map(entry => journal.touch(entry)))
+
+    expect(touches).toEqual([3, 3, 3])
+  })
+
+  it('should reject every caller when the batch handler fails and continue after supervision', async () => {
+    const journal = journalWith(new BatchingMailbox(Batchable, 10, 20))
+
+    const results = await Promise.allSettled(['a', 'fail', 'b'].map(entry => journal.append(entry)))
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected', 'rejected'])
+    expect((results[0] as PromiseRejectedResult).reason.message).toBe('journal failed')
+
+    expect(await journal.append('c')).toBe(0)
+  })
+
+  it('should reject the calls of a filling batch when the actor stops', async () => {
+    const journal = journalWith(new BatchingMailbox(Batchable, 10, 10_000))
+
+    const appends = ['a', 'b'].map(entry => journal.append(entry))
+    await new Promise(resolve => setTimeout(resolve, 5))
+
+    // Stopped directly, as by a supervisor, while the mailbox waits for the batch to fill
+    getEnvironment(journal).actor().lifeCycle().stop()
+
+    const results = await Promise.allSettled(appends)
+
+    expect(results.map(result => result.status === 'rejected' && result.reason instanceof ActorStoppedError)).toEqual([true, true])
+    expect(await journal.batchSizes().catch(error => error)).toBeInstanceOf(ActorStoppedError)
+  })
+
+  it('should queue the first call again when suspended while the batch is filling', async () => {
+    const mailbox = new BatchingMailbox(Batchable, 10, 20)
+    const journal = journalWith(mailbox)
+
+    const first = journal.append('a')
+    await new Promise(resolve => setTimeout(resolve, 5))
+    mailbox.suspend()
+    await new Promise(resolve => setTimeout(resolve, 30))
+    const second = journal.append('b')
+
+    mailbox.resume()
+
+    expect(await Promise.all([first, second])).toEqual([0, 1])
+    expect(await journal.batchSizes()).toEqual([2])
+  })
+
+  it('should deliver calls sent with options alone', async () => {
+    const journal = journalWith(new BatchingMailbox(Batchable, 10, 20))
+    const controller = new AbortController()
+
+    const appends = [
+      journal.append('a'),
+      withSignal(journal, controller.signal).append('b'),
+      journal.append('c'),
+      withTtl(journal, 10_000).append('d'),
+      journal.append('e'),
+      journal.append('f')
+    ]
+
+    expect(await Promise.all(appends)).toEqual([0, 1, 2, 3, 4, 5])
+    expect(await journal.batchSizes()).toEqual([1, 1, 1, 1, 2])
+  })
+
+  it('should not deliver a first call expired while the batch is filling', async () => {
+    const journal = journalWith(new BatchingMailbox(Batchable, 10, 30, 10))
+    await journal.entries()
+    await new Promise(resolve => setTimeout(resolve, 0))
+
+    await expect(journal.append('a')).rejects.toThrow(MessageExpiredError)
+    expect(await journal.entries()).toEqual([])
+    expect(await journal.batchSizes()).toEqual([])
+  })
+
+  it('should record metrics for each call of a batch', async () => {
+    const mailbox = new BatchingMailbox(Batchable, 10, 20)
+    mailbox.metrics().enable()
+    const journal = journalWith(mailbox)
+
+    await Promise.all(['a', 'b', 'c'].map(entry => journal.append(entry)))
+
+    expect(await journal.batchSizes()).toEqual([3])
+    expect(mailbox.metrics().processingTime('append')!.count()).toBe(3)
+    expect(mailbox.metrics().processingTime('appendAll')).toBeUndefined()
+  })
+
+  it('should reject invalid configuration', () => {
+    expect(() => new BatchingMailbox(Batchable, 0)).toThrow('Mailbox max batch size must be positive')
+    expect(() => new BatchingMailbox(Batchable, 10, -1)).toThrow('Mailbox max delay must not be negative')
+    expect(() => new BatchingMailbox(Batchable, 10, 0, 0)).toThrow('Mailbox time to live must be positive')
+    expect(() => new BatchingMailbox(Batchable, 10, 0, undefined, 0)).toThrow('Mailbox throughput must be positive')
+  })
+})
@@ -0,0 +1,215 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import { Behavior, UnhandledMessageError } from '@/actors/Behavior'
+import { DeadLetter, DeadLettersListener } from '@/actors/DeadLetters'
+import { tell } from '@/actors/Tell'
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Door extends ActorProtocol {
+  open(): Promise<void>
+  close(): Promise<void>
+  lock(): Promise<void>
+  unlock(): Promise<void>
+  state(): Promise<string>
+  fail(): Promise<void>
+}
+
+class DoorActor extends Actor implements Door {
+  private readonly opened: Behavior<Door> = {
+    close: async () => this.become(this.closed),
+    state: async () => 'opened',
+    fail: async () => { throw new Error('door failed while opened') }
+  }
+
+  private readonly closed: Behavior<Door> = {
+    open: async () => this.become(this.opened),
+    lock: async () => this.become(this.locked, false),
+    state: async () => 'closed'
+  }
+
+  private readonly locked: Behavior<Door> = {
+    unlock: async () => this.unbecome(),
+    state: async () => 'locked'
+  }
+
+  constructor() {
+    super()
+  }
+
+  async open(): Promise<void> {
+    this.become(this.opened)
+  }
+
+  async close(): Promise<void> {
+    throw new Error('already closed')
+  }
+
+  async lock(): Promise<void> {
+    this.become(this.locked, false)
+  }
+
+  async unlock(): Promise<void> {
+    throw new Error('not locked')
+  }
+
+  async state(): Promise<string> {
+    return 'initial'
+  }
+
+  async fail(): Promise<void> {
+    throw new Error('door failed')
+  }
+}
+
+class DoorInstantiator implements ProtocolInstantiator {
+  instantiate(_definition: Definition): Actor {
+    return new DoorActor()
+  }
+}
+
+const DoorProtocol: Protocol = {
+  instantiator: () => new DoorInstantiator(),
+  type: () => 'Door'
+}
+
+class AddressedListener implements DeadLettersListener {
+  readonly messages: string[] = []
+
+  constructor(private readonly actor: ActorProtocol) {}
+
+  handle(deadLetter: DeadLetter): void {
+    if (deadLetter.actorProtocol().address().equals(this.actor.address())) {
+      this.messages.push(deadLetter.message())
+    }
+  }
+}
+
+function door(): Door {
+  return stage().actorFor(DoorProtocol)
+}
+
+async function settle(): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 10))
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Behavior switching', () => {
+  let errorSpy: ReturnType<typeof vi.spyOn>
+  let logSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    errorSpy.mockRestore()
+    logSpy.mockRestore()
+  })
+
+  it('should deliver messages to the actor until it becomes a behavior', async () => {
+    const actor = door()
+
+    expect(await actor.state()).toBe('initial')
+
+    await actor.open()
+
+    expect(await actor.state()).toBe('opened')
+
+    await actor.close()
+
+    expect(await actor.state()).toBe('closed')
+  })
+
+  it('should reject and dead-letter messages the behavior does not implement', async () => {
+    const actor = door()
+    const listener = new AddressedListener(actor)
+    stage().deadLetters().registerListener(listener)
+
+    await actor.open()
+
+    const rejected = actor.lock()
+
+    await expect(rejected).rejects.toBeInstanceOf(UnhandledMessageError)
+    await expect(rejected).rejects.toThrow('Message not handled by current behavior: lock()')
+    expect(listener.messages).toEqual(['lock()'])
+
+    // Not a failure: the actor is neither supervised nor changed
+    expect(actor.isStopped()).toBe(false)
+    expect(await actor.state()).toBe('opened')
+  })
+
+  it('should revert to the previous behavior on unbecome', async () => {
+    const actor = door()
+
+    await actor.open()
+    await actor.close()
+    await actor.lock()
+    expect(await actor.state()).toBe('locked')
+
+    await actor.unlock()
+    expect(await actor.state()).toBe('closed')
+  })
+
+  it('should revert to the actor itself when no behavior remains', async () => {
+    const actor = door()
+
+    await actor.lock()
+    expect(await actor.state()).toBe('locked')
+
+    await actor.unlock()
+    expect(await actor.state()).toBe('initial')
+  })
+
+  it('should handle methods of Actor regardless of behavior', async () => {
+    const actor = door()
+
+    await actor.open()
+    await actor.stop()
+
+    expect(actor.isStopped()).toBe(true)
+  })
+
+  it('should not retain behaviors across restarts', async () => {
+    const actor = door()
+
+    await actor.open()
+    expect(await actor.state()).toBe('opened')
+
+    await expect(actor.fail()).rejects.toThrow('door failed while opened')
+    await settle()
+
+    expect(await actor.state()).toBe('initial')
+  })
+
+  it('should silently dead-letter unhandled one-way messages', async () => {
+    const actor = door()
+    const listener = new AddressedListener(actor)
+    stage().deadLetters().registerListener(listener)
+
+    await actor.open()
+    tell(actor).lock()
+    await settle()
+
+    expect(listener.messages).toEqual(['lock()'])
+    expect(await actor.state()).toBe('opened')
+  })
+})
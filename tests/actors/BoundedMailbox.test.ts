@@ -6,15 +6,19 @@
 // See: LICENSE.md in repository root directory
 // See: https://opensource.org/license/rpl-1-5
 
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, afterEach } from 'vitest'
 import { Actor } from '@/actors/Actor'
 import { ActorProtocol } from '@/actors/ActorProtocol'
+import { ArrayMailbox } from '@/actors/ArrayMailbox'
+import { whenWritable } from '@/actors/Backpressure'
 import { BoundedMailbox } from '@/actors/BoundedMailbox'
 import { Definition } from '@/actors/Definition'
 import { DeadLetter, DeadLettersListener } from '@/actors/DeadLetters'
 import { OverflowPolicy } from '@/actors/OverflowPolicy'
 import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
 import { stage } from '@/actors/Stage'
+import { tell } from '@/actors/Tell'
+import { ActorStoppedError, MailboxOverflowError } from '@/actors/Undelivered'
 
 // ============================================================================
 // Test Actors
@@ -149,14 +153,12 @@ describe('BoundedMailbox', () => {
       mailbox.suspend()
 
       // Send 5 messages while suspended - they will queue up
-      actor.processMessage(1)
-      actor.processMessage(2)
-      actor.processMessage(3)
-      actor.processMessage(4)
-      actor.processMessage(5)
+      const sent = [1, 2, 3, 4, 5].map(value => actor.processMessage(value))
 
       // At this point, queue should have [3, 4, 5] with messages 1 and 2 dropped
       expect(mailbox.droppedMessageCount()).toBe(2)
+      await expect(sent[0]).rejects.toBeInstanceOf(MailboxOverflowError)
+      await expect(sent[1]).rejects.toThrow('Mailbox overflow (DropOldest): processMessage(2)')
 
       // Now resume and let them process
       mailbox.resume()
@@ -185,7 +187,7 @@ describe('BoundedMailbox', () => {
 
       // Send 10 messages rapidly
       for (let i = 1; i <= 10; i++) {
-        actor.processMessage(i)
+        tell(actor).processMessage(i)
       }
 
       // Should have dropped 8 messages (keeping last 2)
@@ -214,14 +216,12 @@ describe('BoundedMailbox', () => {
       mailbox.suspend()
 
       // Send 5 messages rapidly
-      actor.processMessage(1)
-      actor.processMessage(2)
-      actor.processMessage(3)
-      actor.processMessage(4)
-      actor.processMessage(5)
+      const sent = [1, 2, 3, 4, 5].map(value => actor.processMessage(value))
 
       // Should have dropped newest 2 messages
       expect(mailbox.droppedMessageCount()).toBe(2)
+      await expect(sent[3]).rejects.toBeInstanceOf(MailboxOverflowError)
+      await expect(sent[4]).rejects.toThrow('Mailbox overflow (DropNewest): processMessage(5)')
 
       mailbox.resume()
 
@@ -252,14 +252,12 @@ describe('BoundedMailbox', () => {
       mailbox.suspend()
 
       // Send 5 messages rapidly
-      actor.processMessage(1)
-      actor.processMessage(2)
-      actor.processMessage(3)
-      actor.processMessage(4)
-      actor.processMessage(5)
+      const sent = [1, 2, 3, 4, 5].map(value => actor.processMessage(value))
 
       // Should have rejected 2 messages
       expect(mailbox.droppedMessageCount()).toBe(2)
+      await expect(sent[3]).rejects.toBeInstanceOf(MailboxOverflowError)
+      await expect(sent[4]).rejects.toThrow('Mailbox overflow (Reject): processMessage(5)')
       expect(listener.count()).toBeGreaterThanOrEqual(2)
 
       mailbox.resume()
@@ -277,6 +275,171 @@ describe('BoundedMailbox', () => {
     })
   })
 
+  describe('Backpressure overflow policy', () => {
+    it('should hold messages until there is room and deliver them in order', async () => {
+      const mailbox = new BoundedMailbox(2, OverflowPolicy.Backpressure)
+      const actor: SlowActor = stage().actorFor(
+        new SlowActorProtocol(),
+        undefined,
+        'default',
+        mailbox
+      )
+
+      mailbox.suspend()
+
+      const sent = [1, 2, 3, 4, 5].map(value => actor.processMessage(value))
+
+      expect(mailbox.size()).toBe(2)
+      expect(mailbox.blockedCount()).toBe(3)
+      expect(mailbox.isWritable()).toBe(false)
+
+      mailbox.resume()
+      await Promise.all(sent)
+
+      expect(await actor.getProcessedValues()).toEqual([1, 2, 3, 4, 5])
+      expect(mailbox.blockedCount()).toBe(0)
+      expect(mailbox.droppedMessageCount()).toBe(0)
+    })
+
+    it('should send messages held beyond max wait to dead letters', async () => {
+      const mailbox = new BoundedMailbox(1, OverflowPolicy.Backpressure, undefined, 20)
+      const actor: SlowActor = stage().actorFor(
+        new SlowActorProtocol(),
+        undefined,
+        'default',
+        mailbox
+      )
+
+      const listener = new TestDeadLettersListener()
+      stage().deadLetters().registerListener(listener)
+
+      mailbox.suspend()
+
+      const accepted = actor.processMessage(1)
+      const held = actor.processMessage(2)
+
+      await expect(held).rejects.toThrow('Mailbox overflow (Backpressure): processMessage(2)')
+      expect(mailbox.blockedCount()).toBe(0)
+      expect(mailbox.droppedMessageCount()).toBe(1)
+      expect(listener.count()).toBeGreaterThanOrEqual(1)
+
+      mailbox.resume()
+      await accepted
+
+      expect(await actor.getProcessedValues()).toEqual([1])
+    })
+
+    it('should send messages held when closed to dead letters', async () => {
+      const mailbox = new BoundedMailbox(1, OverflowPolicy.Backpressure)
+      const actor: SlowActor = stage().actorFor(
+        new SlowActorProtocol(),
+        undefined,
+        'default',
+        mailbox
+      )
+
+      mailbox.suspend()
+
+      actor.processMessage(1)
+      const held = actor.processMessage(2)
+
+      mailbox.close()
+
+      await expect(held).rejects.toBeInstanceOf(ActorStoppedError)
+      expect(mailbox.blockedCount()).toBe(0)
+    })
+
+    it('should resolve whenWritable() once there is room', async () => {
+      const mailbox = new BoundedMailbox(1, OverflowPolicy.Backpressure)
+      const actor: SlowActor = stage().actorFor(
+        new SlowActorProtocol(),
+        undefined,
+        'default',
+        mailbox
+      )
+
+      mailbox.suspend()
+      actor.processMessage(1)
+
+      let writable: boolean | undefined
+      const waiting = whenWritable(actor).then(result => writable = result)
+
+      await new Promise(resolve => setTimeout(resolve, 10))
+      expect(writable).toBeUndefined()
+
+      mailbox.resume()
+      await waiting
+
+      expect(writable).toBe(true)
+    })
+
+    it('should resolve whenWritable() to false after max wait or when closed', async () => {
+      const mailbox = new BoundedMailbox(1, OverflowPolicy.Reject)
+      const actor: SlowActor = stage().actorFor(
+        new SlowActorProtocol(),
+        undefined,
+        'default',
+        mailbox
+      )
+
+      mailbox.suspend()
+      actor.processMessage(1)
+
+      expect(await whenWritable(actor, 10)).toBe(false)
+
+      const waiting = whenWritable(actor)
+      mailbox.close()
+
+      expect(await waiting).toBe(false)
+      expect(await whenWritable(actor)).toBe(false)
+    })
+
+    it('should always resolve whenWritable() for unbounded mailboxes', async () => {
+      const actor: SlowActor = stage().actorFor(
+        new SlowActorProtocol(),
+        undefined,
+        'default',
+        new ArrayMailbox()
+      )
+
+      expect(await whenWritable(actor)).toBe(true)
+    })
+
+    it('should throw for non-positive max wait', () => {
+      expect(() => new BoundedMailbox(1, OverflowPolicy.Backpressure, undefined, 0)).toThrow('Mailbox max wait must be positive')
+    })
+  })
+
+  describe('Undelivered results compatibility', () => {
+    afterEach(() => {
+      stage().setResolvesUndelivered(false)
+    })
+
+    it('should resolve dropped and stopped messages with strings when enabled', async () => {
+      stage().setResolvesUndelivered(true)
+
+      const mailbox = new BoundedMailbox(1, OverflowPolicy.Reject)
+      const actor: SlowActor = stage().actorFor(
+        new SlowActorProtocol(),
+        undefined,
+        'default',
+        mailbox
+      )
+
+      mailbox.suspend()
+
+      const accepted = actor.processMessage(1)
+      expect(await actor.processMessage(2)).toBe('mailbox full')
+
+      mailbox.resume()
+      await accepted
+      await actor.stop()
+
+      expect(await actor.processMessage(3)).toBe('actor stopped')
+      expect(await actor.stop()).toBe('actor stopped')
+    })
+  })
+
   describe('Suspension and resumption', () => {
     it('should queue messages when suspended and process on resume', async () => {
       const mailbox = new BoundedMailbox(10, OverflowPolicy.DropOldest)
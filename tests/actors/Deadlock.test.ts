@@ -0,0 +1,236 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import { Mailbox } from '@/actors/Mailbox'
+import { ReentrantMailbox } from '@/actors/ReentrantMailbox'
+import { StageInternal } from '@/actors/StageInternal'
+import { tell } from '@/actors/Tell'
+import { DeadlockError } from '@/actors/WaitForGraph'
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Peer extends ActorProtocol {
+  introduce(peer: Peer): Promise<void>
+  relay(hops: number): Promise<string>
+  relayOneWay(hops: number): Promise<string>
+  relayLater(hops: number): Promise<void>
+  relayAfterAwait(hops: number): Promise<string>
+  relayUnawaited(hops: number): Promise<void>
+  results(): Promise<string[]>
+}
+
+class PeerActor extends Actor implements Peer {
+  private _peer!: Peer
+  private _results: string[] = []
+
+  constructor(private readonly name: string) {
+    super()
+  }
+
+  async introduce(peer: Peer): Promise<void> {
+    this._peer = peer
+  }
+
+  async relay(hops: number): Promise<string> {
+    if (hops === 0) {
+      return this.name
+    }
+    return this._peer.relay(hops - 1)
+  }
+
+  async relayOneWay(hops: number): Promise<string> {
+    tell(this._peer).relay(hops - 1)
+    return this.name
+  }
+
+  async relayLater(hops: number): Promise<void> {
+    // Not awaited: this actor is free to process messages meanwhile
+    this._peer.relay(hops - 1).then(result => this._results.push(result))
+  }
+
+  async relayAfterAwait(hops: number): Promise<string> {
+    await settle()
+    if (hops === 0) {
+      return this.name
+    }
+    return this._peer.relayAfterAwait(hops - 1)
+  }
+
+  async relayUnawaited(hops: number): Promise<void> {
+    // Not awaited, but this actor stays busy meanwhile
+    this._peer.relay(hops - 1).then(result => this._results.push(result))
+    await settle()
+  }
+
+  async results(): Promise<string[]> {
+    return [...this._results]
+  }
+}
+
+class PeerInstantiator implements ProtocolInstantiator {
+  instantiate(definition: Definition): Actor {
+    const [name] = definition.parameters()
+    return new PeerActor(name)
+  }
+}
+
+const PeerProtocol: Protocol = {
+  instantiator: () => new PeerInstantiator(),
+  type: () => 'Peer'
+}
+
+function peer(name: string, mailbox?: Mailbox): Peer {
+  return mailbox
+    ? stage().actorFor(PeerProtocol, undefined, 'default', mailbox, name)
+    : stage().actorFor(PeerProtocol, undefined, 'default', undefined, name)
+}
+
+async function ring(...peers: Peer[]): Promise<void> {
+  for (let index = 0; index < peers.length; index++) {
+    await peers[index]!.introduce(peers[(index + 1) % peers.length]!)
+  }
+}
+
+async function settle(): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 10))
+}
+
+// Senders are known across awaits only where the runtime provides AsyncLocalStorage
+const tracksAcrossAwaits = typeof globalThis.process?.getBuiltinModule === 'function'
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Deadlock detection', () => {
+  let errorSpy: ReturnType<typeof vi.spyOn>
+  let logSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+    stage().setDetectsDeadlocks(true)
+  })
+
+  afterEach(() => {
+    stage().setDetectsDeadlocks(false)
+    errorSpy.mockRestore()
+    logSpy.mockRestore()
+  })
+
+  it('should reject the ask that closes a cycle between two actors', async () => {
+    const a = peer('a')
+    const b = peer('b')
+    await ring(a, b)
+
+    const error: DeadlockError = await a.relay(2).catch(error => error)
+
+    expect(error).toBeInstanceOf(DeadlockError)
+    expect(error.cycle().map(wait => [wait.sender.valueAsString(), wait.representation, wait.receiver.valueAsString()])).toEqual([
+      [a.address().valueAsString(), 'relay(1)', b.address().valueAsString()],
+      [b.address().valueAsString(), 'relay(0)', a.address().valueAsString()]
+    ])
+    expect(error.message).toBe(
+      `Deadlock detected: ${a.address().valueAsString()} -> relay(1) -> ` +
+      `${b.address().valueAsString()} -> relay(0) -> ${a.address().valueAsString()}`
+    )
+  })
+
+  it('should reject the ask that closes a cycle among several actors', async () => {
+    const a = peer('a')
+    const b = peer('b')
+    const c = peer('c')
+    await ring(a, b, c)
+
+    const error: DeadlockError = await a.relay(3).catch(error => error)
+
+    expect(error).toBeInstanceOf(DeadlockError)
+    expect(error.cycle().map(wait => wait.representation)).toEqual(['relay(2)', 'relay(1)', 'relay(0)'])
+  })
+
+  it.skipIf(!tracksAcrossAwaits)('should reject the ask sent after an await that closes a cycle', async () => {
+    const a = peer('a')
+    const b = peer('b')
+    await ring(a, b)
+
+    const error: DeadlockError = await a.relayAfterAwait(2).catch(error => error)
+
+    expect(error).toBeInstanceOf(DeadlockError)
+    expect(error.cycle().map(wait => wait.representation)).toEqual(['relayAfterAwait(1)', 'relayAfterAwait(0)'])
+  })
+
+  it('should answer asks along a chain that does not close a cycle', async () => {
+    const a = peer('a')
+    const b = peer('b')
+    const c = peer('c')
+    await ring(a, b, c)
+
+    expect(await a.relay(2)).toBe('c')
+  })
+
+  it('should not consider an actor that does not await its ask to be waiting', async () => {
+    const a = peer('a')
+    const b = peer('b')
+    await ring(a, b)
+
+    await a.relayLater(2)
+    await settle()
+
+    expect(await a.results()).toEqual(['a'])
+  })
+
+  it('should not track one-way messages', async () => {
+    const a = peer('a')
+    const b = peer('b')
+    await ring(a, b)
+
+    expect(await a.relayOneWay(2)).toBe('a')
+  })
+
+  it('should not consider an actor with a ReentrantMailbox to be waiting', async () => {
+    const a = peer('a', new ReentrantMailbox())
+    const b = peer('b')
+    await ring(a, b)
+
+    expect(await a.relay(2)).toBe('a')
+  })
+
+  it('should not track asks unless the stage detects deadlocks', async () => {
+    stage().setDetectsDeadlocks(false)
+    const a = peer('a')
+    const b = peer('b')
+    await ring(a, b)
+
+    await a.relayUnawaited(2)
+    await settle()
+
+    expect(await a.results()).toEqual(['a'])
+    expect((stage() as StageInternal).waitForGraph().size()).toBe(0)
+  })
+
+  it('should forget answered asks', async () => {
+    const a = peer('a')
+    const b = peer('b')
+    const c = peer('c')
+    await ring(a, b, c)
+
+    await a.relay(2)
+    await a.relay(3).catch(() => {})
+    await settle()
+
+    expect((stage() as StageInternal).waitForGraph().size()).toBe(0)
+  })
+})
@@ -0,0 +1,280 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Address } from '@/actors/Address'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import {
+  Supervised,
+  SupervisionStrategy,
+  SupervisionScope,
+  SupervisionDirective
+} from '@/actors/Supervisor'
+import { DefaultSupervisor } from '@/actors/DefaultSupervisor'
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Termination {
+  address: Address
+  reason?: Error
+}
+
+interface Watcher extends ActorProtocol {
+  watchActor(other: ActorProtocol): Promise<void>
+  unwatchActor(other: ActorProtocol): Promise<void>
+  terminations(): Promise<Termination[]>
+}
+
+class WatcherActor extends Actor implements Watcher {
+  private _terminations: Termination[] = []
+
+  constructor() {
+    super()
+  }
+
+  async watchActor(other: ActorProtocol): Promise<void> {
+    this.watch(other)
+  }
+
+  async unwatchActor(other: ActorProtocol): Promise<void> {
+    this.unwatch(other)
+  }
+
+  async terminations(): Promise<Termination[]> {
+    return [...this._terminations]
+  }
+
+  onTerminated(address: Address, reason?: Error): void {
+    this._terminations.push({ address, reason })
+  }
+}
+
+interface Worker extends ActorProtocol {
+  work(): Promise<void>
+  fail(): Promise<void>
+}
+
+class WorkerActor extends Actor implements Worker {
+  constructor() {
+    super()
+  }
+
+  async work(): Promise<void> {
+  }
+
+  async fail(): Promise<void> {
+    throw new Error('Worker failure')
+  }
+}
+
+class StoppingWorkSupervisor extends DefaultSupervisor {
+  async supervisionStrategy(): Promise<SupervisionStrategy> {
+    return new class extends SupervisionStrategy {
+      intensity(): number { return 1 }
+      period(): number { return 1000 }
+      scope(): SupervisionScope { return SupervisionScope.One }
+    }
+  }
+
+  protected decideDirective(
+    _error: Error,
+    _supervised: Supervised,
+    _strategy: SupervisionStrategy
+  ): SupervisionDirective {
+    return SupervisionDirective.Stop
+  }
+}
+
+// ============================================================================
+// Protocol Definitions
+// ============================================================================
+
+class WatcherInstantiator implements ProtocolInstantiator {
+  instantiate(_definition: Definition): Actor {
+    return new WatcherActor()
+  }
+}
+
+const WatcherProtocol: Protocol = {
+  instantiator: () => new WatcherInstantiator(),
+  type: () => 'Watcher'
+}
+
+class WorkerInstantiator implements ProtocolInstantiator {
+  instantiate(_definition: Definition): Actor {
+    return new WorkerActor()
+  }
+}
+
+const WorkerProtocol: Protocol = {
+  instantiator: () => new WorkerInstantiator(),
+  type: () => 'Worker'
+}
+
+class StoppingWorkSupervisorInstantiator implements ProtocolInstantiator {
+  instantiate(_definition: Definition): Actor {
+    return new StoppingWorkSupervisor()
+  }
+}
+
+const StoppingWorkSupervisorProtocol: Protocol = {
+  instantiator: () => new StoppingWorkSupervisorInstantiator(),
+  type: () => 'stopping-work-supervisor'
+}
+
+async function settle(): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 20))
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Death watch', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>
+  let errorSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    logSpy.mockRestore()
+    errorSpy.mockRestore()
+  })
+
+  it('should notify the watcher when the watched actor stops', async () => {
+    const watcher: Watcher = stage().actorFor(WatcherProtocol)
+    const worker: Worker = stage().actorFor(WorkerProtocol)
+
+    await watcher.watchActor(worker)
+    await worker.stop()
+    await settle()
+
+    const terminations = await watcher.terminations()
+    expect(terminations.length).toBe(1)
+    expect(terminations[0]!.address.equals(worker.address())).toBe(true)
+    expect(terminations[0]!.reason).toBeUndefined()
+  })
+
+  it('should notify the watcher immediately when the watched actor is already stopped', async () => {
+    const watcher: Watcher = stage().actorFor(WatcherProtocol)
+    const worker: Worker = stage().actorFor(WorkerProtocol)
+
+    await worker.stop()
+    await watcher.watchActor(worker)
+    await settle()
+
+    const terminations = await watcher.terminations()
+    expect(terminations.length).toBe(1)
+    expect(terminations[0]!.address.equals(worker.address())).toBe(true)
+  })
+
+  it('should include the supervision error when the watched actor is stopped by its supervisor', async () => {
+    stage().actorFor(StoppingWorkSupervisorProtocol, undefined, 'default')
+
+    const watcher: Watcher = stage().actorFor(WatcherProtocol)
+    const worker: Worker = stage().actorFor(WorkerProtocol, undefined, 'stopping-work-supervisor')
+
+    await watcher.watchActor(worker)
+    await worker.fail().catch(() => {})
+    await settle()
+
+    expect(worker.isStopped()).toBe(true)
+
+    const terminations = await watcher.terminations()
+    expect(terminations.length).toBe(1)
+    expect(terminations[0]!.reason?.message).toBe('Worker failure')
+  })
+
+  it('should not notify after unwatch', async () => {
+    const watcher: Watcher = stage().actorFor(WatcherProtocol)
+    const worker: Worker = stage().actorFor(WorkerProtocol)
+
+    await watcher.watchActor(worker)
+    await watcher.unwatchActor(worker)
+    await worker.stop()
+    await settle()
+
+    expect((await watcher.terminations()).length).toBe(0)
+  })
+
+  it('should notify only once when watched more than once', async () => {
+    const watcher: Watcher = stage().actorFor(WatcherProtocol)
+    const worker: Worker = stage().actorFor(WorkerProtocol)
+
+    await watcher.watchActor(worker)
+    await watcher.watchActor(worker)
+    await worker.stop()
+    await settle()
+
+    expect((await watcher.terminations()).length).toBe(1)
+  })
+
+  it('should notify every watcher of the same actor', async () => {
+    const watcher1: Watcher = stage().actorFor(WatcherProtocol)
+    const watcher2: Watcher = stage().actorFor(WatcherProtocol)
+    const worker: Worker = stage().actorFor(WorkerProtocol)
+
+    await watcher1.watchActor(worker)
+    await watcher2.watchActor(worker)
+    await worker.stop()
+    await settle()
+
+    expect((await watcher1.terminations()).length).toBe(1)
+    expect((await watcher2.terminations()).length).toBe(1)
+  })
+
+  it('should stop watching when the watcher itself stops', async () => {
+    const watcher: Watcher = stage().actorFor(WatcherProtocol)
+    const worker: Worker = stage().actorFor(WorkerProtocol)
+
+    await watcher.watchActor(worker)
+    await watcher.stop()
+
+    const workerEnvironment = worker.lifeCycle().environment()
+    expect(workerEnvironment.watchers().length).toBe(0)
+
+    await worker.stop()
+  })
+
+  it('should forget the watched actor once it stops', async () => {
+    const watcher: Watcher = stage().actorFor(WatcherProtocol)
+    const worker: Worker = stage().actorFor(WorkerProtocol)
+
+    await watcher.watchActor(worker)
+    await worker.stop()
+    await settle()
+
+    const watcherEnvironment = watcher.lifeCycle().environment()
+    expect(watcherEnvironment.watching().length).toBe(0)
+
+    await watcher.stop()
+  })
+
+  it('should notify the watcher when the watched actor stops with its parent', async () => {
+    const parent: Worker = stage().actorFor(WorkerProtocol)
+    const child: Worker = stage().actorFor(WorkerProtocol, parent)
+    const watcher: Watcher = stage().actorFor(WatcherProtocol)
+
+    await watcher.watchActor(child)
+    await parent.stop()
+    await settle()
+
+    const terminations = await watcher.terminations()
+    expect(terminations.length).toBe(1)
+    expect(terminations[0]!.address.equals(child.address())).toBe(true)
+  })
+})
@@ -13,6 +13,7 @@ import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
 import { stage } from '@/actors/Stage'
 import { ActorProtocol } from '@/actors/ActorProtocol'
 import { INTERNAL_ENVIRONMENT_ACCESS, InternalActorAccess } from '@/actors/InternalAccess'
+import { ActorStoppedError } from '@/actors/Undelivered'
 
 // ============================================================================
 // Test Helpers
@@ -585,7 +586,7 @@ describe('Enhanced Stop Sequence', () => {
       await proxy.stop()
 
       // Try to send a message after stop
-      proxy.doSomething() // This should go to dead letters
+      await expect(proxy.doSomething()).rejects.toBeInstanceOf(ActorStoppedError) // This should go to dead letters
 
       await new Promise(resolve => setTimeout(resolve, 10))
 
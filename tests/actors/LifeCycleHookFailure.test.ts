@@ -0,0 +1,255 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import { DefaultSupervisor } from '@/actors/DefaultSupervisor'
+import { HookFailurePolicy, LifeCycleHookError } from '@/actors/LifeCycle'
+import { SupervisionEventType } from '@/actors/SupervisionEvents'
+import {
+  Supervised,
+  SupervisionDirective,
+  SupervisionScope,
+  SupervisionStrategy
+} from '@/actors/Supervisor'
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Fragile extends ActorProtocol {
+  fail(): Promise<void>
+  ping(): Promise<string>
+}
+
+/**
+ * Actor whose restart or resume hooks fail a given number of times,
+ * counted across instances of the same test.
+ */
+class FragileActor extends Actor implements Fragile {
+  constructor(
+    private _hooks: string[],
+    private _failures: { remaining: number },
+    private _policy: HookFailurePolicy
+  ) {
+    super()
+  }
+
+  async fail(): Promise<void> {
+    throw new Error('fragile failure')
+  }
+
+  async ping(): Promise<string> {
+    return 'pong'
+  }
+
+  beforeRestart(reason: Error): void {
+    super.beforeRestart(reason)
+    this.failIn('beforeRestart')
+  }
+
+  afterRestart(reason: Error): void {
+    super.afterRestart(reason)
+    this.failIn('afterRestart')
+  }
+
+  beforeResume(reason: Error): void {
+    super.beforeResume(reason)
+    this.failIn('beforeResume')
+  }
+
+  hookFailurePolicy(): HookFailurePolicy {
+    return this._policy
+  }
+
+  private failIn(hook: string): void {
+    if (this._hooks.includes(hook) && this._failures.remaining > 0) {
+      this._failures.remaining--
+      throw new Error(`${hook} hook failure`)
+    }
+  }
+}
+
+class RecordingSupervisor extends DefaultSupervisor {
+  constructor(
+    private _informed: Error[],
+    private _directive: SupervisionDirective
+  ) {
+    super()
+  }
+
+  async inform(error: Error, supervised: Supervised): Promise<void> {
+    this._informed.push(error)
+    await super.inform(error, supervised)
+  }
+
+  async supervisionStrategy(): Promise<SupervisionStrategy> {
+    return new class extends SupervisionStrategy {
+      intensity(): number { return SupervisionStrategy.ForeverIntensity }
+      period(): number { return SupervisionStrategy.ForeverPeriod }
+      scope(): SupervisionScope { return SupervisionScope.One }
+    }
+  }
+
+  protected decideDirective(
+    _error: Error,
+    _supervised: Supervised,
+    _strategy: SupervisionStrategy
+  ): SupervisionDirective {
+    return this._directive
+  }
+}
+
+let supervisorCount = 0
+
+function fragileUnder(
+  directive: SupervisionDirective,
+  hook: string | string[],
+  failures: number,
+  policy: HookFailurePolicy = HookFailurePolicy.Escalate
+): { fragile: Fragile, informed: Error[] } {
+  const informed: Error[] = []
+  const supervisorName = `hook-supervisor-${++supervisorCount}`
+  const remaining = { remaining: failures }
+
+  const supervisorProtocol: Protocol = {
+    instantiator: () => ({
+      instantiate: (_definition: Definition) => new RecordingSupervisor(informed, directive)
+    }),
+    type: () => supervisorName
+  }
+
+  const fragileProtocol: Protocol = {
+    instantiator: () => ({
+      instantiate: (_definition: Definition) => new FragileActor([hook].flat(), remaining, policy)
+    }),
+    type: () => 'Fragile'
+  }
+
+  stage().actorFor(supervisorProtocol, undefined, 'default')
+
+  return { fragile: stage().actorFor(fragileProtocol, undefined, supervisorName), informed }
+}
+
+async function failAndSettle(fragile: Fragile): Promise<void> {
+  await fragile.fail().catch(() => {})
+  await new Promise(resolve => setTimeout(resolve, 30))
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Lifecycle hook failures during supervision', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>
+  let errorSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    logSpy.mockRestore()
+    errorSpy.mockRestore()
+  })
+
+  it('should escalate an afterRestart() failure to the supervisor by default', async () => {
+    const { fragile, informed } = fragileUnder(SupervisionDirective.Restart, 'afterRestart', 1)
+
+    await failAndSettle(fragile)
+
+    expect(informed.length).toBe(2)
+    expect(informed[1]).toBeInstanceOf(LifeCycleHookError)
+    expect((informed[1] as LifeCycleHookError).hook()).toBe('afterRestart')
+    expect((informed[1] as LifeCycleHookError).cause).toBeInstanceOf(Error)
+
+    // The second restart succeeded, so the actor is running again
+    expect(fragile.isStopped()).toBe(false)
+    expect(await fragile.ping()).toBe('pong')
+  })
+
+  it('should report both restart hook failures and escalate the first', async () => {
+    const { fragile, informed } = fragileUnder(SupervisionDirective.Restart, ['beforeRestart', 'afterRestart'], 2)
+
+    await failAndSettle(fragile)
+
+    expect(informed.length).toBe(2)
+    expect((informed[1] as LifeCycleHookError).hook()).toBe('beforeRestart')
+
+    const history = stage().supervisionEvents().failureHistoryOf(fragile.address())
+    const hooksFailed = history
+      .filter(event => event.type() === SupervisionEventType.HookFailed)
+      .map(event => (event.error() as LifeCycleHookError).hook())
+    expect(hooksFailed).toEqual(['beforeRestart', 'afterRestart'])
+    expect(fragile.isStopped()).toBe(false)
+  })
+
+  it('should stop rather than restart endlessly when the hook keeps failing', async () => {
+    const { fragile, informed } = fragileUnder(SupervisionDirective.Restart, 'afterRestart', 100)
+
+    await failAndSettle(fragile)
+
+    expect(informed.length).toBe(2)
+    expect(fragile.isStopped()).toBe(true)
+  })
+
+  it('should only log a hook failure with the LogOnly policy', async () => {
+    const { fragile, informed } = fragileUnder(
+      SupervisionDirective.Restart, 'afterRestart', 1, HookFailurePolicy.LogOnly
+    )
+
+    await failAndSettle(fragile)
+
+    expect(informed.length).toBe(1)
+    expect(fragile.isStopped()).toBe(false)
+    expect(await fragile.ping()).toBe('pong')
+
+    const history = stage().supervisionEvents().failureHistoryOf(fragile.address())
+    expect(history.map(event => event.type())).toContain(SupervisionEventType.HookFailed)
+  })
+
+  it('should stop the actor with the Stop policy', async () => {
+    const { fragile, informed } = fragileUnder(
+      SupervisionDirective.Restart, 'afterRestart', 1, HookFailurePolicy.Stop
+    )
+
+    await failAndSettle(fragile)
+
+    expect(informed.length).toBe(1)
+    expect(fragile.isStopped()).toBe(true)
+
+    const history = stage().supervisionEvents().failureHistoryOf(fragile.address())
+    const stopped = history.find(event => event.type() === SupervisionEventType.Stopped)!
+    expect(stopped.error()).toBeInstanceOf(LifeCycleHookError)
+  })
+
+  it('should escalate a beforeResume() failure and keep the mailbox suspended meanwhile', async () => {
+    const { fragile, informed } = fragileUnder(SupervisionDirective.Resume, 'beforeResume', 1)
+
+    await failAndSettle(fragile)
+
+    expect(informed.length).toBe(2)
+    expect((informed[1] as LifeCycleHookError).hook()).toBe('beforeResume')
+    expect(fragile.isStopped()).toBe(false)
+    expect(await fragile.ping()).toBe('pong')
+  })
+
+  it('should stop when beforeResume() keeps failing', async () => {
+    const { fragile, informed } = fragileUnder(SupervisionDirective.Resume, 'beforeResume', 100)
+
+    await failAndSettle(fragile)
+
+    expect(informed.length).toBe(2)
+    expect(fragile.isStopped()).toBe(true)
+  })
+})
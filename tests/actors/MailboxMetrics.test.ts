@@ -0,0 +1,277 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import { ArrayMailbox } from '@/actors/ArrayMailbox'
+import { BoundedMailbox } from '@/actors/BoundedMailbox'
+import { Histogram } from '@/actors/Histogram'
+import { Mailbox } from '@/actors/Mailbox'
+import { MailboxMetrics } from '@/actors/MailboxMetrics'
+import { OverflowPolicy } from '@/actors/OverflowPolicy'
+import { PriorityMailbox } from '@/actors/PriorityMailbox'
+import { ReentrantMailbox } from '@/actors/ReentrantMailbox'
+import { tell } from '@/actors/Tell'
+import { MailboxOverflowError } from '@/actors/Undelivered'
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Worker extends ActorProtocol {
+  work(delay: number): Promise<void>
+  fail(): Promise<void>
+}
+
+class WorkerActor extends Actor implements Worker {
+  constructor() {
+    super()
+  }
+
+  async work(delay: number): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, delay))
+  }
+
+  async fail(): Promise<void> {
+    throw new Error('work failed')
+  }
+}
+
+class WorkerInstantiator implements ProtocolInstantiator {
+  instantiate(_definition: Definition): Actor {
+    return new WorkerActor()
+  }
+}
+
+const WorkerProtocol: Protocol = {
+  instantiator: () => new WorkerInstantiator(),
+  type: () => 'Worker'
+}
+
+function workerWith(mailbox?: Mailbox): Worker {
+  return stage().actorFor(WorkerProtocol, undefined, 'default', mailbox)
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('MailboxMetrics', () => {
+  let errorSpy: ReturnType<typeof vi.spyOn>
+  let logSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    stage().setMailboxMetricsEnabled(false)
+    errorSpy.mockRestore()
+    logSpy.mockRestore()
+  })
+
+  it('should collect nothing until enabled', async () => {
+    const mailbox = new ArrayMailbox()
+    const worker = workerWith(mailbox)
+
+    await worker.work(1)
+
+    expect(mailbox.metrics().isEnabled()).toBe(false)
+    expect(mailbox.metrics().processedCount()).toBe(0)
+    expect(mailbox.metrics().waitTime().count()).toBe(0)
+    expect(mailbox.metrics().selectors()).toEqual([])
+  })
+
+  it('should track the current and peak depth', async () => {
+    const mailbox = new ArrayMailbox()
+    mailbox.metrics().enable()
+    const worker = workerWith(mailbox)
+    await worker.work(0)
+
+    mailbox.suspend()
+    const works = [1, 2, 3, 4, 5].map(() => worker.work(0))
+    expect(mailbox.metrics().depth()).toBe(5)
+
+    mailbox.resume()
+    await Promise.all(works)
+
+    expect(mailbox.metrics().depth()).toBe(0)
+    expect(mailbox.metrics().peakDepth()).toBe(5)
+  })
+
+  it('should count processed and failed messages and time their handlers per method', async () => {
+    const mailbox = new ArrayMailbox()
+    mailbox.metrics().enable()
+    const worker = workerWith(mailbox)
+
+    await worker.work(20)
+    await worker.work(0)
+    await expect(worker.fail()).rejects.toThrow('work failed')
+    await worker.work(0)
+
+    const metrics = mailbox.metrics()
+    expect(metrics.processedCount()).toBeGreaterThanOrEqual(3)
+    expect(metrics.failedCount()).toBe(1)
+    expect(metrics.processingTime('work')!.count()).toBe(3)
+    expect(metrics.processingTime('work')!.max()).toBeGreaterThanOrEqual(15)
+    expect(metrics.processingTime('fail')!.count()).toBe(1)
+    expect(metrics.processingTime('missing')).toBeUndefined()
+  })
+
+  it('should measure how long messages wait before their handlers start', async () => {
+    const mailbox = new ArrayMailbox()
+    mailbox.metrics().enable()
+    const worker = workerWith(mailbox)
+    await worker.work(0)
+    mailbox.metrics().reset()
+
+    await Promise.all([worker.work(30), worker.work(0)])
+
+    const waitTime = mailbox.metrics().waitTime()
+    expect(waitTime.count()).toBe(2)
+    expect(waitTime.max()).toBeGreaterThanOrEqual(25)
+  })
+
+  it('should count messages dropped on overflow', async () => {
+    const mailbox = new BoundedMailbox(2, OverflowPolicy.DropNewest)
+    mailbox.metrics().enable()
+    const worker = workerWith(mailbox)
+    await worker.work(0)
+
+    mailbox.suspend()
+    const works = [1, 2, 3, 4].map(() => worker.work(0))
+    mailbox.resume()
+
+    const results = await Promise.allSettled(works)
+
+    expect(results.filter(result => result.status === 'rejected').map(result => (result as PromiseRejectedResult).reason))
+      .toEqual([expect.any(MailboxOverflowError), expect.any(MailboxOverflowError)])
+    expect(mailbox.metrics().droppedCount()).toBe(2)
+    expect(mailbox.metrics().droppedCount()).toBe(mailbox.droppedMessageCount())
+    expect(mailbox.metrics().peakDepth()).toBe(2)
+  })
+
+  it('should be provided by every mailbox type', async () => {
+    const mailboxes = [
+      new BoundedMailbox(10, OverflowPolicy.Reject),
+      new PriorityMailbox(),
+      new ReentrantMailbox()
+    ]
+
+    for (const mailbox of mailboxes) {
+      mailbox.metrics().enable()
+      const worker = workerWith(mailbox)
+
+      await Promise.all([worker.work(1), worker.work(1)])
+
+      expect(mailbox.metrics().processingTime('work')!.count()).toBe(2)
+      expect(mailbox.metrics().depth()).toBe(0)
+    }
+  })
+
+  it('should be enabled for all actors by the stage and combined across the directory', async () => {
+    // Workers of earlier tests have metrics of their own
+    const worked = () => stage().mailboxMetrics().processingTime('work')?.count() ?? 0
+    const failed = () => stage().mailboxMetrics().failedCount()
+    const workedEarlier = worked()
+    const failedEarlier = failed()
+    const before = workerWith()
+
+    stage().setMailboxMetricsEnabled(true)
+    expect(stage().mailboxMetricsEnabled()).toBe(true)
+
+    const after = workerWith()
+    await Promise.all([before.work(0), after.work(0), after.work(0)])
+    await expect(after.fail()).rejects.toThrow('work failed')
+
+    expect(worked() - workedEarlier).toBe(3)
+    expect(failed() - failedEarlier).toBe(1)
+
+    stage().setMailboxMetricsEnabled(false)
+    tell(after).work(0)
+    await after.work(0)
+
+    expect(worked() - workedEarlier).toBe(3)
+  })
+
+  it('should merge metrics', () => {
+    const first = new MailboxMetrics()
+    const second = new MailboxMetrics()
+    first.enable()
+    second.enable()
+
+    first.recordDepth(3)
+    second.recordDepth(5)
+    second.recordDepth(1)
+    first.recordProcessed('work', 2, false)
+    second.recordProcessed('work', 8, false)
+    second.recordProcessed('save', 1, true)
+    second.recordDropped()
+
+    const merged = MailboxMetrics.merge([first, second])
+
+    expect(merged.depth()).toBe(4)
+    expect(merged.peakDepth()).toBe(5)
+    expect(merged.processedCount()).toBe(2)
+    expect(merged.failedCount()).toBe(1)
+    expect(merged.droppedCount()).toBe(1)
+    expect(merged.processingTime('work')!.count()).toBe(2)
+    expect(merged.selectors().sort()).toEqual(['save', 'work'])
+  })
+})
+
+describe('Histogram', () => {
+  it('should summarize the values recorded', () => {
+    const histogram = new Histogram()
+
+    for (let value = 1; value <= 100; value++) {
+      histogram.record(value)
+    }
+
+    expect(histogram.count()).toBe(100)
+    expect(histogram.sum()).toBe(5050)
+    expect(histogram.min()).toBe(1)
+    expect(histogram.max()).toBe(100)
+    expect(histogram.mean()).toBe(50.5)
+    expect(histogram.percentile(50)).toBe(50)
+    expect(histogram.percentile(99)).toBe(100)
+    expect(histogram.percentile(5)).toBe(5)
+  })
+
+  it('should count values in buckets and merge them', () => {
+    const histogram = new Histogram()
+    const other = new Histogram()
+    histogram.record(0.05)
+    histogram.record(3)
+    other.record(20_000)
+
+    histogram.merge(other)
+
+    const counted = histogram.buckets().filter(bucket => bucket.count > 0)
+    expect(counted).toEqual([
+      { upperBound: 0.1, count: 1 },
+      { upperBound: 5, count: 1 },
+      { upperBound: Infinity, count: 1 }
+    ])
+    expect(histogram.max()).toBe(20_000)
+    expect(histogram.percentile(100)).toBe(20_000)
+  })
+
+  it('should answer zeros when empty', () => {
+    const histogram = new Histogram()
+
+    expect(histogram.min()).toBe(0)
+    expect(histogram.mean()).toBe(0)
+    expect(histogram.percentile(99)).toBe(0)
+  })
+})
@@ -14,6 +14,7 @@ import { stage } from '@/actors/Stage'
 import { ActorProtocol } from '@/actors/ActorProtocol'
 import { ArrayMailbox } from '@/actors/ArrayMailbox'
 import { INTERNAL_ENVIRONMENT_ACCESS, InternalActorAccess } from '@/actors/InternalAccess'
+import { ActorStoppedError } from '@/actors/Undelivered'
 
 // ============================================================================
 // Test Helpers
@@ -293,7 +294,7 @@ describe('Mailbox Suspension', () => {
       actor.lifeCycle().environment().mailbox().resume()
 
       // Try to send message
-      proxy.increment()
+      await expect(proxy.increment()).rejects.toBeInstanceOf(ActorStoppedError)
 
       await new Promise(resolve => setTimeout(resolve, 20))
 
@@ -0,0 +1,154 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import { ArrayMailbox } from '@/actors/ArrayMailbox'
+import { BoundedMailbox } from '@/actors/BoundedMailbox'
+import { DeadLetter, DeadLettersListener } from '@/actors/DeadLetters'
+import { Mailbox } from '@/actors/Mailbox'
+import { OverflowPolicy } from '@/actors/OverflowPolicy'
+import { PriorityMailbox } from '@/actors/PriorityMailbox'
+import { MessageExpiredError, withTtl } from '@/actors/Ask'
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Worker extends ActorProtocol {
+  busy(ms: number): Promise<void>
+  fetch(id: number): Promise<number>
+  fetched(): Promise<number[]>
+}
+
+class WorkerActor extends Actor implements Worker {
+  private _fetched: number[] = []
+
+  constructor() {
+    super()
+  }
+
+  async busy(ms: number): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, ms))
+  }
+
+  async fetch(id: number): Promise<number> {
+    this._fetched.push(id)
+    return id
+  }
+
+  async fetched(): Promise<number[]> {
+    return [...this._fetched]
+  }
+}
+
+class WorkerInstantiator implements ProtocolInstantiator {
+  instantiate(_definition: Definition): Actor {
+    return new WorkerActor()
+  }
+}
+
+const WorkerProtocol: Protocol = {
+  instantiator: () => new WorkerInstantiator(),
+  type: () => 'Worker'
+}
+
+class AddressedListener implements DeadLettersListener {
+  readonly deadLetters: DeadLetter[] = []
+
+  constructor(private readonly actor: ActorProtocol) {}
+
+  handle(deadLetter: DeadLetter): void {
+    if (deadLetter.actorProtocol().address().equals(this.actor.address())) {
+      this.deadLetters.push(deadLetter)
+    }
+  }
+}
+
+function workerWith(mailbox: Mailbox = new ArrayMailbox()): Worker {
+  return stage().actorFor(WorkerProtocol, undefined, 'default', mailbox)
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Message expiry', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    logSpy.mockRestore()
+  })
+
+  it('should deliver a message received within its time to live', async () => {
+    const worker = workerWith()
+
+    expect(await withTtl(worker, 1000).fetch(1)).toBe(1)
+  })
+
+  it('should discard a message not received within its time to live', async () => {
+    const worker = workerWith()
+    const listener = new AddressedListener(worker)
+    stage().deadLetters().registerListener(listener)
+
+    worker.busy(40)
+    const stale = withTtl(worker, 10).fetch(1)
+    const fresh = withTtl(worker, 1000).fetch(2)
+
+    const error: MessageExpiredError = await stale.catch(error => error)
+    expect(error).toBeInstanceOf(MessageExpiredError)
+    expect(error.representation()).toBe('fetch(1)')
+    expect(error.message).toBe('Message expired before delivery: fetch(1)')
+
+    expect(await fresh).toBe(2)
+    expect(await worker.fetched()).toEqual([2])
+
+    expect(listener.deadLetters.map(deadLetter => [deadLetter.message(), deadLetter.reason()])).toEqual([['fetch(1)', 'expired']])
+    expect(listener.deadLetters[0]!.toString()).toContain('reason: expired')
+  })
+
+  it('should discard backlogged messages by the default time to live of the mailbox', async () => {
+    const worker = workerWith(new PriorityMailbox({}, 0, 20))
+
+    worker.busy(40)
+    const backlog = [worker.fetch(1), worker.fetch(2)]
+
+    await new Promise(resolve => setTimeout(resolve, 30))
+    const recent = worker.fetch(3)
+
+    const results = await Promise.allSettled(backlog)
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected'])
+    expect(await recent).toBe(3)
+    expect(await worker.fetched()).toEqual([3])
+  })
+
+  it('should prefer the time to live of the sender to that of the mailbox', async () => {
+    const worker = workerWith(new ArrayMailbox(10))
+
+    worker.busy(30)
+    const patient = withTtl(worker, 1000).fetch(1)
+
+    expect(await patient).toBe(1)
+  })
+
+  it('should reject a non-positive time to live', () => {
+    const worker = workerWith()
+
+    expect(() => withTtl(worker, 0)).toThrow('Message time to live must be positive: 0')
+    expect(() => new ArrayMailbox(-1)).toThrow('Mailbox time to live must be positive')
+    expect(() => new BoundedMailbox(10, OverflowPolicy.Reject, 0)).toThrow('Mailbox time to live must be positive')
+  })
+})
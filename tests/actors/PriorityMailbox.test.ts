@@ -0,0 +1,189 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import { createDeferred } from '@/actors/DeferredPromise'
+import { EmptyExecutionContext } from '@/actors/ExecutionContext'
+import { LocalMessage } from '@/actors/LocalMessage'
+import { PriorityMailbox } from '@/actors/PriorityMailbox'
+import { withPriority } from '@/actors/Ask'
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Orders extends ActorProtocol {
+  place(id: string): Promise<void>
+  cancel(id: string): Promise<void>
+  audit(id: string): Promise<void>
+  log(): Promise<string[]>
+}
+
+class OrdersActor extends Actor implements Orders {
+  private _log: string[] = []
+
+  constructor() {
+    super()
+  }
+
+  async place(id: string): Promise<void> {
+    this._log.push(`place ${id}`)
+  }
+
+  async cancel(id: string): Promise<void> {
+    this._log.push(`cancel ${id}`)
+  }
+
+  async audit(id: string): Promise<void> {
+    this._log.push(`audit ${id}`)
+  }
+
+  async log(): Promise<string[]> {
+    return [...this._log]
+  }
+
+  afterStop(): void {
+    super.afterStop()
+    this._log.push('stopped')
+    stoppedLogs.push([...this._log])
+  }
+}
+
+const stoppedLogs: string[][] = []
+
+class OrdersInstantiator implements ProtocolInstantiator {
+  instantiate(_definition: Definition): Actor {
+    return new OrdersActor()
+  }
+}
+
+const OrdersProtocol: Protocol = {
+  instantiator: () => new OrdersInstantiator(),
+  type: () => 'Orders'
+}
+
+function ordersWith(mailbox: PriorityMailbox): Orders {
+  return stage().actorFor(OrdersProtocol, undefined, 'default', mailbox)
+}
+
+async function settle(): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 10))
+}
+
+function messageOf(selector: string, priority?: number): LocalMessage {
+  return new LocalMessage(
+    {} as Actor,
+    async () => {},
+    createDeferred(),
+    `${selector}()`,
+    EmptyExecutionContext,
+    { priority }
+  )
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('PriorityMailbox', () => {
+  it('should deliver by method priority, in sending order within a priority', async () => {
+    const mailbox = new PriorityMailbox({ cancel: 10, audit: -5 })
+    const orders = ordersWith(mailbox)
+    await settle()
+
+    mailbox.suspend()
+    orders.audit('a1')
+    orders.place('p1')
+    orders.cancel('c1')
+    orders.place('p2')
+    orders.cancel('c2')
+    mailbox.resume()
+
+    // The log is queried last, behind the lowest priority
+    expect(await withPriority(orders, -10).log()).toEqual(['cancel c1', 'cancel c2', 'place p1', 'place p2', 'audit a1'])
+  })
+
+  it('should prefer a priority given by the sender', async () => {
+    const mailbox = new PriorityMailbox({ cancel: 10 })
+    const orders = ordersWith(mailbox)
+    await settle()
+
+    mailbox.suspend()
+    orders.cancel('c1')
+    orders.place('p1')
+    withPriority(orders, 20).place('urgent')
+    withPriority(orders, -1).cancel('late')
+    mailbox.resume()
+
+    expect(await withPriority(orders, -10).log()).toEqual(['place urgent', 'cancel c1', 'place p1', 'cancel late'])
+  })
+
+  it('should deliver system messages before all others', async () => {
+    const mailbox = new PriorityMailbox({ place: 100 })
+    const orders = ordersWith(mailbox)
+    await settle()
+
+    mailbox.suspend()
+    orders.place('p1')
+    withPriority(orders, Number.MAX_SAFE_INTEGER).place('p2')
+    orders.stop()
+    mailbox.resume()
+    await settle()
+
+    expect(orders.isStopped()).toBe(true)
+    expect(stoppedLogs[stoppedLogs.length - 1]).toEqual(['stopped'])
+  })
+
+  it('should skip withdrawn messages', () => {
+    const mailbox = new PriorityMailbox()
+    const withdrawn = messageOf('first')
+    const kept = messageOf('second')
+
+    mailbox.suspend()
+    mailbox.send(withdrawn)
+    mailbox.send(kept)
+    withdrawn.withdraw()
+
+    expect(mailbox.receive()).toBe(kept)
+  })
+
+  it('should keep order and performance with tens of thousands of queued messages', () => {
+    const mailbox = new PriorityMailbox()
+    const count = 50_000
+    const messages = Array.from({ length: count }, (_, index) => messageOf('work', index % 10))
+    const sentAt = new Map(messages.map((message, index) => [message, index]))
+
+    const started = Date.now()
+    mailbox.suspend()
+    messages.forEach(message => mailbox.send(message))
+    expect(mailbox.size()).toBe(count)
+
+    let previous = messageOf('work', Number.MAX_SAFE_INTEGER)
+    let previousIndex = -1
+    let outOfOrder = 0
+    for (let received = 0; received < count; received++) {
+      const message = mailbox.receive() as LocalMessage
+      const index = sentAt.get(message)!
+      const inOrder = message.priority() === previous.priority()
+        ? index > previousIndex
+        : message.priority()! < previous.priority()!
+      if (!inOrder) outOfOrder++
+      previous = message
+      previousIndex = index
+    }
+
+    expect(outOfOrder).toBe(0)
+    expect(mailbox.size()).toBe(0)
+    expect(Date.now() - started).toBeLessThan(5000)
+  })
+})
@@ -0,0 +1,131 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Protocol, protocolFor } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Account extends ActorProtocol {
+  number(): Promise<string>
+  balance(): Promise<number>
+  deposit(amount: number): Promise<number>
+}
+
+class AccountActor extends Actor implements Account {
+  constructor(private readonly _number: string, private _balance: number = 0) {
+    super()
+  }
+
+  async number(): Promise<string> {
+    return this._number
+  }
+
+  async balance(): Promise<number> {
+    return this._balance
+  }
+
+  async deposit(amount: number): Promise<number> {
+    this._balance += amount
+    return this._balance
+  }
+}
+
+interface Clock extends ActorProtocol {
+  ticks(): Promise<number>
+}
+
+class ClockActor extends Actor implements Clock {
+  constructor() {
+    super()
+  }
+
+  async ticks(): Promise<number> {
+    return 42
+  }
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Protocol', () => {
+  it('should make a protocol of an actor class named by the class', async () => {
+    const ClockProtocol = Protocol.of(ClockActor)
+
+    const clock: Clock = stage().actorFor(ClockProtocol)
+
+    expect(ClockProtocol.type()).toBe('ClockActor')
+    expect(clock.type()).toBe('ClockActor')
+    expect(await clock.ticks()).toBe(42)
+  })
+
+  it('should make a protocol of an actor class with a given type', () => {
+    const AccountProtocol = Protocol.of(AccountActor, { type: 'Account' })
+
+    const account: Account = stage().actorFor(AccountProtocol, { parameters: ['ACC-1', 10] })
+
+    expect(AccountProtocol.type()).toBe('Account')
+    expect(account.type()).toBe('Account')
+  })
+
+  it('should instantiate the actor class with the definition parameters', async () => {
+    const AccountProtocol = Protocol.of(AccountActor, { type: 'Account' })
+
+    const first: Account = stage().actorFor(AccountProtocol, { parameters: ['ACC-2', 10] })
+    const second: Account = stage().actorFor(AccountProtocol, undefined, undefined, undefined, 'ACC-3')
+
+    expect(await first.number()).toBe('ACC-2')
+    expect(await first.deposit(5)).toBe(15)
+    expect(await second.number()).toBe('ACC-3')
+    expect(await second.balance()).toBe(0)
+  })
+
+  it('should create a new actor for each actorFor', async () => {
+    const AccountProtocol = Protocol.of(AccountActor, { type: 'Account' })
+
+    const first: Account = stage().actorFor(AccountProtocol, { parameters: ['ACC-4', 0] })
+    const second: Account = stage().actorFor(AccountProtocol, { parameters: ['ACC-5', 0] })
+    await first.deposit(7)
+
+    expect(first.address()).not.toBe(second.address())
+    expect(await first.balance()).toBe(7)
+    expect(await second.balance()).toBe(0)
+  })
+
+  it('should require a type for an actor class without a name', () => {
+    const anonymous = (() => class extends Actor {})()
+
+    expect(() => Protocol.of(anonymous)).toThrow('Protocol type is required for an actor class without a name')
+    expect(Protocol.of(anonymous, { type: 'Anonymous' }).type()).toBe('Anonymous')
+  })
+
+  it('should make a protocol of an interface from an actor class implementing it', async () => {
+    const AccountProtocol = protocolFor<Account>()(AccountActor, { type: 'Account' })
+
+    const account = stage().actorFor(AccountProtocol, { parameters: ['ACC-6', 20] })
+
+    expect(AccountProtocol.type()).toBe('Account')
+    expect(await account.deposit(1)).toBe(21)
+    expect(await account.number()).toBe('ACC-6')
+  })
+
+  it('should make a protocol of an interface named by the class', async () => {
+    const ClockProtocol = protocolFor<Clock>()(ClockActor)
+
+    const clock = stage().actorFor(ClockProtocol)
+
+    expect(ClockProtocol.type()).toBe('ClockActor')
+    expect(await clock.ticks()).toBe(42)
+  })
+})
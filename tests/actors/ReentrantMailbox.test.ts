@@ -0,0 +1,171 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import { ArrayMailbox } from '@/actors/ArrayMailbox'
+import { Mailbox } from '@/actors/Mailbox'
+import { ReentrantMailbox } from '@/actors/ReentrantMailbox'
+import { ActorStoppedError } from '@/actors/Undelivered'
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Repository extends ActorProtocol {
+  find(id: number, delay: number): Promise<number>
+  save(id: number, delay: number): Promise<void>
+  fail(): Promise<void>
+  log(): Promise<string[]>
+  maxActive(): Promise<number>
+}
+
+class RepositoryActor extends Actor implements Repository {
+  private _active = 0
+  private _maxActive = 0
+  private _log: string[] = []
+
+  constructor() {
+    super()
+  }
+
+  async find(id: number, delay: number): Promise<number> {
+    return this.work(`find ${id}`, delay, id)
+  }
+
+  async save(id: number, delay: number): Promise<void> {
+    await this.work(`save ${id}`, delay, id)
+  }
+
+  async fail(): Promise<void> {
+    throw new Error('repository failed')
+  }
+
+  async log(): Promise<string[]> {
+    return [...this._log]
+  }
+
+  async maxActive(): Promise<number> {
+    return this._maxActive
+  }
+
+  private async work<R>(name: string, delay: number, result: R): Promise<R> {
+    this._active++
+    this._maxActive = Math.max(this._maxActive, this._active)
+    this._log.push(`start ${name}`)
+    await new Promise(resolve => setTimeout(resolve, delay))
+    this._log.push(`end ${name}`)
+    this._active--
+    return result
+  }
+}
+
+class RepositoryInstantiator implements ProtocolInstantiator {
+  instantiate(_definition: Definition): Actor {
+    return new RepositoryActor()
+  }
+}
+
+const RepositoryProtocol: Protocol = {
+  instantiator: () => new RepositoryInstantiator(),
+  type: () => 'Repository'
+}
+
+function repositoryWith(mailbox: Mailbox): Repository {
+  return stage().actorFor(RepositoryProtocol, undefined, 'default', mailbox)
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('ReentrantMailbox', () => {
+  let errorSpy: ReturnType<typeof vi.spyOn>
+  let logSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    errorSpy.mockRestore()
+    logSpy.mockRestore()
+  })
+
+  it('should process one message at a time by default', async () => {
+    const repository = repositoryWith(new ArrayMailbox())
+
+    await Promise.all([repository.find(1, 20), repository.find(2, 5)])
+
+    expect(await repository.log()).toEqual(['start find 1', 'end find 1', 'start find 2', 'end find 2'])
+  })
+
+  it('should start messages while earlier ones are suspended at an await', async () => {
+    const repository = repositoryWith(new ReentrantMailbox())
+
+    const results = await Promise.all([repository.find(1, 20), repository.find(2, 5)])
+
+    expect(results).toEqual([1, 2])
+    expect(await repository.log()).toEqual(['start find 1', 'start find 2', 'end find 2', 'end find 1'])
+  })
+
+  it('should limit the number of messages processed at once', async () => {
+    const mailbox = new ReentrantMailbox(3)
+    const repository = repositoryWith(mailbox)
+
+    const finds = [1, 2, 3, 4, 5, 6, 7].map(id => repository.find(id, 5))
+    expect(mailbox.activeCount()).toBeLessThanOrEqual(3)
+
+    expect(await Promise.all(finds)).toEqual([1, 2, 3, 4, 5, 6, 7])
+    expect(await repository.maxActive()).toBe(3)
+  })
+
+  it('should process messages of non-reentrant methods alone', async () => {
+    const repository = repositoryWith(new ReentrantMailbox(8, ['find']))
+
+    await Promise.all([
+      repository.find(1, 10),
+      repository.find(2, 10),
+      repository.save(3, 5),
+      repository.find(4, 5)
+    ])
+
+    expect(await repository.log()).toEqual([
+      'start find 1', 'start find 2', 'end find 1', 'end find 2',
+      'start save 3', 'end save 3',
+      'start find 4', 'end find 4'
+    ])
+  })
+
+  it('should continue after a failure is supervised', async () => {
+    const repository = repositoryWith(new ReentrantMailbox())
+
+    await expect(repository.fail()).rejects.toThrow('repository failed')
+
+    expect(await repository.find(1, 1)).toBe(1)
+  })
+
+  it('should not start messages after stop', async () => {
+    const repository = repositoryWith(new ReentrantMailbox())
+
+    const find = repository.find(1, 10)
+    await repository.stop()
+
+    expect(await find).toBe(1)
+    await expect(repository.find(2, 1)).rejects.toBeInstanceOf(ActorStoppedError)
+  })
+
+  it('should reject a non-positive max concurrency', () => {
+    expect(() => new ReentrantMailbox(0)).toThrow('Mailbox max concurrency must be positive')
+  })
+})
@@ -0,0 +1,281 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import { DeadLetter, DeadLettersListener } from '@/actors/DeadLetters'
+import { Mailbox } from '@/actors/Mailbox'
+import { BoundedMailbox } from '@/actors/BoundedMailbox'
+import { OverflowPolicy } from '@/actors/OverflowPolicy'
+import { PriorityMailbox } from '@/actors/PriorityMailbox'
+import { Stash } from '@/actors/Stash'
+import { ActorStoppedError, StashOverflowError } from '@/actors/Undelivered'
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Gate extends ActorProtocol {
+  query(id: number): Promise<string>
+  open(): Promise<void>
+  retry(): Promise<void>
+  fail(): Promise<void>
+  log(): Promise<string[]>
+}
+
+class GateActor extends Actor implements Gate {
+  private _open = false
+  private _log: string[] = []
+
+  constructor(private readonly capacity: number) {
+    super()
+  }
+
+  stashCapacity(): number {
+    return this.capacity
+  }
+
+  async query(id: number): Promise<string> {
+    if (!this._open) {
+      this.stash()
+      return 'stashed'
+    }
+    this._log.push(`query ${id}`)
+    return `answer ${id}`
+  }
+
+  async open(): Promise<void> {
+    this._open = true
+    this._log.push('open')
+    this.unstashAll()
+  }
+
+  async retry(): Promise<void> {
+    this._log.push('retry')
+    this.unstashAll()
+  }
+
+  async fail(): Promise<void> {
+    this.stash()
+    throw new Error('failed after stash')
+  }
+
+  async log(): Promise<string[]> {
+    return [...this._log]
+  }
+}
+
+class GateInstantiator implements ProtocolInstantiator {
+  instantiate(definition: Definition): Actor {
+    const [capacity] = definition.parameters()
+    return new GateActor(capacity)
+  }
+}
+
+const GateProtocol: Protocol = {
+  instantiator: () => new GateInstantiator(),
+  type: () => 'Gate'
+}
+
+class AddressedListener implements DeadLettersListener {
+  readonly messages: string[] = []
+
+  constructor(private readonly actor: ActorProtocol) {}
+
+  handle(deadLetter: DeadLetter): void {
+    if (deadLetter.actorProtocol().address().equals(this.actor.address())) {
+      this.messages.push(deadLetter.message())
+    }
+  }
+}
+
+function gate(capacity: number = Stash.DefaultCapacity, mailbox?: Mailbox): Gate {
+  return stage().actorFor(GateProtocol, undefined, 'default', mailbox, capacity)
+}
+
+async function settle(): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 10))
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Stash', () => {
+  let errorSpy: ReturnType<typeof vi.spyOn>
+  let logSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    errorSpy.mockRestore()
+    logSpy.mockRestore()
+  })
+
+  it('should answer stashed messages only when redelivered', async () => {
+    const actor = gate()
+
+    let answered = false
+    const first = actor.query(1).then(answer => { answered = true; return answer })
+    await settle()
+    expect(answered).toBe(false)
+
+    await actor.open()
+
+    expect(await first).toBe('answer 1')
+  })
+
+  it('should deliver unstashed messages ahead of queued messages in stashing order', async () => {
+    const actor = gate()
+
+    const answers = [actor.query(1), actor.query(2), actor.query(3)]
+    await settle()
+
+    // query(4) is queued behind open() and before the stash is returned
+    actor.open()
+    answers.push(actor.query(4))
+
+    expect(await Promise.all(answers)).toEqual(['answer 1', 'answer 2', 'answer 3', 'answer 4'])
+    expect(await actor.log()).toEqual(['open', 'query 1', 'query 2', 'query 3', 'query 4'])
+  })
+
+  it('should stash a redelivered message again', async () => {
+    const actor = gate()
+
+    let answered = false
+    const answer = actor.query(1).then(answer => { answered = true; return answer })
+    await settle()
+
+    // Unstashing while still closed only stashes the message again
+    await actor.retry()
+    await settle()
+    expect(answered).toBe(false)
+
+    await actor.open()
+
+    expect(await answer).toBe('answer 1')
+    expect(await actor.log()).toEqual(['retry', 'open', 'query 1'])
+  })
+
+  it('should dead-letter messages beyond the stash capacity', async () => {
+    const actor = gate(2)
+    const listener = new AddressedListener(actor)
+    stage().deadLetters().registerListener(listener)
+
+    const answers = [actor.query(1), actor.query(2)]
+    const overflowed = actor.query(3).catch(error => error)
+    await settle()
+
+    const error = await overflowed
+    expect(error).toBeInstanceOf(StashOverflowError)
+    expect(error.message).toBe('Stash full (2): query(3)')
+    expect(error.capacity()).toBe(2)
+    expect(listener.messages).toEqual(['query(3)'])
+
+    await actor.open()
+
+    expect(await answers[0]).toBe('answer 1')
+    expect(await answers[1]).toBe('answer 2')
+  })
+
+  it('should resolve messages beyond the stash capacity with a string when undelivered messages resolve', async () => {
+    stage().setResolvesUndelivered(true)
+    try {
+      const actor = gate(1)
+
+      const answers = [actor.query(1), actor.query(2)]
+      await settle()
+
+      expect(await answers[1]).toBe('stash full')
+
+      await actor.open()
+      expect(await answers[0]).toBe('answer 1')
+    } finally {
+      stage().setResolvesUndelivered(false)
+    }
+  })
+
+  it('should dead-letter stashed messages when stopped', async () => {
+    const actor = gate()
+    const listener = new AddressedListener(actor)
+    stage().deadLetters().registerListener(listener)
+
+    const answers = [actor.query(1), actor.query(2)]
+    await settle()
+
+    await actor.stop()
+
+    const results = await Promise.allSettled(answers)
+    expect(results.map(result => result.status === 'rejected' && result.reason instanceof ActorStoppedError)).toEqual([true, true])
+    expect(listener.messages).toEqual(['query(1)', 'query(2)'])
+  })
+
+  it('should reject and not retain a message that fails after being stashed', async () => {
+    const actor = gate()
+
+    await expect(actor.fail()).rejects.toThrow('failed after stash')
+    await settle()
+
+    await actor.open()
+    await settle()
+
+    expect(await actor.log()).toEqual(['open'])
+  })
+
+  it('should retain stashed messages across restarts', async () => {
+    const actor = gate()
+
+    const answer = actor.query(1)
+    await settle()
+
+    await actor.fail().catch(() => {})
+    await settle()
+
+    // The stash outlives the failed instance and is unstashed by its successor
+    await actor.open()
+
+    expect(await answer).toBe('answer 1')
+  })
+
+  it('should unstash ahead of queued messages in a BoundedMailbox', async () => {
+    const actor = gate(Stash.DefaultCapacity, new BoundedMailbox(10, OverflowPolicy.Reject))
+
+    const answers = [actor.query(1), actor.query(2)]
+    await settle()
+
+    actor.open()
+    answers.push(actor.query(3))
+
+    expect(await Promise.all(answers)).toEqual(['answer 1', 'answer 2', 'answer 3'])
+    expect(await actor.log()).toEqual(['open', 'query 1', 'query 2', 'query 3'])
+  })
+
+  it('should unstash ahead of queued messages of the same priority in a PriorityMailbox', async () => {
+    const actor = gate(Stash.DefaultCapacity, new PriorityMailbox())
+
+    const answers = [actor.query(1), actor.query(2)]
+    await settle()
+
+    actor.open()
+    answers.push(actor.query(3))
+
+    expect(await Promise.all(answers)).toEqual(['answer 1', 'answer 2', 'answer 3'])
+    expect(await actor.log()).toEqual(['open', 'query 1', 'query 2', 'query 3'])
+  })
+
+  it('should reject a non-positive capacity', () => {
+    expect(() => new Stash(0)).toThrow('Stash capacity must be positive')
+  })
+})
@@ -0,0 +1,232 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import { Supervisor, SupervisionDirective } from '@/actors/Supervisor'
+import { PolicySupervisor, SupervisionPolicy } from '@/actors/SupervisionPolicy'
+import {
+  SupervisionEvent,
+  SupervisionEventListener,
+  SupervisionEventType
+} from '@/actors/SupervisionEvents'
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Worker extends ActorProtocol {
+  work(): Promise<void>
+}
+
+class WorkerActor extends Actor implements Worker {
+  constructor() {
+    super()
+  }
+
+  async work(): Promise<void> {
+    throw new Error('work failed')
+  }
+}
+
+class WorkerInstantiator implements ProtocolInstantiator {
+  instantiate(_definition: Definition): Actor {
+    return new WorkerActor()
+  }
+}
+
+const WorkerProtocol: Protocol = {
+  instantiator: () => new WorkerInstantiator(),
+  type: () => 'Worker'
+}
+
+class RecordingListener implements SupervisionEventListener {
+  readonly events: SupervisionEvent[] = []
+
+  handle(event: SupervisionEvent): void {
+    this.events.push(event)
+  }
+
+  typesOf(actor: ActorProtocol): SupervisionEventType[] {
+    return this.events
+      .filter(event => event.address().equals(actor.address()))
+      .map(event => event.type())
+  }
+
+  directivesFor(actor: ActorProtocol): SupervisionDirective[] {
+    return this.events
+      .filter(event => event.address().equals(actor.address()) && event.type() === SupervisionEventType.Directed)
+      .map(event => event.directive()!)
+  }
+}
+
+const escalating = SupervisionPolicy.when(Error).escalate()
+
+function supervisorOf(type: string, policy: SupervisionPolicy, supervisorName: string): ActorProtocol {
+  return stage().actorFor(PolicySupervisor.protocol(type, policy), undefined, supervisorName)
+}
+
+async function settle(): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 30))
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Supervision escalation', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>
+  let errorSpy: ReturnType<typeof vi.spyOn>
+  let listener: RecordingListener
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    listener = new RecordingListener()
+    stage().supervisionEvents().registerListener(listener)
+  })
+
+  afterEach(() => {
+    stage().supervisionEvents().deregisterListener(listener)
+    logSpy.mockRestore()
+    errorSpy.mockRestore()
+  })
+
+  it('should present the escalating supervisor to its own supervisor', async () => {
+    const supervisor = supervisorOf('escalation-one', escalating, 'default')
+    const worker: Worker = stage().actorFor(WorkerProtocol, undefined, 'escalation-one')
+
+    await worker.work().catch(() => {})
+    await settle()
+
+    // The worker is restarted along with the escalating supervisor
+    expect(listener.typesOf(worker)).toEqual([
+      SupervisionEventType.Failed,
+      SupervisionEventType.Directed,
+      SupervisionEventType.Escalated,
+      SupervisionEventType.Restarted
+    ])
+    expect(worker.isStopped()).toBe(false)
+
+    // PublicRootActor restarts the escalating supervisor
+    expect(listener.typesOf(supervisor)).toEqual([
+      SupervisionEventType.Failed,
+      SupervisionEventType.Directed,
+      SupervisionEventType.Restarted
+    ])
+    expect(listener.directivesFor(supervisor)).toEqual([SupervisionDirective.Restart])
+
+    const failed = listener.events.find(event =>
+      event.address().equals(supervisor.address()) && event.type() === SupervisionEventType.Failed)!
+    expect(failed.error().message).toBe('work failed')
+    expect(supervisor.isStopped()).toBe(false)
+  })
+
+  it('should escalate through multiple levels of supervisors', async () => {
+    const upper = supervisorOf('escalation-upper', SupervisionPolicy.when(Error).restart(), 'default')
+    const middle = supervisorOf('escalation-middle', escalating, 'escalation-upper')
+    const lower = supervisorOf('escalation-lower', escalating, 'escalation-middle')
+    const worker: Worker = stage().actorFor(WorkerProtocol, undefined, 'escalation-lower')
+
+    await worker.work().catch(() => {})
+    await settle()
+
+    // The outcome of the middle supervisor's failure decides the lower supervisor's and the worker's
+    expect(worker.isStopped()).toBe(false)
+    expect(lower.isStopped()).toBe(false)
+    expect(listener.typesOf(worker)).toContain(SupervisionEventType.Restarted)
+    expect(listener.typesOf(lower)).toEqual([
+      SupervisionEventType.Failed,
+      SupervisionEventType.Directed,
+      SupervisionEventType.Escalated,
+      SupervisionEventType.Restarted
+    ])
+    expect(listener.directivesFor(lower)).toEqual([SupervisionDirective.Escalate])
+
+    // The upper supervisor restarts the middle supervisor and is itself unaffected
+    expect(middle.isStopped()).toBe(false)
+    expect(listener.directivesFor(middle)).toEqual([SupervisionDirective.Restart])
+    expect(listener.typesOf(middle)).toContain(SupervisionEventType.Restarted)
+    expect(listener.typesOf(upper)).toEqual([])
+  })
+
+  it('should keep the escalating actor when its supervisor is resumed', async () => {
+    const supervisor = supervisorOf('escalation-resumed', escalating, 'escalation-resuming')
+    supervisorOf('escalation-resuming', SupervisionPolicy.when(Error).resume(), 'default')
+    const worker: Worker = stage().actorFor(WorkerProtocol, undefined, 'escalation-resumed')
+
+    await worker.work().catch(() => {})
+    await settle()
+
+    expect(listener.directivesFor(supervisor)).toEqual([SupervisionDirective.Resume])
+    expect(listener.typesOf(worker)).toEqual([
+      SupervisionEventType.Failed,
+      SupervisionEventType.Directed,
+      SupervisionEventType.Escalated,
+      SupervisionEventType.Resumed
+    ])
+    expect(worker.isStopped()).toBe(false)
+    await expect(worker.work()).rejects.toThrow('work failed')
+  })
+
+  it('should stop the escalating actor when its supervisor is stopped', async () => {
+    const supervisor = supervisorOf('escalation-stopped', escalating, 'escalation-stopping')
+    supervisorOf('escalation-stopping', SupervisionPolicy.when(Error).stop(), 'default')
+    const worker: Worker = stage().actorFor(WorkerProtocol, undefined, 'escalation-stopped')
+
+    await worker.work().catch(() => {})
+    await settle()
+
+    expect(listener.directivesFor(supervisor)).toEqual([SupervisionDirective.Stop])
+    expect(supervisor.isStopped()).toBe(true)
+    expect(worker.isStopped()).toBe(true)
+    expect(listener.typesOf(worker)).toEqual([
+      SupervisionEventType.Failed,
+      SupervisionEventType.Directed,
+      SupervisionEventType.Escalated,
+      SupervisionEventType.Stopped
+    ])
+  })
+
+  it('should end escalation at PrivateRootActor', async () => {
+    const supervisor = supervisorOf('escalation-to-root', escalating, '__privateRoot')
+    const worker: Worker = stage().actorFor(WorkerProtocol, undefined, 'escalation-to-root')
+
+    await worker.work().catch(() => {})
+    await settle()
+
+    expect(worker.isStopped()).toBe(true)
+    expect(supervisor.isStopped()).toBe(true)
+    expect(listener.directivesFor(supervisor)).toEqual([SupervisionDirective.Stop])
+  })
+
+  it('should escalate to PrivateRootActor from a supervisor supervising itself', async () => {
+    const supervisor = supervisorOf('escalation-loop', escalating, 'escalation-loop')
+    const worker: Worker = stage().actorFor(WorkerProtocol, undefined, 'escalation-loop')
+
+    await worker.work().catch(() => {})
+    await settle()
+
+    expect(worker.isStopped()).toBe(true)
+    expect(supervisor.isStopped()).toBe(true)
+    expect(listener.directivesFor(supervisor)).toEqual([SupervisionDirective.Stop])
+  })
+
+  it('should answer PrivateRootActor as the supervisor of PublicRootActor', async () => {
+    const publicRoot = stage().supervisor('default')
+    const privateRoot = stage().directory().findByType('__privateRoot')!
+
+    const supervisor = await (publicRoot.supervisor() as unknown as Promise<Supervisor>)
+
+    expect((supervisor as unknown as ActorProtocol).address().equals(privateRoot.address())).toBe(true)
+  })
+})
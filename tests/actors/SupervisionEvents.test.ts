@@ -0,0 +1,241 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import { Uuid7Address } from '@/actors/Uuid7Address'
+import { DefaultLogger } from '@/actors/Logger'
+import { SupervisionDirective } from '@/actors/Supervisor'
+import { PolicySupervisor, SupervisionPolicy } from '@/actors/SupervisionPolicy'
+import {
+  SupervisionEvent,
+  SupervisionEventListener,
+  SupervisionEvents,
+  SupervisionEventType
+} from '@/actors/SupervisionEvents'
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+class RecoverableError extends Error {}
+class UnrecoverableError extends Error {}
+
+interface Unstable extends ActorProtocol {
+  recoverable(): Promise<void>
+  unrecoverable(): Promise<void>
+  other(): Promise<void>
+}
+
+class UnstableActor extends Actor implements Unstable {
+  constructor() {
+    super()
+  }
+
+  async recoverable(): Promise<void> {
+    throw new RecoverableError('recoverable')
+  }
+
+  async unrecoverable(): Promise<void> {
+    throw new UnrecoverableError('unrecoverable')
+  }
+
+  async other(): Promise<void> {
+    throw new Error('other')
+  }
+}
+
+class UnstableInstantiator implements ProtocolInstantiator {
+  instantiate(_definition: Definition): Actor {
+    return new UnstableActor()
+  }
+}
+
+const UnstableProtocol: Protocol = {
+  instantiator: () => new UnstableInstantiator(),
+  type: () => 'Unstable'
+}
+
+class RecordingListener implements SupervisionEventListener {
+  readonly events: SupervisionEvent[] = []
+
+  handle(event: SupervisionEvent): void {
+    this.events.push(event)
+  }
+
+  typesOf(actor: ActorProtocol): SupervisionEventType[] {
+    return this.events
+      .filter(event => event.address().equals(actor.address()))
+      .map(event => event.type())
+  }
+}
+
+const policy = SupervisionPolicy
+  .when(RecoverableError).resume()
+  .when(UnrecoverableError).stop()
+  .otherwise(SupervisionDirective.Restart, { intensity: 1, period: 5000 })
+
+async function settle(): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 20))
+}
+
+function eventFor(address: Uuid7Address, message: string): SupervisionEvent {
+  return new SupervisionEvent(SupervisionEventType.Failed, address, 'Test', new Error(message))
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('SupervisionEvents', () => {
+  it('should retain a bounded history per actor, oldest first', () => {
+    const events = new SupervisionEvents(DefaultLogger, 3)
+    const address = Uuid7Address.unique()
+
+    for (let count = 1; count <= 5; count++) {
+      events.publish(eventFor(address, `failure ${count}`))
+    }
+
+    const history = events.failureHistoryOf(address)
+    expect(history.map(event => event.error().message)).toEqual(['failure 3', 'failure 4', 'failure 5'])
+  })
+
+  it('should drop the history of the least recently supervised actor first', () => {
+    const events = new SupervisionEvents(DefaultLogger, 3, 2)
+    const first = Uuid7Address.unique()
+    const second = Uuid7Address.unique()
+    const third = Uuid7Address.unique()
+
+    events.publish(eventFor(first, 'first'))
+    events.publish(eventFor(second, 'second'))
+    events.publish(eventFor(first, 'first again'))
+    events.publish(eventFor(third, 'third'))
+
+    expect(events.failureHistoryOf(first).length).toBe(2)
+    expect(events.failureHistoryOf(second).length).toBe(0)
+    expect(events.failureHistoryOf(third).length).toBe(1)
+  })
+
+  it('should protect other listeners from a crashing listener', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const events = new SupervisionEvents(DefaultLogger)
+    const recording = new RecordingListener()
+
+    events.registerListener({ handle: () => { throw new Error('listener crash') } })
+    events.registerListener(recording)
+    events.publish(eventFor(Uuid7Address.unique(), 'failure'))
+
+    expect(recording.events.length).toBe(1)
+    errorSpy.mockRestore()
+  })
+
+  it('should stop notifying deregistered listeners', () => {
+    const events = new SupervisionEvents(DefaultLogger)
+    const recording = new RecordingListener()
+
+    events.registerListener(recording)
+    events.deregisterListener(recording)
+    events.publish(eventFor(Uuid7Address.unique(), 'failure'))
+
+    expect(recording.events.length).toBe(0)
+  })
+})
+
+describe('Stage supervision event stream', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>
+  let errorSpy: ReturnType<typeof vi.spyOn>
+  let listener: RecordingListener
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    listener = new RecordingListener()
+    stage().supervisionEvents().registerListener(listener)
+  })
+
+  afterEach(() => {
+    stage().supervisionEvents().deregisterListener(listener)
+    logSpy.mockRestore()
+    errorSpy.mockRestore()
+  })
+
+  it('should publish failure, directive, and resume', async () => {
+    stage().actorFor(PolicySupervisor.protocol('events-resume', policy), undefined, 'default')
+    const unstable: Unstable = stage().actorFor(UnstableProtocol, undefined, 'events-resume')
+
+    await unstable.recoverable().catch(() => {})
+    await settle()
+
+    expect(listener.typesOf(unstable)).toEqual([
+      SupervisionEventType.Failed,
+      SupervisionEventType.Directed,
+      SupervisionEventType.Resumed
+    ])
+
+    const directed = listener.events.find(event => event.type() === SupervisionEventType.Directed)!
+    expect(directed.directive()).toBe(SupervisionDirective.Resume)
+    expect(directed.error()).toBeInstanceOf(RecoverableError)
+    expect(directed.actorType()).toBe('Unstable')
+  })
+
+  it('should publish failure, directive, and restart', async () => {
+    stage().actorFor(PolicySupervisor.protocol('events-restart', policy), undefined, 'default')
+    const unstable: Unstable = stage().actorFor(UnstableProtocol, undefined, 'events-restart')
+
+    await unstable.other().catch(() => {})
+    await settle()
+
+    expect(listener.typesOf(unstable)).toEqual([
+      SupervisionEventType.Failed,
+      SupervisionEventType.Directed,
+      SupervisionEventType.Restarted
+    ])
+  })
+
+  it('should publish the stop of an actor', async () => {
+    stage().actorFor(PolicySupervisor.protocol('events-stop', policy), undefined, 'default')
+    const unstable: Unstable = stage().actorFor(UnstableProtocol, undefined, 'events-stop')
+
+    await unstable.unrecoverable().catch(() => {})
+    await settle()
+
+    expect(listener.typesOf(unstable)).toEqual([
+      SupervisionEventType.Failed,
+      SupervisionEventType.Directed,
+      SupervisionEventType.Stopped
+    ])
+  })
+
+  it('should show why an actor was stopped in its failure history', async () => {
+    stage().actorFor(PolicySupervisor.protocol('events-intensity', policy), undefined, 'default')
+    const unstable: Unstable = stage().actorFor(UnstableProtocol, undefined, 'events-intensity')
+
+    await unstable.other().catch(() => {})
+    await settle()
+    await unstable.other().catch(() => {})
+    await settle()
+
+    expect(unstable.isStopped()).toBe(true)
+
+    const history = stage().supervisionEvents().failureHistoryOf(unstable.address())
+    expect(history.map(event => event.type())).toEqual([
+      SupervisionEventType.Failed,
+      SupervisionEventType.Directed,
+      SupervisionEventType.Restarted,
+      SupervisionEventType.Failed,
+      SupervisionEventType.Directed,
+      SupervisionEventType.IntensityExceeded,
+      SupervisionEventType.Stopped
+    ])
+    expect(history[history.length - 1]!.toString()).toContain('Stopped')
+  })
+})
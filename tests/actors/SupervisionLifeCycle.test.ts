@@ -20,6 +20,8 @@ import {
   SupervisionDirective
 } from '@/actors/Supervisor'
 import { DefaultSupervisor } from '@/actors/DefaultSupervisor'
+import { RestartHistory } from '@/actors/RestartHistory'
+import { LifeCycleHookError } from '@/actors/LifeCycle'
 
 // ============================================================================
 // Test Actors
@@ -80,6 +82,26 @@ class FailingActor extends Actor {
   }
 }
 
+interface Crashing extends ActorProtocol {
+  crash(): Promise<void>
+  ping(): Promise<string>
+}
+
+// Actor that fails whenever asked to crash
+class CrashingActor extends Actor implements Crashing {
+  constructor() {
+    super()
+  }
+
+  async crash(): Promise<void> {
+    throw new Error('crash on demand')
+  }
+
+  async ping(): Promise<string> {
+    return 'pong'
+  }
+}
+
 // ============================================================================
 // Custom Supervisors for Testing
 // ============================================================================
@@ -155,6 +177,30 @@ class StoppingSupervisor extends DefaultSupervisor {
   }
 }
 
+class IntensitySupervisor extends DefaultSupervisor {
+  constructor(private readonly _intensity: number, private readonly _period: number) {
+    super()
+  }
+
+  async supervisionStrategy(): Promise<SupervisionStrategy> {
+    const intensity = this._intensity
+    const period = this._period
+    return new class extends SupervisionStrategy {
+      intensity(): number { return intensity }
+      period(): number { return period }
+      scope(): SupervisionScope { return SupervisionScope.One }
+    }
+  }
+
+  protected decideDirective(
+    _error: Error,
+    _supervised: Supervised,
+    _strategy: SupervisionStrategy
+  ): SupervisionDirective {
+    return SupervisionDirective.Restart
+  }
+}
+
 // ============================================================================
 // Protocol Definitions
 // ============================================================================
@@ -193,6 +239,23 @@ class FailingProtocol implements Protocol {
   }
 }
 
+const CrashingProtocol: Protocol = {
+  instantiator: () => ({
+    instantiate: () => new CrashingActor()
+  }),
+  type: () => 'Crashing'
+}
+
+function IntensitySupervisorProtocol(name: string): Protocol {
+  return {
+    instantiator: () => ({
+      instantiate: (definition: Definition) =>
+        new IntensitySupervisor(definition.parameters()[0], definition.parameters()[1])
+    }),
+    type: () => name
+  }
+}
+
 // Supervisor tracking maps
 const restartingSupervisors: Map<string, RestartingSupervisor> = new Map()
 const resumingSupervisors: Map<string, ResumingSupervisor> = new Map()
@@ -337,9 +400,12 @@ describe('Supervision Integration', () => {
       )
       expect(restartLogs.length).toBeGreaterThan(0)
 
-      // Lifecycle hooks should have been called
+      // Lifecycle hooks should have been called: beforeRestart on the
+      // failed instance, afterRestart on its replacement
+      const restarted = errorProneActors.get(proxy.address().valueAsString())!
+      expect(restarted).not.toBe(actor)
       expect(actor.wasBeforeRestartCalled()).toBe(true)
-      expect(actor.wasAfterRestartCalled()).toBe(true)
+      expect(restarted.wasAfterRestartCalled()).toBe(true)
 
       logSpy.mockRestore()
     })
@@ -480,13 +546,14 @@ describe('Supervision Integration', () => {
 
       const proxy = stage().actorFor(new RestartFailingProtocol())
 
-      // Manually trigger restart
-      await proxy.lifeCycle().restart(new Error('trigger restart'))
+      // Manually trigger restart; the restart completes but reports the hook failure
+      await expect(proxy.lifeCycle().restart(new Error('trigger restart')))
+        .rejects.toBeInstanceOf(LifeCycleHookError)
 
       // Wait for processing
       await new Promise(resolve => setTimeout(resolve, 10))
 
-      // Error should have been logged but restart should complete
+      // Error should have been logged
       const errorCalls = errorSpy.mock.calls.filter(call =>
         call[0]?.includes('beforeRestart() failed')
       )
@@ -495,4 +562,108 @@ describe('Supervision Integration', () => {
       errorSpy.mockRestore()
     })
   })
+
+  describe('Restart intensity and period', () => {
+    const crashAndSettle = async (crashing: Crashing): Promise<void> => {
+      await expect(crashing.crash()).rejects.toThrow('crash on demand')
+      await new Promise(resolve => setTimeout(resolve, 20))
+    }
+
+    it('should stop actor when restarts exceed intensity within period', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      stage().actorFor(IntensitySupervisorProtocol('intensity-2'), undefined, 'default', undefined, 2, 1000)
+      const crashing = stage().actorFor<Crashing>(CrashingProtocol, undefined, 'intensity-2')
+
+      await crashAndSettle(crashing)
+      await crashAndSettle(crashing)
+      expect(crashing.isStopped()).toBe(false)
+      expect(await crashing.ping()).toBe('pong')
+
+      await crashAndSettle(crashing)
+      expect(crashing.isStopped()).toBe(true)
+
+      const exceededLogs = errorSpy.mock.calls.filter(call =>
+        String(call[0]).includes('Restart intensity exceeded')
+      )
+      expect(exceededLogs.length).toBe(1)
+
+      errorSpy.mockRestore()
+    })
+
+    it('should restart forever with ForeverIntensity', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      stage().actorFor(
+        IntensitySupervisorProtocol('intensity-forever'),
+        undefined,
+        'default',
+        undefined,
+        SupervisionStrategy.ForeverIntensity,
+        SupervisionStrategy.ForeverPeriod
+      )
+      const crashing = stage().actorFor<Crashing>(CrashingProtocol, undefined, 'intensity-forever')
+
+      for (let count = 0; count < 5; ++count) {
+        await crashAndSettle(crashing)
+      }
+
+      expect(crashing.isStopped()).toBe(false)
+      expect(await crashing.ping()).toBe('pong')
+
+      errorSpy.mockRestore()
+    })
+
+    it('should only count restarts within the sliding period', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      stage().actorFor(IntensitySupervisorProtocol('intensity-sliding'), undefined, 'default', undefined, 1, 60)
+      const crashing = stage().actorFor<Crashing>(CrashingProtocol, undefined, 'intensity-sliding')
+
+      await crashAndSettle(crashing)
+
+      // Let the first restart fall out of the period
+      await new Promise(resolve => setTimeout(resolve, 80))
+
+      await crashAndSettle(crashing)
+      expect(crashing.isStopped()).toBe(false)
+
+      // Second failure within the period exceeds intensity of 1
+      await crashAndSettle(crashing)
+      expect(crashing.isStopped()).toBe(true)
+
+      errorSpy.mockRestore()
+    })
+
+    it('should stop on first failure with zero intensity', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      stage().actorFor(IntensitySupervisorProtocol('intensity-zero'), undefined, 'default', undefined, 0, 1000)
+      const crashing = stage().actorFor<Crashing>(CrashingProtocol, undefined, 'intensity-zero')
+
+      await crashAndSettle(crashing)
+      expect(crashing.isStopped()).toBe(true)
+
+      errorSpy.mockRestore()
+    })
+
+    it('should track restart history within a sliding window', () => {
+      const history = new RestartHistory()
+
+      expect(history.isExceededBy(1000, 2, 0)).toBe(false)
+      history.record(2, 0)
+      history.record(2, 500)
+      expect(history.isExceededBy(1000, 2, 900)).toBe(true)
+      expect(history.isExceededBy(1000, 2, 1200)).toBe(false)
+      expect(history.countWithin(1000, 1200)).toBe(1)
+
+      history.record(2, 1200)
+      history.record(2, 1300)
+      expect(history.countWithin(SupervisionStrategy.ForeverPeriod, 1000000)).toBe(2)
+      expect(history.isExceededBy(SupervisionStrategy.ForeverPeriod, 2, 1000000)).toBe(true)
+
+      history.record(SupervisionStrategy.ForeverIntensity, 1400)
+      expect(history.isExceededBy(1000, SupervisionStrategy.ForeverIntensity, 1400)).toBe(false)
+    })
+  })
 })
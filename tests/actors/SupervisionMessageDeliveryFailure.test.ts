@@ -495,6 +495,8 @@ describe('Supervision - Message Delivery Failures', () => {
       await proxy.increment()
       expect(await proxy.getValue()).toBe(3)
 
+      const original = counterActors.get(proxy.address().valueAsString())!
+
       // Trigger error (should restart and reset state)
       await proxy.causeError().catch(() => {})
 
@@ -504,10 +506,12 @@ describe('Supervision - Message Delivery Failures', () => {
       // State should be reset after restart
       expect(await proxy.getValue()).toBe(0)
 
-      // Verify lifecycle hooks were called
-      const actor = counterActors.get(proxy.address().valueAsString())!
-      expect(actor.wasBeforeRestartCalled()).toBe(true)
-      expect(actor.wasAfterRestartCalled()).toBe(true)
+      // Verify lifecycle hooks were called: beforeRestart on the failed
+      // instance, afterRestart on its replacement
+      const restarted = counterActors.get(proxy.address().valueAsString())!
+      expect(restarted).not.toBe(original)
+      expect(original.wasBeforeRestartCalled()).toBe(true)
+      expect(restarted.wasAfterRestartCalled()).toBe(true)
 
       errorSpy.mockRestore()
       logSpy.mockRestore()
@@ -0,0 +1,207 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import {
+  DefaultSupervisionStrategy,
+  Supervised,
+  SupervisionDirective,
+  SupervisionScope
+} from '@/actors/Supervisor'
+import { PolicySupervisor, SupervisionPolicy } from '@/actors/SupervisionPolicy'
+
+// ============================================================================
+// Test Errors
+// ============================================================================
+
+class ValidationError extends Error {}
+class ConnectionError extends Error {}
+class ConnectionTimeoutError extends ConnectionError {}
+class FatalError extends Error {}
+
+const anySupervised = {} as Supervised
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Ledger extends ActorProtocol {
+  post(amount: number): Promise<void>
+  balance(): Promise<number>
+  failWith(kind: string): Promise<void>
+}
+
+class LedgerActor extends Actor implements Ledger {
+  private _balance: number = 0
+
+  constructor() {
+    super()
+  }
+
+  async post(amount: number): Promise<void> {
+    this._balance += amount
+  }
+
+  async balance(): Promise<number> {
+    return this._balance
+  }
+
+  async failWith(kind: string): Promise<void> {
+    switch (kind) {
+      case 'validation': throw new ValidationError('invalid posting')
+      case 'connection': throw new ConnectionError('connection lost')
+      case 'fatal': throw new FatalError('fatal ledger failure')
+      default: throw new Error(kind)
+    }
+  }
+}
+
+class LedgerInstantiator implements ProtocolInstantiator {
+  instantiate(_definition: Definition): Actor {
+    return new LedgerActor()
+  }
+}
+
+const LedgerProtocol: Protocol = {
+  instantiator: () => new LedgerInstantiator(),
+  type: () => 'Ledger'
+}
+
+async function settle(): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 20))
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('SupervisionPolicy', () => {
+  it('should match errors by class, including subclasses', () => {
+    const policy = SupervisionPolicy
+      .when(ValidationError).resume()
+      .when(ConnectionError).stop()
+
+    expect(policy.decide(new ValidationError('x'), anySupervised)).toBe(SupervisionDirective.Resume)
+    expect(policy.decide(new ConnectionTimeoutError('x'), anySupervised)).toBe(SupervisionDirective.Stop)
+  })
+
+  it('should match errors by predicate', () => {
+    const policy = SupervisionPolicy
+      .when(error => error.message.includes('transient')).resume()
+
+    expect(policy.decide(new Error('transient glitch'), anySupervised)).toBe(SupervisionDirective.Resume)
+    expect(policy.decide(new Error('other'), anySupervised)).toBe(SupervisionDirective.Restart)
+  })
+
+  it('should decide with the first matching rule in declaration order', () => {
+    const policy = SupervisionPolicy
+      .when(ConnectionTimeoutError).escalate()
+      .when(ConnectionError).resume()
+      .when(Error).stop()
+
+    expect(policy.decide(new ConnectionTimeoutError('x'), anySupervised)).toBe(SupervisionDirective.Escalate)
+    expect(policy.decide(new ConnectionError('x'), anySupervised)).toBe(SupervisionDirective.Resume)
+    expect(policy.decide(new FatalError('x'), anySupervised)).toBe(SupervisionDirective.Stop)
+  })
+
+  it('should fall back to Restart unless otherwise is given', () => {
+    const restarting = SupervisionPolicy.when(ValidationError).resume()
+    const escalating = SupervisionPolicy.when(ValidationError).resume()
+      .otherwise(SupervisionDirective.Escalate)
+
+    expect(restarting.decide(new FatalError('x'), anySupervised)).toBe(SupervisionDirective.Restart)
+    expect(escalating.decide(new FatalError('x'), anySupervised)).toBe(SupervisionDirective.Escalate)
+  })
+
+  it('should apply rule overrides to the supervisor strategy', () => {
+    const base = new DefaultSupervisionStrategy()
+    const policy = SupervisionPolicy
+      .when(ConnectionError).restart({ intensity: 5, scope: SupervisionScope.All })
+      .when(ValidationError).resume()
+
+    const overridden = policy.ruleFor(new ConnectionError('x'), anySupervised).strategyFrom(base)
+    expect(overridden.intensity()).toBe(5)
+    expect(overridden.period()).toBe(base.period())
+    expect(overridden.scope()).toBe(SupervisionScope.All)
+
+    const unchanged = policy.ruleFor(new ValidationError('x'), anySupervised).strategyFrom(base)
+    expect(unchanged).toBe(base)
+  })
+})
+
+describe('PolicySupervisor', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>
+  let errorSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    logSpy.mockRestore()
+    errorSpy.mockRestore()
+  })
+
+  const policy = SupervisionPolicy
+    .when(ValidationError).resume()
+    .when(ConnectionError).restart({ intensity: 1, period: 5000 })
+    .when(FatalError).stop()
+
+  it('should resume, keeping state, when the policy says so', async () => {
+    stage().actorFor(PolicySupervisor.protocol('policy-resume', policy), undefined, 'default')
+    const ledger: Ledger = stage().actorFor(LedgerProtocol, undefined, 'policy-resume')
+
+    await ledger.post(10)
+    await ledger.failWith('validation').catch(() => {})
+    await settle()
+
+    expect(await ledger.balance()).toBe(10)
+  })
+
+  it('should restart, resetting state, when the policy says so', async () => {
+    stage().actorFor(PolicySupervisor.protocol('policy-restart', policy), undefined, 'default')
+    const ledger: Ledger = stage().actorFor(LedgerProtocol, undefined, 'policy-restart')
+
+    await ledger.post(10)
+    await ledger.failWith('connection').catch(() => {})
+    await settle()
+
+    expect(ledger.isStopped()).toBe(false)
+    expect(await ledger.balance()).toBe(0)
+  })
+
+  it('should stop when the policy says so', async () => {
+    stage().actorFor(PolicySupervisor.protocol('policy-stop', policy), undefined, 'default')
+    const ledger: Ledger = stage().actorFor(LedgerProtocol, undefined, 'policy-stop')
+
+    await ledger.failWith('fatal').catch(() => {})
+    await settle()
+
+    expect(ledger.isStopped()).toBe(true)
+  })
+
+  it('should enforce the intensity override of the deciding rule', async () => {
+    stage().actorFor(PolicySupervisor.protocol('policy-intensity', policy), undefined, 'default')
+    const ledger: Ledger = stage().actorFor(LedgerProtocol, undefined, 'policy-intensity')
+
+    await ledger.failWith('connection').catch(() => {})
+    await settle()
+    expect(ledger.isStopped()).toBe(false)
+
+    // Second restart within the period exceeds intensity 1
+    await ledger.failWith('connection').catch(() => {})
+    await settle()
+    expect(ledger.isStopped()).toBe(true)
+  })
+})
@@ -0,0 +1,67 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { bench, describe } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { tell } from '@/actors/Tell'
+
+interface Counter {
+  increment(): Promise<void>
+  value(): Promise<number>
+}
+
+class CounterActor extends Actor implements Counter {
+  private _count = 0
+
+  constructor() {
+    super()
+  }
+
+  async increment(): Promise<void> {
+    this._count++
+  }
+
+  async value(): Promise<number> {
+    return this._count
+  }
+}
+
+class CounterInstantiator implements ProtocolInstantiator {
+  instantiate(_definition: Definition): Actor {
+    return new CounterActor()
+  }
+}
+
+const CounterProtocol: Protocol = {
+  instantiator: () => new CounterInstantiator(),
+  type: () => 'Counter'
+}
+
+const Messages = 10_000
+
+const counter: Counter = stage().actorFor(CounterProtocol)
+
+describe('sending 10,000 messages', () => {
+  bench('proxy (request-response)', async () => {
+    for (let count = 0; count < Messages; count++) {
+      counter.increment()
+    }
+    await counter.value()
+  })
+
+  bench('tell (one-way)', async () => {
+    const oneWay = tell(counter)
+    for (let count = 0; count < Messages; count++) {
+      oneWay.increment()
+    }
+    await counter.value()
+  })
+})
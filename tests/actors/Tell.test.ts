@@ -0,0 +1,126 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import { tell } from '@/actors/Tell'
+import {
+  SupervisionEvent,
+  SupervisionEventListener,
+  SupervisionEventType
+} from '@/actors/SupervisionEvents'
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Journal extends ActorProtocol {
+  append(entry: string): Promise<void>
+  entries(): Promise<string[]>
+  fail(): Promise<void>
+}
+
+class JournalActor extends Actor implements Journal {
+  private _entries: string[] = []
+
+  constructor() {
+    super()
+  }
+
+  async append(entry: string): Promise<void> {
+    this._entries.push(entry)
+  }
+
+  async entries(): Promise<string[]> {
+    return [...this._entries]
+  }
+
+  async fail(): Promise<void> {
+    throw new Error('journal failure')
+  }
+}
+
+class JournalInstantiator implements ProtocolInstantiator {
+  instantiate(_definition: Definition): Actor {
+    return new JournalActor()
+  }
+}
+
+const JournalProtocol: Protocol = {
+  instantiator: () => new JournalInstantiator(),
+  type: () => 'Journal'
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('tell', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>
+  let errorSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    logSpy.mockRestore()
+    errorSpy.mockRestore()
+  })
+
+  it('should deliver one-way messages in sending order with request-response messages', async () => {
+    const journal: Journal = stage().actorFor(JournalProtocol)
+
+    const answer = tell(journal).append('first')
+    await journal.append('second')
+    tell(journal).append('third')
+
+    expect(answer).toBeUndefined()
+    expect(await journal.entries()).toEqual(['first', 'second', 'third'])
+  })
+
+  it('should answer the same one-way view for the same actor', () => {
+    const journal: Journal = stage().actorFor(JournalProtocol)
+
+    expect(tell(journal)).toBe(tell(journal))
+  })
+
+  it('should route failures only to supervision', async () => {
+    const failures: SupervisionEvent[] = []
+    const listener: SupervisionEventListener = {
+      handle: (event: SupervisionEvent) => {
+        if (event.type() === SupervisionEventType.Failed) failures.push(event)
+      }
+    }
+    const unhandled = vi.fn()
+    process.on('unhandledRejection', unhandled)
+    stage().supervisionEvents().registerListener(listener)
+
+    const journal: Journal = stage().actorFor(JournalProtocol)
+
+    tell(journal).fail()
+    tell(journal).append('after restart')
+    await new Promise(resolve => setTimeout(resolve, 30))
+
+    stage().supervisionEvents().deregisterListener(listener)
+    process.off('unhandledRejection', unhandled)
+
+    expect(failures.some(event => event.address().equals(journal.address()))).toBe(true)
+    expect(unhandled).not.toHaveBeenCalled()
+    expect(await journal.entries()).toEqual(['after restart'])
+  })
+
+  it('should reject objects that are not actor proxies', () => {
+    expect(() => tell({})).toThrow('tell() requires an actor proxy')
+  })
+})
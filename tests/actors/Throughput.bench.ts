@@ -0,0 +1,100 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { bench, describe } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { ArrayMailbox } from '@/actors/ArrayMailbox'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { tell } from '@/actors/Tell'
+
+// Each busy actor keeps itself busy by sending itself a message per
+// message, until a timer fires or it reaches MaxSpins messages. Without
+// yielding, the timer cannot fire before every actor reaches MaxSpins;
+// the sooner it fires, the fairer the mailboxes are to work outside them.
+
+interface Spinner {
+  spin(): Promise<void>
+  reset(): Promise<void>
+}
+
+class SpinnerActor extends Actor implements Spinner {
+  private _self!: Spinner
+  private _spins = 0
+
+  constructor() {
+    super()
+  }
+
+  beforeStart(): void {
+    this._self = this.selfAs<Spinner>()
+  }
+
+  async spin(): Promise<void> {
+    if (busy && ++this._spins < MaxSpins) {
+      tell(this._self).spin()
+    }
+  }
+
+  async reset(): Promise<void> {
+    this._spins = 0
+  }
+}
+
+class SpinnerInstantiator implements ProtocolInstantiator {
+  instantiate(_definition: Definition): Actor {
+    return new SpinnerActor()
+  }
+}
+
+const SpinnerProtocol: Protocol = {
+  instantiator: () => new SpinnerInstantiator(),
+  type: () => 'Spinner'
+}
+
+const Actors = 100
+const MaxSpins = 1_000
+
+let busy = false
+
+function spinners(throughput?: number): Spinner[] {
+  return Array.from({ length: Actors }, () =>
+    stage().actorFor<Spinner>(SpinnerProtocol, undefined, 'default', new ArrayMailbox(undefined, throughput))
+  )
+}
+
+async function timerWhileBusy(actors: Spinner[]): Promise<void> {
+  busy = true
+  for (const actor of actors) {
+    tell(actor).spin()
+  }
+
+  await new Promise(resolve => setTimeout(resolve, 0))
+
+  busy = false
+  await Promise.all(actors.map(actor => actor.reset()))
+}
+
+const yieldingEvery10 = spinners(10)
+const yieldingByDefault = spinners()
+const neverYielding = spinners(Infinity)
+
+describe(`a timer firing while ${Actors} actors are busy`, () => {
+  bench('throughput 10', async () => {
+    await timerWhileBusy(yieldingEvery10)
+  })
+
+  bench('throughput 100 (stage default)', async () => {
+    await timerWhileBusy(yieldingByDefault)
+  })
+
+  bench('unlimited throughput', async () => {
+    await timerWhileBusy(neverYielding)
+  })
+})
@@ -0,0 +1,158 @@
+// Copyright © 2012-2025 Vaughn Vernon. All rights reserved.
+// Copyright © 2012-2025 Kalele, Inc. All rights reserved.
+//
+// Licensed under the Reciprocal Public License 1.5
+//
+// See: LICENSE.md in repository root directory
+// See: https://opensource.org/license/rpl-1-5
+
+import { describe, it, expect, afterEach } from 'vitest'
+import { Actor } from '@/actors/Actor'
+import { Definition } from '@/actors/Definition'
+import { Protocol, ProtocolInstantiator } from '@/actors/Protocol'
+import { stage } from '@/actors/Stage'
+import { ActorProtocol } from '@/actors/ActorProtocol'
+import { ArrayMailbox } from '@/actors/ArrayMailbox'
+import { BoundedMailbox } from '@/actors/BoundedMailbox'
+import { LocalStage } from '@/actors/LocalStage'
+import { Mailbox } from '@/actors/Mailbox'
+import { OverflowPolicy } from '@/actors/OverflowPolicy'
+import { PriorityMailbox } from '@/actors/PriorityMailbox'
+import { ReentrantMailbox } from '@/actors/ReentrantMailbox'
+import { tell } from '@/actors/Tell'
+
+// ============================================================================
+// Test Actors
+// ============================================================================
+
+interface Recorder extends ActorProtocol {
+  record(value: number): Promise<void>
+  values(): Promise<number[]>
+}
+
+class RecorderActor extends Actor implements Recorder {
+  constructor(private readonly _values: number[]) {
+    super()
+  }
+
+  async record(value: number): Promise<void> {
+    this._values.push(value)
+  }
+
+  async values(): Promise<number[]> {
+    return [...this._values]
+  }
+}
+
+class RecorderInstantiator implements ProtocolInstantiator {
+  instantiate(definition: Definition): Actor {
+    const [values] = definition.parameters()
+    return new RecorderActor(values)
+  }
+}
+
+const RecorderProtocol: Protocol = {
+  instantiator: () => new RecorderInstantiator(),
+  type: () => 'Recorder'
+}
+
+const Messages = 1000
+
+/** Values recorded by each recorder, readable while it is busy */
+const recorded = new WeakMap<Recorder, number[]>()
+
+function recorderWith(mailbox?: Mailbox): Recorder {
+  const values: number[] = []
+  const recorder: Recorder = stage().actorFor(RecorderProtocol, undefined, 'default', mailbox, values)
+  recorded.set(recorder, values)
+  return recorder
+}
+
+/**
+ * Floods the recorder and answers how many of its messages were
+ * processed when the event loop next checked for I/O. If its mailbox
+ * is given, the messages are queued while it is suspended.
+ */
+async function recordedWhenEventLoopTurns(recorder: Recorder, mailbox?: Mailbox): Promise<number> {
+  await recorder.values()
+
+  let recordedCount = -1
+  setImmediate(() => recordedCount = recorded.get(recorder)!.length)
+
+  mailbox?.suspend()
+  const oneWay = tell(recorder)
+  for (let value = 0; value < Messages; value++) {
+    oneWay.record(value)
+  }
+  mailbox?.resume()
+
+  await recorder.values()
+  await new Promise(resolve => setImmediate(resolve))
+  return recordedCount
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Throughput', () => {
+  afterEach(() => {
+    stage().setThroughput(LocalStage.DefaultThroughput)
+  })
+
+  it('should yield to the event loop after the throughput of messages', async () => {
+    const recorder = recorderWith(new ArrayMailbox(undefined, 10))
+
+    const count = await recordedWhenEventLoopTurns(recorder)
+
+    expect(count).toBeGreaterThan(0)
+    expect(count).toBeLessThan(Messages)
+  })
+
+  it('should deliver messages in order across yields', async () => {
+    const recorder = recorderWith(new ArrayMailbox(undefined, 7))
+
+    await recordedWhenEventLoopTurns(recorder)
+
+    expect(await recorder.values()).toEqual(Array.from({ length: Messages }, (_, value) => value))
+  })
+
+  it('should not yield with unlimited throughput', async () => {
+    const recorder = recorderWith(new ArrayMailbox(undefined, Infinity))
+
+    expect(await recordedWhenEventLoopTurns(recorder)).toBe(Messages)
+  })
+
+  it('should apply the throughput of the stage to mailboxes without their own', async () => {
+    expect(stage().throughput()).toBe(LocalStage.DefaultThroughput)
+
+    stage().setThroughput(Infinity)
+    expect(await recordedWhenEventLoopTurns(recorderWith())).toBe(Messages)
+
+    stage().setThroughput(10)
+    expect(await recordedWhenEventLoopTurns(recorderWith())).toBeLessThan(Messages)
+  })
+
+  it('should yield with every mailbox type', async () => {
+    const mailboxes: Mailbox[] = [
+      new BoundedMailbox(Messages * 2, OverflowPolicy.Reject, undefined, undefined, 10),
+      new PriorityMailbox({}, 0, undefined, 10),
+      new ReentrantMailbox(1, undefined, undefined, 10)
+    ]
+
+    for (const mailbox of mailboxes) {
+      const recorder = recorderWith(mailbox)
+
+      expect(await recordedWhenEventLoopTurns(recorder, mailbox)).toBeLessThan(Messages)
+      expect((await recorder.values()).length).toBe(Messages)
+    }
+  })
+
+  it('should reject a non-positive throughput', () => {
+    expect(() => stage().setThroughput(0)).toThrow('Throughput must be positive: 0')
+    expect(() => new ArrayMailbox(undefined, 0)).toThrow('Mailbox throughput must be positive')
+    expect(() => new PriorityMailbox({}, 0, undefined, -1)).toThrow('Mailbox throughput must be positive')
+    expect(() => new ReentrantMailbox(1, undefined, undefined, 0)).toThrow('Mailbox throughput must be positive')
+    expect(() => new BoundedMailbox(1, OverflowPolicy.Reject, undefined, undefined, 0)).toThrow('Mailbox throughput must be positive')
+  })
+})